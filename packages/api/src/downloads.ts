@@ -0,0 +1,60 @@
+import buildDebug from 'debug';
+import { Response, Router } from 'express';
+
+import { IAuth } from '@verdaccio/auth';
+import { HTTP_STATUS, errorUtils } from '@verdaccio/core';
+import { allow } from '@verdaccio/middleware';
+import {
+  DownloadsPeriod,
+  Storage,
+  getDownloadsPoint,
+  getDownloadsRange,
+  parseDownloadsPeriod,
+} from '@verdaccio/store';
+import { PackageDownloads } from '@verdaccio/types';
+
+import { $NextFunctionVer, $RequestExtend } from '../types/custom';
+
+const debug = buildDebug('verdaccio:api:downloads');
+
+type DownloadsFormatter = (
+  name: string,
+  downloads: PackageDownloads,
+  period: DownloadsPeriod
+) => object;
+
+// https://github.com/npm/registry/blob/master/docs/download-counts.md
+export default function (route: Router, auth: IAuth, storage: Storage): void {
+  const can = allow(auth);
+
+  const getDownloads = (format: DownloadsFormatter) =>
+    async function (req: $RequestExtend, res: Response, next: $NextFunctionVer): Promise<void> {
+      const name = req.params.scope
+        ? `@${req.params.scope}/${req.params.package}`
+        : req.params.package;
+      const period = parseDownloadsPeriod(req.params.period);
+      if (period === null) {
+        return next(errorUtils.getBadRequest(`invalid period ${req.params.period}`));
+      }
+
+      try {
+        debug('downloads of %o from %o to %o', name, period.start, period.end);
+        const downloads = await storage.getDownloads(name);
+        res.status(HTTP_STATUS.OK);
+        next(format(name, downloads, period));
+      } catch (err: any) {
+        next(err);
+      }
+    };
+
+  route.get(
+    '/downloads/point/:period/(@:scope/)?:package',
+    can('access'),
+    getDownloads(getDownloadsPoint)
+  );
+  route.get(
+    '/downloads/range/:period/(@:scope/)?:package',
+    can('access'),
+    getDownloads(getDownloadsRange)
+  );
+}
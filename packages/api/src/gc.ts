@@ -0,0 +1,43 @@
+import { Response, Router } from 'express';
+import _ from 'lodash';
+
+import { normalizeUserList } from '@verdaccio/config';
+import { HTTP_STATUS, errorUtils } from '@verdaccio/core';
+import { logger } from '@verdaccio/logger';
+import { Storage } from '@verdaccio/store';
+import { Config, RemoteUser } from '@verdaccio/types';
+
+import { $NextFunctionVer, $RequestExtend } from '../types/custom';
+
+function isAllowed(config: Config, user: RemoteUser): boolean {
+  const access: string[] = _.flatten(normalizeUserList(config.gc?.access));
+
+  return access.some((group) => user.name === group || user.groups.includes(group));
+}
+
+export default function (route: Router, storage: Storage, config: Config): void {
+  const collectGarbage = (dryRun: boolean) =>
+    async function (req: $RequestExtend, res: Response, next: $NextFunctionVer): Promise<void> {
+      const user = req.remote_user;
+      if (isAllowed(config, user) === false) {
+        return next(
+          _.isNil(user.name)
+            ? errorUtils.getUnauthorized()
+            : errorUtils.getForbidden(`user ${user.name} is not allowed to collect the garbage`)
+        );
+      }
+
+      try {
+        const report = await storage.collectGarbage(dryRun);
+        res.status(HTTP_STATUS.OK);
+        next(report);
+      } catch (err: any) {
+        logger.error({ err: err.message }, 'garbage collection has failed: @{err}');
+        next(errorUtils.getInternalError(err.message));
+      }
+    };
+
+  // report the orphaned tarballs and the leftovers of interrupted writes
+  route.get('/-/verdaccio/storage/garbage', collectGarbage(true));
+  route.delete('/-/verdaccio/storage/garbage', collectGarbage(false));
+}
@@ -14,12 +14,17 @@ import { Storage } from '@verdaccio/store';
 import { Config } from '@verdaccio/types';
 
 import distTags from './dist-tags';
+import downloads from './downloads';
+import gc from './gc';
 import pkg from './package';
 import ping from './ping';
 import publish from './publish';
 import search from './search';
+import { loadRegistrySigner } from './signatures';
 import stars from './stars';
+import uplinks from './uplinks';
 import user from './user';
+import keys from './v1/keys';
 import profile from './v1/profile';
 import v1Search from './v1/search';
 import token from './v1/token';
@@ -33,6 +38,7 @@ export default function (config: Config, auth: IAuth, storage: Storage): Router
   /* eslint new-cap:off */
   const app = express.Router();
   /* eslint new-cap:off */
+  const signer = loadRegistrySigner(config);
 
   // validate all of these params as a package name
   // this might be too harsh, so ask if it causes trouble
@@ -56,17 +62,21 @@ export default function (config: Config, auth: IAuth, storage: Storage): Router
   app.use(encodeScopePackage);
   // for "npm whoami"
   whoami(app);
-  pkg(app, auth, storage);
-  profile(app, auth);
+  pkg(app, auth, storage, signer);
+  profile(app, auth, config);
   // @deprecated endpoint, 404 by default
   search(app);
   user(app, auth, config);
   distTags(app, auth, storage);
-  publish(app, auth, storage, config);
+  publish(app, auth, storage, config, signer);
   ping(app);
+  uplinks(app, storage);
+  gc(app, storage, config);
+  downloads(app, auth, storage);
   stars(app, storage);
   // @ts-ignore
   v1Search(app, auth, storage);
   token(app, auth, storage, config);
+  keys(app, signer);
   return app;
 }
@@ -2,14 +2,23 @@ import buildDebug from 'debug';
 import { Router } from 'express';
 
 import { IAuth } from '@verdaccio/auth';
-import { HEADERS, errorUtils } from '@verdaccio/core';
+import { HEADERS, HTTP_STATUS, errorUtils, pkgUtils } from '@verdaccio/core';
 import { allow } from '@verdaccio/middleware';
-import { Storage } from '@verdaccio/store';
+import { STALE_MANIFEST, Storage } from '@verdaccio/store';
+import { Package, Version } from '@verdaccio/types';
 
 import { $NextFunctionVer, $RequestExtend, $ResponseExtend } from '../types/custom';
+import { RegistrySigner, signVersions } from './signatures';
+import { getManifestETag } from './utils';
 
 const debug = buildDebug('verdaccio:api:package');
 
+// https://www.rfc-editor.org/rfc/rfc7234#section-5.5
+const STALE_WARNINGS = {
+  'stale-while-revalidate': '110 - "Response is Stale"',
+  'stale-if-error': '111 - "Revalidation Failed"',
+};
+
 const downloadStream = (
   packageName: string,
   filename: string,
@@ -31,7 +40,12 @@ const downloadStream = (
   stream.pipe(res);
 };
 
-export default function (route: Router, auth: IAuth, storage: Storage): void {
+export default function (
+  route: Router,
+  auth: IAuth,
+  storage: Storage,
+  signer: RegistrySigner | null = null
+): void {
   const can = allow(auth);
 
   route.get(
@@ -39,7 +53,7 @@ export default function (route: Router, auth: IAuth, storage: Storage): void {
     can('access'),
     async function (
       req: $RequestExtend,
-      _res: $ResponseExtend,
+      res: $ResponseExtend,
       next: $NextFunctionVer
     ): Promise<void> {
       debug('init package by version');
@@ -68,7 +82,35 @@ export default function (route: Router, auth: IAuth, storage: Storage): void {
           version: queryVersion,
           requestOptions,
         });
-        next(manifest);
+        if (signer !== null) {
+          const versions = queryVersion
+            ? [manifest as Version]
+            : Object.values((manifest as Package).versions ?? {});
+          signVersions(name, versions, signer);
+        }
+        const stale = manifest[STALE_MANIFEST];
+        if (stale) {
+          res.header(HEADERS.CACHE_STATUS, 'stale');
+          res.header(HEADERS.WARNING, STALE_WARNINGS[stale]);
+        }
+        // npm clients only need the abbreviated manifest to install a package
+        res.vary(HEADERS.ACCEPT);
+        const abbreviated =
+          !queryVersion &&
+          req.accepts([HEADERS.JSON, HEADERS.ABBREVIATED_JSON]) === HEADERS.ABBREVIATED_JSON;
+        const body = abbreviated ? pkgUtils.abbreviateManifest(manifest as Package) : manifest;
+        if (abbreviated) {
+          debug('abbreviated manifest for %o', name);
+          res.header(HEADERS.CONTENT_TYPE, `${HEADERS.ABBREVIATED_JSON}; charset=utf-8`);
+        }
+        res.header(HEADERS.ETAG, getManifestETag(body, req.remote_user));
+        // the client already has this manifest, see If-None-Match
+        if (req.fresh) {
+          debug('package %o not modified', name);
+          res.status(HTTP_STATUS.NOT_MODIFIED).end();
+          return;
+        }
+        next(body);
       } catch (err) {
         next(err);
       }
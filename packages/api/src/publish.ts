@@ -11,6 +11,7 @@ import {
   DIST_TAGS,
   HEADERS,
   HTTP_STATUS,
+  VerdaccioError,
   errorUtils,
 } from '@verdaccio/core';
 import { notify } from '@verdaccio/hooks';
@@ -18,11 +19,18 @@ import { logger } from '@verdaccio/logger';
 import { allow, expectJson, media } from '@verdaccio/middleware';
 import { Storage } from '@verdaccio/store';
 import { Callback, CallbackAction, Config, MergeTags, Package, Version } from '@verdaccio/types';
-import { hasDiffOneKey, isObject, validateMetadata } from '@verdaccio/utils';
+import {
+  calculateIntegrity,
+  hasDiffOneKey,
+  isObject,
+  validateMetadata,
+  verifyIntegrity,
+} from '@verdaccio/utils';
 
 import { $NextFunctionVer, $RequestExtend, $ResponseExtend } from '../types/custom';
+import { RegistrySigner } from './signatures';
 import star from './star';
-import { isPublishablePackage, isRelatedToDeprecation } from './utils';
+import { expectOTP, isPublishablePackage, isRelatedToDeprecation } from './utils';
 
 const debug = buildDebug('verdaccio:api:publish');
 
@@ -30,9 +38,11 @@ export default function publish(
   router: Router,
   auth: IAuth,
   storage: Storage,
-  config: Config
+  config: Config,
+  signer: RegistrySigner | null = null
 ): void {
   const can = allow(auth);
+  const otp = expectOTP(auth);
 
   /**
    * Publish a package / update package / un/start a package
@@ -101,9 +111,10 @@ export default function publish(
   router.put(
     '/:package/:_rev?/:revision?',
     can('publish'),
+    otp,
     media(mime.getType('json')),
     expectJson,
-    publishPackage(storage, config, auth)
+    publishPackage(storage, config, auth, signer)
   );
 
   /**
@@ -114,13 +125,14 @@ export default function publish(
    * npm http fetch GET 304 http://localhost:4873/@scope%2ftest1?write=true 1076ms (from cache)
      npm http fetch DELETE 201 http://localhost:4873/@scope%2ftest1/-rev/18-d8ebe3020bd4ac9c 22ms
    */
-  router.delete('/:package/-rev/*', can('unpublish'), unPublishPackage(storage));
+  router.delete('/:package/-rev/*', can('unpublish'), otp, unPublishPackage(storage));
 
   // removing a tarball
   router.delete(
     '/:package/-/:filename/-rev/:revision',
     can('unpublish'),
     can('publish'),
+    otp,
     removeTarball(storage)
   );
 
@@ -128,6 +140,7 @@ export default function publish(
   router.put(
     '/:package/-/:filename/*',
     can('publish'),
+    otp,
     media(HEADERS.OCTET_STREAM),
     uploadPackageTarball(storage)
   );
@@ -136,16 +149,72 @@ export default function publish(
   router.put(
     '/:package/:version/-tag/:tag',
     can('publish'),
+    otp,
     media(mime.getType('json')),
     expectJson,
     addVersion(storage)
   );
 }
 
+/**
+ * Verify the dist.integrity of the published version against the attached tarball
+ * and sign the version with the registry key. The integrity is always verified before
+ * signing, a missing integrity is calculated from the tarball.
+ * @return an error if the tarball does not match the integrity
+ */
+export function verifyAndSignVersion(
+  metadata: Package,
+  config: Config,
+  signer: RegistrySigner | null
+): VerdaccioError | null {
+  const { _attachments, versions } = metadata;
+  const checkIntegrity = config?.publish?.check_integrity === true || signer !== null;
+  if (
+    checkIntegrity === false ||
+    isObject(_attachments) === false ||
+    hasDiffOneKey(_attachments) ||
+    isObject(versions) === false ||
+    hasDiffOneKey(versions)
+  ) {
+    return null;
+  }
+
+  const [version] = Object.keys(versions);
+  const [attachment] = Object.keys(_attachments);
+  const dist = versions[version].dist;
+  if (isObject(dist) === false || _.isString(_attachments[attachment].data) === false) {
+    return null;
+  }
+
+  const tarball = Buffer.from(_attachments[attachment].data as string, 'base64');
+  if (_.isNil(dist.integrity)) {
+    debug('no integrity on %o@%o', metadata.name, version);
+    if (signer === null) {
+      return null;
+    }
+    dist.integrity = calculateIntegrity(tarball);
+  } else if (verifyIntegrity(tarball, dist.integrity) === false) {
+    debug('integrity mismatch on %o@%o', metadata.name, version);
+    return errorUtils.getBadRequest(API_ERROR.INTEGRITY_MISMATCH);
+  }
+
+  if (signer !== null) {
+    dist.signatures = [signer.sign(metadata.name, version, dist.integrity)];
+    debug('%o@%o signed with %o', metadata.name, version, signer.publicKey.keyid);
+  }
+
+  return null;
+}
+
 /**
  * Publish a package
  */
-export function publishPackage(storage: Storage, config: Config, auth: IAuth): any {
+export function publishPackage(
+  storage: Storage,
+  config: Config,
+  auth: IAuth,
+  signer: RegistrySigner | null = null
+): any {
   const starApi = star(storage);
   return function (req: $RequestExtend, res: $ResponseExtend, next: $NextFunctionVer): void {
     const packageName = req.params.package;
@@ -302,6 +371,11 @@ export function publishPackage(storage: Storage, config: Config, auth: IAuth): a
       debug('pre validation metadata to publish %o', req.body);
       const metadata = validateMetadata(req.body, packageName);
       debug('post validation metadata to publish %o', metadata);
+      const integrityError = verifyAndSignVersion(metadata, config, signer);
+      if (integrityError) {
+        logger.warn({ packageName }, 'integrity check failed on publish for @{packageName}');
+        return next(integrityError);
+      }
       // treating deprecation as updating a package
       if (req.params._rev || isRelatedToDeprecation(req.body)) {
         debug('updating a new version for %o', packageName);
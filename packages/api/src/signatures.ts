@@ -0,0 +1,111 @@
+import { KeyObject, createHash, createPrivateKey, createPublicKey, sign } from 'crypto';
+import buildDebug from 'debug';
+import fs from 'fs';
+import _ from 'lodash';
+import path from 'path';
+
+import { Config, DistSignature, Version } from '@verdaccio/types';
+import { isObject } from '@verdaccio/utils';
+
+const debug = buildDebug('verdaccio:api:signatures');
+
+// the only key type supported by npm audit signatures
+export const REGISTRY_KEY_TYPE = 'ecdsa-sha2-nistp256';
+// OID of the prime256v1 curve in a DER encoded public key, KeyObject.asymmetricKeyDetails
+// is not available before Node.js 15.7
+const P256_CURVE_OID = Buffer.from('06082a8648ce3d030107', 'hex');
+// signatures of the proxied versions kept to not sign them on every request
+const MAX_CACHED_SIGNATURES = 10000;
+
+/**
+ * Public key as exposed on /-/npm/v1/keys.
+ */
+export interface RegistryKey {
+  expires: string | null;
+  keyid: string;
+  keytype: string;
+  scheme: string;
+  // base64 of the DER encoded SubjectPublicKeyInfo
+  key: string;
+}
+
+export interface RegistrySigner {
+  publicKey: RegistryKey;
+  sign(name: string, version: string, integrity: string): DistSignature;
+}
+
+/**
+ * Load the registry signing key from `signatures.key`, the path is relative to
+ * the configuration file.
+ * @return null if the signatures are not configured
+ */
+export function loadRegistrySigner(config: Config): RegistrySigner | null {
+  if (!config.signatures?.key) {
+    debug('registry signatures are disabled');
+    return null;
+  }
+
+  const keyPath = config.config_path
+    ? path.resolve(path.dirname(config.config_path), config.signatures.key)
+    : path.resolve(config.signatures.key);
+  const privateKey: KeyObject = createPrivateKey(fs.readFileSync(keyPath));
+  const publicKeyDer = createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+  if (privateKey.asymmetricKeyType !== 'ec' || publicKeyDer.includes(P256_CURVE_OID) === false) {
+    throw new Error(`CONFIG: the signatures key ${keyPath} must be an ECDSA P-256 private key`);
+  }
+
+  const keyid = `SHA256:${createHash('sha256')
+    .update(publicKeyDer)
+    .digest('base64')
+    .replace(/=+$/, '')}`;
+  debug('registry signatures enabled with key %o', keyid);
+  const signatures = new Map<string, DistSignature>();
+
+  return {
+    publicKey: {
+      expires: config.signatures.expires ?? null,
+      keyid,
+      keytype: REGISTRY_KEY_TYPE,
+      scheme: REGISTRY_KEY_TYPE,
+      key: publicKeyDer.toString('base64'),
+    },
+    sign(name: string, version: string, integrity: string): DistSignature {
+      // same message the npm registry signs, verified by npm audit signatures
+      const message = `${name}@${version}:${integrity}`;
+      let signature = signatures.get(message);
+      if (signature === undefined) {
+        signature = {
+          keyid,
+          sig: sign('sha256', Buffer.from(message), privateKey).toString('base64'),
+        };
+        if (signatures.size >= MAX_CACHED_SIGNATURES) {
+          signatures.delete(signatures.keys().next().value);
+        }
+        signatures.set(message, signature);
+      }
+
+      return { ...signature };
+    },
+  };
+}
+
+/**
+ * Sign with the registry key the versions served without its signature, eg: proxied from
+ * an uplink, whose signatures are made with keys not listed on /-/npm/v1/keys and would
+ * fail npm audit signatures. The signatures of a version without integrity are removed.
+ */
+export function signVersions(name: string, versions: Version[], signer: RegistrySigner): void {
+  const { keyid } = signer.publicKey;
+  for (const version of versions) {
+    const { dist } = version;
+    if (isObject(dist) === false) {
+      continue;
+    }
+    const { integrity } = dist;
+    if (_.isString(integrity) === false) {
+      delete dist.signatures;
+    } else if (dist.signatures?.some((signature) => signature.keyid === keyid) !== true) {
+      dist.signatures = [signer.sign(name, version.version, integrity as string)];
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Response, Router } from 'express';
+
+import { Storage } from '@verdaccio/store';
+
+import { $NextFunctionVer, $RequestExtend } from '../types/custom';
+
+export default function (route: Router, storage: Storage): void {
+  // circuit breaker state of every uplink, eg: to know when and why an uplink is marked as down
+  route.get(
+    '/-/verdaccio/uplinks/health',
+    function (_req: $RequestExtend, _res: Response, next: $NextFunctionVer): void {
+      const uplinks = Object.keys(storage.uplinks).map((name) => storage.uplinks[name].getHealth());
+
+      next({ uplinks });
+    }
+  );
+}
@@ -11,6 +11,7 @@ import { Config, RemoteUser } from '@verdaccio/types';
 import { getAuthenticatedMessage, validatePassword } from '@verdaccio/utils';
 
 import { $NextFunctionVer, $RequestExtend } from '../types/custom';
+import { verifyOTP } from './utils';
 
 const debug = buildDebug('verdaccio:api:user');
 
@@ -51,21 +52,28 @@ export default function (route: Router, auth: IAuth, config: Config): void {
               );
             }
 
-            const restoredRemoteUser: RemoteUser = createRemoteUser(name, user.groups || []);
-            const token = await getApiToken(auth, config, restoredRemoteUser, password);
-            debug('login: new token');
-            if (!token) {
-              return next(errorUtils.getUnauthorized());
-            }
+            verifyOTP(auth, req, res, 'login', async (err): Promise<void> => {
+              if (err) {
+                debug('login: one-time password verification failed');
+                return next(err);
+              }
 
-            res.status(HTTP_STATUS.CREATED);
+              const restoredRemoteUser: RemoteUser = createRemoteUser(name, user.groups || []);
+              const token = await getApiToken(auth, config, restoredRemoteUser, password);
+              debug('login: new token');
+              if (!token) {
+                return next(errorUtils.getUnauthorized());
+              }
 
-            const message = getAuthenticatedMessage(req.remote_user.name);
-            debug('login: created user message %o', message);
+              res.status(HTTP_STATUS.CREATED);
 
-            return next({
-              ok: message,
-              token,
+              const message = getAuthenticatedMessage(req.remote_user.name);
+              debug('login: created user message %o', message);
+
+              return next({
+                ok: message,
+                token,
+              });
             });
           }
         );
@@ -90,19 +98,27 @@ export default function (route: Router, auth: IAuth, config: Config): void {
             return next(err);
           }
 
-          const token =
-            name && password ? await getApiToken(auth, config, user, password) : undefined;
-          debug('adduser: new token %o', token);
-          if (!token) {
-            return next(errorUtils.getUnauthorized());
-          }
-
+          // some plugins add an existing user as a login, the two-factor authentication applies
           req.remote_user = user;
-          res.status(HTTP_STATUS.CREATED);
-          debug('adduser: user has been created');
-          return next({
-            ok: `user '${req.body.name}' created`,
-            token,
+          verifyOTP(auth, req, res, 'login', async (err): Promise<void> => {
+            if (err) {
+              debug('adduser: one-time password verification failed');
+              return next(err);
+            }
+
+            const token =
+              name && password ? await getApiToken(auth, config, user, password) : undefined;
+            debug('adduser: new token %o', token);
+            if (!token) {
+              return next(errorUtils.getUnauthorized());
+            }
+
+            res.status(HTTP_STATUS.CREATED);
+            debug('adduser: user has been created');
+            return next({
+              ok: `user '${req.body.name}' created`,
+              token,
+            });
           });
         });
       }
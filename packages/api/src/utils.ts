@@ -1,6 +1,12 @@
+import { Response } from 'express';
 import _ from 'lodash';
 
-import { Package } from '@verdaccio/types';
+import { IAuth, TwoFactorAction } from '@verdaccio/auth';
+import { HEADERS, HTTP_STATUS } from '@verdaccio/core';
+import { AbbreviatedManifest, Callback, Package, RemoteUser, Version } from '@verdaccio/types';
+import { stringToMD5 } from '@verdaccio/utils';
+
+import { $NextFunctionVer, $RequestExtend } from '../types/custom';
 
 /**
  * Check whether the package metadta has enough data to be published
@@ -14,6 +20,20 @@ export function isPublishablePackage(pkg: Package): boolean {
   return _.includes(keys, 'versions');
 }
 
+/**
+ * Weak ETag of the manifest served to a user, the access of the user is part of
+ * the validator since the filters and the plugins may serve a different manifest
+ * to each user.
+ */
+export function getManifestETag(
+  manifest: Package | Version | AbbreviatedManifest,
+  remoteUser?: RemoteUser
+): string {
+  const access = JSON.stringify([remoteUser?.name ?? null, _.sortBy(remoteUser?.groups ?? [])]);
+
+  return `W/"${stringToMD5(JSON.stringify(manifest) + access)}"`;
+}
+
 export function isRelatedToDeprecation(pkgInfo: Package): boolean {
   const { versions } = pkgInfo;
   for (const version in versions) {
@@ -23,3 +43,38 @@ export function isRelatedToDeprecation(pkgInfo: Package): boolean {
   }
   return false;
 }
+
+/**
+ * Verify the one-time password sent by the npm client on the `npm-otp` header,
+ * the WWW-Authenticate header asks the client to prompt the user for it.
+ */
+export function verifyOTP(
+  auth: IAuth,
+  req: $RequestExtend,
+  res: Response,
+  action: TwoFactorAction,
+  callback: Callback
+): void {
+  const otp = req.get(HEADERS.NPM_OTP);
+  auth.verifyTwoFactor(req.remote_user.name, otp, action, (err): void => {
+    if (err && err.status === HTTP_STATUS.UNAUTHORIZED) {
+      res.setHeader(HEADERS.WWW_AUTH, 'OTP');
+    }
+
+    callback(err);
+  });
+}
+
+/**
+ * Middleware that requires a one-time password on write operations for users
+ * with two-factor authentication enabled.
+ */
+export function expectOTP(auth: IAuth) {
+  return function (req: $RequestExtend, res: Response, next: $NextFunctionVer): void {
+    if (_.isNil(req.remote_user?.name)) {
+      return next();
+    }
+
+    verifyOTP(auth, req, res, 'write', (err): void => next(err));
+  };
+}
@@ -0,0 +1,20 @@
+import { Response, Router } from 'express';
+
+import { errorUtils } from '@verdaccio/core';
+
+import { $NextFunctionVer, $RequestExtend } from '../../types/custom';
+import { RegistrySigner } from '../signatures';
+
+export default function (route: Router, signer: RegistrySigner | null): void {
+  // used by npm audit signatures to verify the dist.signatures of the packages
+  route.get(
+    '/-/npm/v1/keys',
+    function (_req: $RequestExtend, _res: Response, next: $NextFunctionVer): void {
+      if (signer === null) {
+        return next(errorUtils.getNotFound('registry signatures are not enabled'));
+      }
+
+      return next({ keys: [signer.publicKey] });
+    }
+  );
+}
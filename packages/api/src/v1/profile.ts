@@ -1,14 +1,37 @@
 import { Response, Router } from 'express';
 import _ from 'lodash';
 
-import { IAuth } from '@verdaccio/auth';
+import {
+  IAuth,
+  buildOTPAuthURL,
+  generateRecoveryCodes,
+  generateTOTPSecret,
+  hashRecoveryCode,
+  verifyTOTP,
+} from '@verdaccio/auth';
+import { WEB_TITLE } from '@verdaccio/config';
 import { API_ERROR, APP_ERROR, HTTP_STATUS, SUPPORT_ERRORS, errorUtils } from '@verdaccio/core';
+import {
+  Config,
+  TwoFactorAuth,
+  TwoFactorMode,
+  UserProfile,
+  UserProfileFields,
+} from '@verdaccio/types';
 import { validatePassword } from '@verdaccio/utils';
 
 import { $NextFunctionVer, $RequestExtend } from '../../types/custom';
+import { verifyOTP } from '../utils';
+
+export interface ProfileTwoFactor {
+  pending: boolean;
+  mode: TwoFactorMode;
+}
 
 export interface Profile {
-  tfa: boolean;
+  // the npm cli expects an otpauth url on enrollment, the recovery codes on confirmation
+  // and null on a mode change
+  tfa: ProfileTwoFactor | false | null | string | string[];
   name: string;
   email: string;
   email_verified: boolean;
@@ -16,27 +39,177 @@ export interface Profile {
   updated: string;
   cidr_whitelist: string[] | null;
   fullname: string;
+  homepage: string;
+  freenode: string;
+  twitter: string;
+  github: string;
 }
 
-export default function (route: Router, auth: IAuth): void {
-  function buildProfile(name: string): Profile {
+const TFA_MODES: string[] = ['auth-only', 'auth-and-writes'];
+const TFA_DISABLE = 'disable';
+// fields that can be modified with npm profile set
+const PROFILE_FIELDS: string[] = ['email', 'fullname', 'homepage', 'freenode', 'twitter', 'github'];
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+$/;
+
+export default function (route: Router, auth: IAuth, config: Config): void {
+  function buildProfile(
+    name: string,
+    tfa: Profile['tfa'] = false,
+    profile?: UserProfile | null
+  ): Profile {
     return {
-      tfa: false,
+      tfa,
       name,
-      email: '',
+      email: profile?.email ?? '',
       email_verified: false,
-      created: '',
-      updated: '',
+      created: profile?.created ?? '',
+      updated: profile?.updated ?? '',
       cidr_whitelist: null,
-      fullname: '',
+      fullname: profile?.fullname ?? '',
+      homepage: profile?.homepage ?? '',
+      freenode: profile?.freenode ?? '',
+      twitter: profile?.twitter ?? '',
+      github: profile?.github ?? '',
     };
   }
 
+  function getProfileFields(body: any): UserProfileFields | null {
+    const fields = _.pick(body, PROFILE_FIELDS);
+    return _.isEmpty(fields) ? null : fields;
+  }
+
+  function isValidProfileFields(fields: UserProfileFields): boolean {
+    if (_.every(fields, _.isString) === false) {
+      return false;
+    }
+
+    // an empty value removes the email
+    return _.isEmpty(fields.email) || EMAIL_REGEX.test(fields.email as string);
+  }
+
+  function buildProfileTwoFactor(tfa?: TwoFactorAuth | null): ProfileTwoFactor | false {
+    return _.isNil(tfa) ? false : { pending: tfa.pending, mode: tfa.mode };
+  }
+
+  function sendProfile(name: string, next: $NextFunctionVer): void {
+    auth.readTwoFactor(name, (err, tfa): $NextFunctionVer => {
+      if (err) {
+        return next(err);
+      }
+
+      auth.readProfile(name, (err, profile): $NextFunctionVer => {
+        if (err) {
+          return next(err);
+        }
+
+        return next(buildProfile(name, buildProfileTwoFactor(tfa), profile));
+      });
+    });
+  }
+
+  /**
+   * Confirm a pending enrollment with the first one-time password,
+   * the recovery codes are shown only once.
+   */
+  function confirmTwoFactor(name: string, otp: string, next: $NextFunctionVer): void {
+    auth.readTwoFactor(name, (err, tfa): $NextFunctionVer => {
+      if (err) {
+        return next(err);
+      }
+
+      if (_.isNil(tfa) || tfa.pending === false) {
+        return next(errorUtils.getBadRequest(API_ERROR.TFA_NOT_PENDING));
+      }
+
+      if (verifyTOTP(tfa.secret, String(otp)) === false) {
+        return next(errorUtils.getUnauthorized(API_ERROR.OTP_INVALID));
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const enabledTwoFactor: TwoFactorAuth = {
+        ...tfa,
+        pending: false,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      };
+      auth.saveTwoFactor(name, enabledTwoFactor, (err): $NextFunctionVer => {
+        if (err) {
+          return next(err);
+        }
+
+        return next(buildProfile(name, recoveryCodes));
+      });
+    });
+  }
+
+  /**
+   * Enable, change the mode or disable the two-factor authentication,
+   * an already enabled two-factor authentication requires a one-time password to be modified.
+   */
+  function updateTwoFactor(
+    req: $RequestExtend,
+    res: Response,
+    name: string,
+    mode: string,
+    next: $NextFunctionVer
+  ): void {
+    auth.readTwoFactor(name, (err, tfa): $NextFunctionVer => {
+      if (err) {
+        return next(err);
+      }
+
+      const isEnabled = _.isNil(tfa) === false && (tfa as TwoFactorAuth).pending === false;
+      if (mode === TFA_DISABLE) {
+        if (isEnabled === false) {
+          return next(errorUtils.getBadRequest(API_ERROR.TFA_NOT_ENABLED));
+        }
+
+        return verifyOTP(auth, req, res, 'login', (err): $NextFunctionVer => {
+          if (err) {
+            return next(err);
+          }
+
+          auth.saveTwoFactor(name, null, (err): $NextFunctionVer => {
+            return err ? next(err) : next(buildProfile(name));
+          });
+        });
+      }
+
+      if (isEnabled) {
+        return verifyOTP(auth, req, res, 'login', (err): $NextFunctionVer => {
+          if (err) {
+            return next(err);
+          }
+
+          const updatedTwoFactor = { ...(tfa as TwoFactorAuth), mode: mode as TwoFactorMode };
+          auth.saveTwoFactor(name, updatedTwoFactor, (err): $NextFunctionVer => {
+            return err ? next(err) : next(buildProfile(name, null));
+          });
+        });
+      }
+
+      const secret = generateTOTPSecret();
+      const pendingTwoFactor: TwoFactorAuth = {
+        secret,
+        mode: mode as TwoFactorMode,
+        pending: true,
+        recoveryCodes: [],
+      };
+      auth.saveTwoFactor(name, pendingTwoFactor, (err): $NextFunctionVer => {
+        if (err) {
+          return next(err);
+        }
+
+        const issuer = config?.web?.title || WEB_TITLE;
+        return next(buildProfile(name, buildOTPAuthURL(issuer, name, secret)));
+      });
+    });
+  }
+
   route.get(
     '/-/npm/v1/user',
     function (req: $RequestExtend, res: Response, next: $NextFunctionVer): void {
       if (_.isNil(req.remote_user.name) === false) {
-        return next(buildProfile(req.remote_user.name));
+        return sendProfile(req.remote_user.name, next);
       }
 
       res.status(HTTP_STATUS.UNAUTHORIZED);
@@ -58,6 +231,7 @@ export default function (route: Router, auth: IAuth): void {
 
       const { password, tfa } = req.body;
       const { name } = req.remote_user;
+      const profileFields = getProfileFields(req.body);
 
       if (_.isNil(password) === false) {
         if (validatePassword(password.new) === false) {
@@ -78,15 +252,58 @@ export default function (route: Router, auth: IAuth): void {
             }
 
             if (isUpdated) {
-              return next(buildProfile(req.remote_user.name));
+              return sendProfile(req.remote_user.name, next);
             }
             return next(errorUtils.getInternalError(API_ERROR.INTERNAL_SERVER_ERROR));
           }
         );
       } else if (_.isNil(tfa) === false) {
-        return next(
-          errorUtils.getCode(HTTP_STATUS.SERVICE_UNAVAILABLE, SUPPORT_ERRORS.TFA_DISABLED)
-        );
+        if (auth.isTwoFactorSupported() === false) {
+          return next(
+            errorUtils.getCode(HTTP_STATUS.SERVICE_UNAVAILABLE, SUPPORT_ERRORS.TFA_DISABLED)
+          );
+        }
+
+        // npm profile enable-2fa confirms the enrollment sending the first one-time password
+        if (_.isArray(tfa)) {
+          return confirmTwoFactor(name, tfa[0], next);
+        }
+
+        const { password: tfaPassword, mode } = tfa;
+        if (
+          _.isString(tfaPassword) === false ||
+          [...TFA_MODES, TFA_DISABLE].includes(mode) === false
+        ) {
+          return next(
+            errorUtils.getCode(HTTP_STATUS.BAD_DATA, SUPPORT_ERRORS.PARAMETERS_NOT_VALID)
+          );
+        }
+
+        auth.authenticate(name, tfaPassword, (err): $NextFunctionVer => {
+          if (err) {
+            return next(
+              errorUtils.getCode(HTTP_STATUS.UNAUTHORIZED, API_ERROR.BAD_USERNAME_PASSWORD)
+            );
+          }
+
+          return updateTwoFactor(req, res, name, mode, next);
+        });
+      } else if (_.isNil(profileFields) === false) {
+        if (auth.isProfileSupported() === false) {
+          return next(
+            errorUtils.getCode(HTTP_STATUS.SERVICE_UNAVAILABLE, SUPPORT_ERRORS.PROFILE_DISABLED)
+          );
+        }
+
+        if (isValidProfileFields(profileFields as UserProfileFields) === false) {
+          return next(
+            errorUtils.getCode(HTTP_STATUS.BAD_DATA, SUPPORT_ERRORS.PARAMETERS_NOT_VALID)
+          );
+        }
+
+        auth.updateProfile(name, profileFields as UserProfileFields, (err): $NextFunctionVer => {
+          return err ? next(err) : sendProfile(name, next);
+        });
       } else {
         return next(errorUtils.getCode(HTTP_STATUS.INTERNAL_ERROR, APP_ERROR.PROFILE_ERROR));
       }
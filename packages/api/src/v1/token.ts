@@ -1,13 +1,13 @@
 import { Response, Router } from 'express';
 import _ from 'lodash';
 
-import { getApiToken } from '@verdaccio/auth';
+import { getApiToken, isValidCIDRList } from '@verdaccio/auth';
 import { IAuth } from '@verdaccio/auth';
 import { HTTP_STATUS, SUPPORT_ERRORS, errorUtils } from '@verdaccio/core';
 import { logger } from '@verdaccio/logger';
 import { Storage } from '@verdaccio/store';
 import { Config, RemoteUser, Token } from '@verdaccio/types';
-import { mask, stringToMD5 } from '@verdaccio/utils';
+import { generateRandomHexString, mask, stringToMD5 } from '@verdaccio/utils';
 
 import { $NextFunctionVer, $RequestExtend } from '../../types/custom';
 
@@ -57,7 +57,11 @@ export default function (route: Router, auth: IAuth, storage: Storage, config: C
       const { password, readonly, cidr_whitelist } = req.body;
       const { name } = req.remote_user;
 
-      if (!_.isBoolean(readonly) || !_.isArray(cidr_whitelist)) {
+      if (
+        !_.isBoolean(readonly) ||
+        !_.isArray(cidr_whitelist) ||
+        !isValidCIDRList(cidr_whitelist)
+      ) {
         return next(errorUtils.getCode(HTTP_STATUS.BAD_DATA, SUPPORT_ERRORS.PARAMETERS_NOT_VALID));
       }
 
@@ -76,7 +80,10 @@ export default function (route: Router, auth: IAuth, storage: Storage, config: C
         }
 
         try {
-          const token = await getApiToken(auth, config, user, password);
+          // the jwt id flags the token as issued here, it is rejected once its record is deleted
+          const token = await getApiToken(auth, config, user, password, {
+            jwtid: generateRandomHexString(16),
+          });
           if (!token) {
             throw errorUtils.getInternalError();
           }
@@ -87,7 +94,8 @@ export default function (route: Router, auth: IAuth, storage: Storage, config: C
           const created = new Date().getTime();
 
           /**
-           * cidr_whitelist: is not being used, we pass it through
+           * readonly and cidr: restrictions applied by the auth api middleware
+           * on each request that uses this token.
            * token: we do not store the real token (it is generated once and retrieved
            * to the user), just a mask of it.
            */
@@ -132,6 +140,7 @@ export default function (route: Router, auth: IAuth, storage: Storage, config: C
         logger.debug({ name }, '@{name} has requested remove a token');
         try {
           await storage.deleteToken(name, tokenKey);
+          auth.invalidateTokenCache(tokenKey);
           logger.info({ tokenKey, name }, 'token id @{tokenKey} was revoked for user @{name}');
           return next({});
         } catch (error: any) {
@@ -24,7 +24,7 @@ export async function initializeServer(configName): Promise<Application> {
   const config = new Config(getConf(configName));
   const storage = new Storage(config);
   await storage.init(config, []);
-  const auth: IAuth = new Auth(config);
+  const auth: IAuth = new Auth(config, storage);
   // TODO: this might not be need it, used in apiEndpoints
   app.use(bodyParser.json({ strict: false, limit: '10mb' }));
   // @ts-ignore
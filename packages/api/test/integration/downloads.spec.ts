@@ -0,0 +1,83 @@
+import supertest from 'supertest';
+
+import { HTTP_STATUS } from '@verdaccio/core';
+
+import { $RequestExtend, $ResponseExtend } from '../../types/custom';
+import { initializeServer, publishVersion } from './_helper';
+
+const mockApiJWTmiddleware = jest.fn(
+  () =>
+    (req: $RequestExtend, res: $ResponseExtend, _next): void => {
+      req.remote_user = { name: 'foo', groups: [], real_groups: [] };
+      _next();
+    }
+);
+
+jest.mock('@verdaccio/auth', () => ({
+  Auth: class {
+    apiJWTmiddleware() {
+      return mockApiJWTmiddleware();
+    }
+    allow_access(_d, _f, cb) {
+      // always allow access
+      cb(null, true);
+    }
+    allow_publish(_d, _f, cb) {
+      // always allow publish
+      cb(null, true);
+    }
+    verifyTwoFactor(_name, _otp, _action, callback) {
+      callback(null);
+    }
+  },
+}));
+
+const today = new Date().toISOString().slice(0, 10);
+
+describe('downloads', () => {
+  let app;
+  beforeEach(async () => {
+    app = await initializeServer('downloads.yaml');
+  });
+
+  test('should count the downloads of a package', async () => {
+    await publishVersion(app, 'downloads.yaml', 'foo', '1.0.0');
+    await supertest(app).get('/foo/-/foo-1.0.0.tgz').expect(HTTP_STATUS.OK);
+    await supertest(app).get('/foo/-/foo-1.0.0.tgz').expect(HTTP_STATUS.OK);
+
+    const response = await supertest(app)
+      .get('/downloads/point/last-day/foo')
+      .expect(HTTP_STATUS.OK);
+
+    expect(response.body).toEqual({
+      downloads: 2,
+      start: today,
+      end: today,
+      package: 'foo',
+      versions: { '1.0.0': 2 },
+    });
+  });
+
+  test('should list the downloads by day of a scoped package', async () => {
+    await publishVersion(app, 'downloads.yaml', '@scope/foo', '1.0.0');
+    await supertest(app).get('/@scope/foo/-/foo-1.0.0.tgz').expect(HTTP_STATUS.OK);
+
+    const response = await supertest(app)
+      .get('/downloads/range/last-week/@scope/foo')
+      .expect(HTTP_STATUS.OK);
+
+    expect(response.body.package).toEqual('@scope/foo');
+    expect(response.body.end).toEqual(today);
+    expect(response.body.downloads).toHaveLength(7);
+    expect(response.body.downloads[6]).toEqual({ downloads: 1, day: today });
+  });
+
+  test('should reject an invalid period', async () => {
+    await publishVersion(app, 'downloads.yaml', 'foo', '1.0.0');
+    return supertest(app).get('/downloads/point/last-century/foo').expect(HTTP_STATUS.BAD_REQUEST);
+  });
+
+  test('should not find a package not stored', async () => {
+    return supertest(app).get('/downloads/point/last-week/bar').expect(HTTP_STATUS.NOT_FOUND);
+  });
+});
@@ -0,0 +1,42 @@
+import supertest from 'supertest';
+
+import { HEADERS, HTTP_STATUS, TOKEN_BASIC } from '@verdaccio/core';
+import { buildToken, buildUserBuffer } from '@verdaccio/utils';
+
+import { initializeServer } from './_helper';
+
+const basicAuth = (name: string) =>
+  buildToken(TOKEN_BASIC, buildUserBuffer(name, name).toString('base64'));
+
+describe('garbage collection', () => {
+  test('should report the garbage of the storage', async () => {
+    const response = await supertest(await initializeServer('gc.yaml'))
+      .get('/-/verdaccio/storage/garbage')
+      .set(HEADERS.AUTHORIZATION, basicAuth('test'))
+      .expect(HTTP_STATUS.OK);
+
+    expect(response.body).toEqual({ packages: 0, files: [], removed: 0, errors: [] });
+  });
+
+  test('should remove the garbage of the storage', async () => {
+    const response = await supertest(await initializeServer('gc.yaml'))
+      .delete('/-/verdaccio/storage/garbage')
+      .set(HEADERS.AUTHORIZATION, basicAuth('test'))
+      .expect(HTTP_STATUS.OK);
+
+    expect(response.body.removed).toEqual(0);
+  });
+
+  test('should forbid the users without access', async () => {
+    return supertest(await initializeServer('gc.yaml'))
+      .delete('/-/verdaccio/storage/garbage')
+      .set(HEADERS.AUTHORIZATION, basicAuth('other'))
+      .expect(HTTP_STATUS.FORBIDDEN);
+  });
+
+  test('should require credentials', async () => {
+    return supertest(await initializeServer('gc.yaml'))
+      .get('/-/verdaccio/storage/garbage')
+      .expect(HTTP_STATUS.UNAUTHORIZED);
+  });
+});
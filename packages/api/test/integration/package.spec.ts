@@ -1,6 +1,7 @@
 import supertest from 'supertest';
 
 import { HEADERS, HEADER_TYPE, HTTP_STATUS } from '@verdaccio/core';
+import { STALE_MANIFEST, Storage } from '@verdaccio/store';
 
 import { $RequestExtend, $ResponseExtend } from '../../types/custom';
 import { initializeServer, publishTaggedVersion, publishVersion } from './_helper';
@@ -26,6 +27,9 @@ jest.mock('@verdaccio/auth', () => ({
       // always allow publish
       cb(null, true);
     }
+    verifyTwoFactor(_name, _otp, _action, callback) {
+      callback(null);
+    }
   },
 }));
 
@@ -65,6 +69,42 @@ describe('package', () => {
     });
   });
 
+  test('should not send a package not modified', async () => {
+    await publishVersion(app, 'package.yaml', 'foo4', '1.0.0');
+    // the tarball urls depend on the host
+    const response = await supertest(app)
+      .get('/foo4')
+      .set('Host', 'localhost:4873')
+      .set('Accept', HEADERS.JSON)
+      .expect(HTTP_STATUS.OK);
+    const etag = response.headers.etag;
+    expect(etag).toMatch(/^W\/"[a-f0-9]+"$/);
+
+    const notModified = await supertest(app)
+      .get('/foo4')
+      .set('Host', 'localhost:4873')
+      .set('Accept', HEADERS.JSON)
+      .set('If-None-Match', etag)
+      .expect(HTTP_STATUS.NOT_MODIFIED);
+    expect(notModified.headers.etag).toEqual(etag);
+    expect(notModified.text).toBeFalsy();
+  });
+
+  test('should return an abbreviated package', async () => {
+    await publishVersion(app, 'package.yaml', 'foo6', '1.0.0');
+    const response = await supertest(app)
+      .get('/foo6')
+      .set('Accept', `${HEADERS.ABBREVIATED_JSON}; q=1.0, ${HEADERS.JSON}; q=0.8, */*`)
+      .expect(HEADER_TYPE.CONTENT_TYPE, `${HEADERS.ABBREVIATED_JSON}; charset=utf-8`)
+      .expect(HTTP_STATUS.OK);
+    expect(response.headers.vary).toEqual('Accept');
+    const manifest = JSON.parse(response.text);
+    expect(Object.keys(manifest)).toEqual(['name', 'dist-tags', 'versions', 'modified']);
+    expect(manifest.versions['1.0.0'].name).toEqual('foo6');
+    expect(manifest.versions['1.0.0'].dist.tarball).toMatch(/foo6-1.0.0.tgz$/);
+    expect(manifest.versions['1.0.0']).not.toHaveProperty('readmeFilename');
+  });
+
   // FIXME: investigate the 404
   test.skip('should return a package by dist-tag', async (done) => {
     // await publishVersion(app, 'package.yaml', 'foo3', '1.0.0');
@@ -88,4 +128,20 @@ describe('package', () => {
       .expect(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON_CHARSET)
       .expect(HTTP_STATUS.NOT_FOUND);
   });
+
+  test('should flag a stale package', async () => {
+    const getPackage = jest.spyOn(Storage.prototype, 'getPackageByOptions');
+    getPackage.mockResolvedValueOnce({
+      name: 'foo3',
+      [STALE_MANIFEST]: 'stale-if-error',
+    } as any);
+
+    const response = await supertest(app)
+      .get('/foo3')
+      .set('Accept', HEADERS.JSON)
+      .expect(HTTP_STATUS.OK);
+    expect(response.headers['x-verdaccio-cache']).toEqual('stale');
+    expect(response.headers.warning).toEqual('111 - "Revalidation Failed"');
+    getPackage.mockRestore();
+  });
 });
@@ -0,0 +1,192 @@
+import supertest from 'supertest';
+
+import { generateTOTP } from '@verdaccio/auth';
+import {
+  API_ERROR,
+  HEADERS,
+  HEADER_TYPE,
+  HTTP_STATUS,
+  SUPPORT_ERRORS,
+  TOKEN_BASIC,
+} from '@verdaccio/core';
+import { buildToken, buildUserBuffer } from '@verdaccio/utils';
+
+import { initializeServer } from './_helper';
+
+const credentials = { name: 'test', password: 'test' };
+const authorization = buildToken(
+  TOKEN_BASIC,
+  buildUserBuffer(credentials.name, credentials.password).toString('base64')
+);
+
+function postProfile(app, body, otp?: string): supertest.Test {
+  const test = supertest(app)
+    .post('/-/npm/v1/user')
+    .set(HEADERS.AUTHORIZATION, authorization)
+    .set(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON);
+
+  return (otp ? test.set(HEADERS.NPM_OTP, otp) : test).send(body);
+}
+
+function login(app, otp?: string): supertest.Test {
+  const test = supertest(app)
+    .put(`/-/user/org.couchdb.user:${credentials.name}`)
+    .set(HEADERS.AUTHORIZATION, authorization)
+    .set(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON);
+
+  return (otp ? test.set(HEADERS.NPM_OTP, otp) : test).send(credentials);
+}
+
+async function enableTwoFactor(app, mode = 'auth-and-writes'): Promise<string> {
+  const { body } = await postProfile(app, {
+    tfa: { password: credentials.password, mode },
+  }).expect(HTTP_STATUS.OK);
+  const secret = new URL(body.tfa).searchParams.get('secret') as string;
+
+  const { body: confirmed } = await postProfile(app, {
+    tfa: [generateTOTP(secret)],
+  }).expect(HTTP_STATUS.OK);
+  expect(confirmed.tfa).toHaveLength(5);
+
+  return secret;
+}
+
+describe('profile two-factor authentication', () => {
+  test('should start the enrollment with an otpauth url', async () => {
+    const app = await initializeServer('profile.yaml');
+    const { body } = await postProfile(app, {
+      tfa: { password: credentials.password, mode: 'auth-only' },
+    }).expect(HTTP_STATUS.OK);
+
+    expect(body.tfa).toMatch(/^otpauth:\/\/totp\/verdaccio%3Atest\?secret=/);
+
+    const { body: profile } = await supertest(app)
+      .get('/-/npm/v1/user')
+      .set(HEADERS.AUTHORIZATION, authorization)
+      .expect(HTTP_STATUS.OK);
+    expect(profile.tfa).toEqual({ pending: true, mode: 'auth-only' });
+  });
+
+  test('should reject the enrollment with a wrong password', async () => {
+    const app = await initializeServer('profile.yaml');
+    const response = await postProfile(app, {
+      tfa: { password: 'wrong', mode: 'auth-only' },
+    }).expect(HTTP_STATUS.UNAUTHORIZED);
+
+    expect(response.body.error).toEqual(API_ERROR.BAD_USERNAME_PASSWORD);
+  });
+
+  test('should require a one-time password to login', async () => {
+    const app = await initializeServer('profile.yaml');
+    const secret = await enableTwoFactor(app);
+
+    const response = await login(app).expect(HTTP_STATUS.UNAUTHORIZED);
+    expect(response.headers['www-authenticate']).toEqual('OTP');
+    expect(response.body.error).toEqual(API_ERROR.OTP_REQUIRED);
+
+    await login(app, '000000').expect(HTTP_STATUS.UNAUTHORIZED);
+    const { body } = await login(app, generateTOTP(secret)).expect(HTTP_STATUS.CREATED);
+    expect(body.token).toBeDefined();
+  });
+
+  test('should require a one-time password to login without authorization', async () => {
+    const app = await initializeServer('profile.yaml');
+    const secret = await enableTwoFactor(app);
+    // auth-memory adds an existing user as a login
+    const adduser = (otp?: string): supertest.Test => {
+      const test = supertest(app)
+        .put(`/-/user/org.couchdb.user:${credentials.name}`)
+        .set(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON);
+
+      return (otp ? test.set(HEADERS.NPM_OTP, otp) : test).send(credentials);
+    };
+
+    const response = await adduser().expect(HTTP_STATUS.UNAUTHORIZED);
+    expect(response.headers['www-authenticate']).toEqual('OTP');
+    expect(response.body.token).toBeUndefined();
+
+    const { body } = await adduser(generateTOTP(secret)).expect(HTTP_STATUS.CREATED);
+    expect(body.token).toBeDefined();
+  });
+
+  test('should accept a recovery code only once', async () => {
+    const app = await initializeServer('profile.yaml');
+    const { body } = await postProfile(app, {
+      tfa: { password: credentials.password, mode: 'auth-only' },
+    }).expect(HTTP_STATUS.OK);
+    const secret = new URL(body.tfa).searchParams.get('secret') as string;
+    const {
+      body: { tfa: recoveryCodes },
+    } = await postProfile(app, { tfa: [generateTOTP(secret)] }).expect(HTTP_STATUS.OK);
+
+    await login(app, recoveryCodes[0]).expect(HTTP_STATUS.CREATED);
+    await login(app, recoveryCodes[0]).expect(HTTP_STATUS.UNAUTHORIZED);
+  });
+
+  test('should disable the two-factor authentication with a one-time password', async () => {
+    const app = await initializeServer('profile.yaml');
+    const secret = await enableTwoFactor(app);
+
+    await postProfile(app, {
+      tfa: { password: credentials.password, mode: 'disable' },
+    }).expect(HTTP_STATUS.UNAUTHORIZED);
+    const { body } = await postProfile(
+      app,
+      { tfa: { password: credentials.password, mode: 'disable' } },
+      generateTOTP(secret)
+    ).expect(HTTP_STATUS.OK);
+
+    expect(body.tfa).toBe(false);
+    await login(app).expect(HTTP_STATUS.CREATED);
+  });
+});
+
+describe('profile', () => {
+  test('should return empty fields without a stored profile', async () => {
+    const app = await initializeServer('profile.yaml');
+    const { body } = await supertest(app)
+      .get('/-/npm/v1/user')
+      .set(HEADERS.AUTHORIZATION, authorization)
+      .expect(HTTP_STATUS.OK);
+
+    expect(body).toMatchObject({ name: credentials.name, email: '', fullname: '', created: '' });
+  });
+
+  test('should update the profile fields with timestamps', async () => {
+    const app = await initializeServer('profile.yaml');
+    const { body: created } = await postProfile(app, { email: 'test@domain.com' }).expect(
+      HTTP_STATUS.OK
+    );
+    expect(created.email).toEqual('test@domain.com');
+    expect(created.created).not.toEqual('');
+    expect(created.updated).toEqual(created.created);
+
+    const { body: updated } = await postProfile(app, { fullname: 'Test User' }).expect(
+      HTTP_STATUS.OK
+    );
+    expect(updated).toMatchObject({
+      email: 'test@domain.com',
+      fullname: 'Test User',
+      created: created.created,
+    });
+    expect(Date.parse(updated.updated)).toBeGreaterThanOrEqual(Date.parse(created.updated));
+
+    const { body: profile } = await supertest(app)
+      .get('/-/npm/v1/user')
+      .set(HEADERS.AUTHORIZATION, authorization)
+      .expect(HTTP_STATUS.OK);
+    expect(profile.fullname).toEqual('Test User');
+  });
+
+  test('should reject an invalid email', async () => {
+    const app = await initializeServer('profile.yaml');
+    const response = await postProfile(app, { email: 'not an email' }).expect(HTTP_STATUS.BAD_DATA);
+
+    expect(response.body.error).toEqual(SUPPORT_ERRORS.PARAMETERS_NOT_VALID);
+  });
+
+  test('should reject non string values', async () => {
+    const app = await initializeServer('profile.yaml');
+    await postProfile(app, { fullname: { first: 'test' } }).expect(HTTP_STATUS.BAD_DATA);
+  });
+});
@@ -30,6 +30,9 @@ jest.mock('@verdaccio/auth', () => ({
     allow_unpublish(_d, f_, cb) {
       cb(null, true);
     }
+    verifyTwoFactor(_name, _otp, _action, callback) {
+      callback(null);
+    }
   },
 }));
 
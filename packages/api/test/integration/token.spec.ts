@@ -0,0 +1,63 @@
+import supertest from 'supertest';
+
+import { HEADERS, HEADER_TYPE, HTTP_STATUS, TOKEN_BASIC, TOKEN_BEARER } from '@verdaccio/core';
+import { buildToken, buildUserBuffer } from '@verdaccio/utils';
+
+import { initializeServer, publishVersion } from './_helper';
+
+const credentials = { name: 'test', password: 'test' };
+
+async function createToken(app, readonly = false): Promise<supertest.Response> {
+  return supertest(app)
+    .post('/-/npm/v1/tokens')
+    .set(
+      HEADERS.AUTHORIZATION,
+      buildToken(
+        TOKEN_BASIC,
+        buildUserBuffer(credentials.name, credentials.password).toString('base64')
+      )
+    )
+    .set(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON)
+    .send({ password: credentials.password, readonly, cidr_whitelist: [] })
+    .expect(HTTP_STATUS.OK);
+}
+
+describe('token', () => {
+  test('should list tokens with a created token', async () => {
+    const app = await initializeServer('token.yaml');
+    const { body } = await createToken(app);
+
+    const response = await supertest(app)
+      .get('/-/npm/v1/tokens')
+      .set(HEADERS.AUTHORIZATION, buildToken(TOKEN_BEARER, body.token))
+      .expect(HTTP_STATUS.OK);
+
+    expect(response.body.objects).toHaveLength(1);
+    expect(response.body.objects[0].key).toEqual(body.key);
+  });
+
+  test('should reject a deleted token', async () => {
+    const app = await initializeServer('token.yaml');
+    const { body } = await createToken(app);
+    const authorization = buildToken(TOKEN_BEARER, body.token);
+
+    await supertest(app)
+      .delete(`/-/npm/v1/tokens/token/${body.key}`)
+      .set(HEADERS.AUTHORIZATION, authorization)
+      .expect(HTTP_STATUS.OK);
+
+    await supertest(app)
+      .get('/-/npm/v1/tokens')
+      .set(HEADERS.AUTHORIZATION, authorization)
+      .expect(HTTP_STATUS.UNAUTHORIZED);
+  });
+
+  test('should forbid publishing with a readonly token', async () => {
+    const app = await initializeServer('token.yaml');
+    const { body } = await createToken(app, true);
+
+    await publishVersion(app, 'token.yaml', 'foo', '1.0.0')
+      .set(HEADERS.AUTHORIZATION, buildToken(TOKEN_BEARER, body.token))
+      .expect(HTTP_STATUS.FORBIDDEN);
+  });
+});
@@ -0,0 +1,30 @@
+import supertest from 'supertest';
+
+import { HEADERS, HEADER_TYPE, HTTP_STATUS } from '@verdaccio/core';
+
+import { initializeServer } from './_helper';
+
+describe('uplinks', () => {
+  test('should return the health of the uplinks', async () => {
+    return supertest(await initializeServer('uplinks.yaml'))
+      .get('/-/verdaccio/uplinks/health')
+      .set('Accept', HEADERS.JSON)
+      .expect(HEADER_TYPE.CONTENT_TYPE, HEADERS.JSON_CHARSET)
+      .expect(HTTP_STATUS.OK)
+      .then((response) =>
+        expect(response.body).toEqual({
+          uplinks: [
+            {
+              name: 'npmjs',
+              url: 'https://registry.npmjs.org/',
+              state: 'closed',
+              failures: 0,
+              lastError: null,
+              openedAt: null,
+              nextProbeAt: null,
+            },
+          ],
+        })
+      );
+  });
+});
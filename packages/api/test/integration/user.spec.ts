@@ -44,6 +44,9 @@ jest.mock('@verdaccio/auth', () => ({
     authenticate(_name, _password, callback) {
       mockAuthenticate()(_name, _password, callback);
     }
+    verifyTwoFactor(_name, _otp, _action, callback) {
+      callback(null);
+    }
   },
 }));
 
@@ -0,0 +1,185 @@
+import { generateKeyPairSync, verify } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { HTTP_STATUS } from '@verdaccio/core';
+import { calculateIntegrity } from '@verdaccio/utils';
+
+import { verifyAndSignVersion } from '../../src/publish';
+import { REGISTRY_KEY_TYPE, loadRegistrySigner, signVersions } from '../../src/signatures';
+
+const tarball = Buffer.from('fake tarball');
+
+function writeKey(type: 'ec' | 'ed25519', options = {}): string {
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'verdaccio-signatures-'));
+  const { privateKey } = generateKeyPairSync(type as any, options);
+  const keyPath = path.join(folder, 'registry.pem');
+  fs.writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+  return keyPath;
+}
+
+function buildMetadata(integrity?: string): any {
+  return {
+    name: 'foo',
+    versions: {
+      '1.0.0': { name: 'foo', version: '1.0.0', dist: { integrity, shasum: '', tarball: '' } },
+    },
+    _attachments: {
+      'foo-1.0.0.tgz': { data: tarball.toString('base64') },
+    },
+  };
+}
+
+describe('signatures', () => {
+  describe('loadRegistrySigner', () => {
+    test('should be disabled without key', () => {
+      expect(loadRegistrySigner({} as any)).toBeNull();
+    });
+
+    test('should resolve the key relative to the configuration file', () => {
+      const keyPath = writeKey('ec', { namedCurve: 'prime256v1' });
+      const signer = loadRegistrySigner({
+        config_path: path.join(path.dirname(keyPath), 'config.yaml'),
+        signatures: { key: 'registry.pem', expires: '2030-01-01T00:00:00.000Z' },
+      } as any);
+
+      expect(signer?.publicKey).toEqual(
+        expect.objectContaining({
+          keytype: REGISTRY_KEY_TYPE,
+          scheme: REGISTRY_KEY_TYPE,
+          expires: '2030-01-01T00:00:00.000Z',
+          keyid: expect.stringMatching(/^SHA256:[A-Za-z0-9+/]+$/),
+        })
+      );
+    });
+
+    test('should fail with a key other than ECDSA P-256', () => {
+      const keyPath = writeKey('ed25519');
+      expect(() => loadRegistrySigner({ signatures: { key: keyPath } } as any)).toThrow(
+        /must be an ECDSA P-256 private key/
+      );
+    });
+
+    test('should fail with an ECDSA key of another curve', () => {
+      const keyPath = writeKey('ec', { namedCurve: 'secp384r1' });
+      expect(() => loadRegistrySigner({ signatures: { key: keyPath } } as any)).toThrow(
+        /must be an ECDSA P-256 private key/
+      );
+    });
+
+    test('should sign name, version and integrity', () => {
+      const signer = loadRegistrySigner({
+        signatures: { key: writeKey('ec', { namedCurve: 'prime256v1' }) },
+      } as any);
+      const integrity = calculateIntegrity(tarball);
+      const { keyid, sig } = signer!.sign('foo', '1.0.0', integrity);
+      const publicKey = {
+        key: Buffer.from(signer!.publicKey.key, 'base64'),
+        format: 'der' as const,
+        type: 'spki' as const,
+      };
+
+      expect(keyid).toEqual(signer!.publicKey.keyid);
+      expect(
+        verify(
+          'sha256',
+          Buffer.from(`foo@1.0.0:${integrity}`),
+          publicKey,
+          Buffer.from(sig, 'base64')
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('signVersions', () => {
+    const signer = loadRegistrySigner({
+      signatures: { key: writeKey('ec', { namedCurve: 'prime256v1' }) },
+    } as any)!;
+    const integrity = calculateIntegrity(tarball);
+
+    test('should replace the signatures of the uplinks', () => {
+      const version: any = {
+        name: 'foo',
+        version: '1.0.0',
+        dist: { integrity, signatures: [{ keyid: 'SHA256:npmjs', sig: 'uplink' }] },
+      };
+
+      signVersions('foo', [version], signer);
+      expect(version.dist.signatures).toEqual([
+        { keyid: signer.publicKey.keyid, sig: expect.any(String) },
+      ]);
+    });
+
+    test('should keep the signatures of the registry', () => {
+      const signature = signer.sign('foo', '1.0.0', integrity);
+      const version: any = {
+        name: 'foo',
+        version: '1.0.0',
+        dist: { integrity, signatures: [signature] },
+      };
+
+      signVersions('foo', [version], signer);
+      expect(version.dist.signatures).toEqual([signature]);
+    });
+
+    test('should remove the signatures of a version without integrity', () => {
+      const version: any = {
+        name: 'foo',
+        version: '1.0.0',
+        dist: { signatures: [{ keyid: 'SHA256:npmjs', sig: 'uplink' }] },
+      };
+
+      signVersions('foo', [version], signer);
+      expect(version.dist.signatures).toBeUndefined();
+    });
+  });
+
+  describe('verifyAndSignVersion', () => {
+    test('should skip the verification if it is disabled', () => {
+      const metadata = buildMetadata('sha512-invalid');
+      expect(verifyAndSignVersion(metadata, {} as any, null)).toBeNull();
+    });
+
+    test('should fail on integrity mismatch', () => {
+      const metadata = buildMetadata(calculateIntegrity(Buffer.from('other tarball')));
+      const error = verifyAndSignVersion(
+        metadata,
+        { publish: { check_integrity: true } } as any,
+        null
+      );
+      expect(error?.code).toEqual(HTTP_STATUS.BAD_REQUEST);
+    });
+
+    test('should accept a matching integrity', () => {
+      const metadata = buildMetadata(calculateIntegrity(tarball, 'sha1'));
+      expect(
+        verifyAndSignVersion(metadata, { publish: { check_integrity: true } } as any, null)
+      ).toBeNull();
+    });
+
+    test('should calculate the integrity and sign the version', () => {
+      const signer = loadRegistrySigner({
+        signatures: { key: writeKey('ec', { namedCurve: 'prime256v1' }) },
+      } as any);
+      const metadata = buildMetadata();
+
+      expect(verifyAndSignVersion(metadata, {} as any, signer)).toBeNull();
+      const { dist } = metadata.versions['1.0.0'];
+      expect(dist.integrity).toEqual(calculateIntegrity(tarball));
+      expect(dist.signatures).toEqual([
+        { keyid: signer!.publicKey.keyid, sig: expect.any(String) },
+      ]);
+    });
+
+    test('should not sign a version with an integrity mismatch', () => {
+      const signer = loadRegistrySigner({
+        signatures: { key: writeKey('ec', { namedCurve: 'prime256v1' }) },
+      } as any);
+      const metadata = buildMetadata(calculateIntegrity(Buffer.from('other tarball')));
+
+      expect(verifyAndSignVersion(metadata, {} as any, signer)).not.toBeNull();
+      expect(metadata.versions['1.0.0'].dist.signatures).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { generatePackageMetadata } from '@verdaccio/test-helper';
+
+import { getManifestETag } from '../../src/utils';
+
+describe('getManifestETag', () => {
+  const manifest = generatePackageMetadata('foo', '1.0.0');
+  const user = { name: 'foo', groups: ['dev', 'admin'], real_groups: [] };
+
+  test('should be stable for the same manifest and access', () => {
+    expect(getManifestETag(manifest, user)).toMatch(/^W\/"[a-f0-9]{32}"$/);
+    expect(getManifestETag(manifest, user)).toEqual(
+      getManifestETag(manifest, { ...user, groups: ['admin', 'dev'] })
+    );
+  });
+
+  test('should change with the manifest', () => {
+    expect(getManifestETag(manifest, user)).not.toEqual(
+      getManifestETag(generatePackageMetadata('foo', '1.0.1'), user)
+    );
+  });
+
+  test('should change with the user access', () => {
+    expect(getManifestETag(manifest, user)).not.toEqual(
+      getManifestETag(manifest, { ...user, groups: ['dev'] })
+    );
+    expect(getManifestETag(manifest, user)).not.toEqual(getManifestETag(manifest));
+  });
+});
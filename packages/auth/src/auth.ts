@@ -1,6 +1,7 @@
 import buildDebug from 'debug';
 import { NextFunction, Request, Response } from 'express';
 import _ from 'lodash';
+import LRU from 'lru-cache';
 import { HTPasswd, HTPasswdConfig } from 'verdaccio-htpasswd';
 
 import { createAnonymousRemoteUser, createRemoteUser } from '@verdaccio/config';
@@ -19,24 +20,33 @@ import {
   Callback,
   Config,
   IPluginAuth,
+  ITokenActions,
   JWTSignOptions,
   Logger,
   PackageAccess,
   PluginOptions,
+  ProfileCallback,
   RemoteUser,
   Security,
+  Token,
+  TwoFactorAuth,
+  TwoFactorCallback,
+  UserProfile,
+  UserProfileFields,
 } from '@verdaccio/types';
-import { getMatchedPackagesSpec, isFunction, isNil } from '@verdaccio/utils';
+import { getMatchedPackagesSpec, isFunction, isNil, stringToMD5 } from '@verdaccio/utils';
 
 import { signPayload } from './jwt-token';
 import { aesEncrypt } from './legacy-token';
 import { parseBasicPayload } from './token';
+import { hashRecoveryCode, verifyTOTP } from './totp';
 import {
   convertPayloadToBase64,
   getDefaultPlugins,
   getMiddlewareCredentials,
   isAESLegacy,
   isAuthHeaderValid,
+  isIPInCIDRList,
   parseAuthTokenHeader,
   verifyJWTPayload,
 } from './utils';
@@ -46,6 +56,11 @@ const LoggerApi = require('@verdaccio/logger');
 
 const debug = buildDebug('verdaccio:auth');
 
+// stored token records are cached to avoid hitting the storage on each request,
+// a token revoked on another instance is rejected once the entry expires
+const TOKEN_CACHE_MAX_AGE = 60 * 1000;
+const TOKEN_CACHE_MAX = 1000;
+
 export interface IBasicAuth<T> {
   config: T & Config;
   authenticate(user: string, password: string, cb: Callback): void;
@@ -65,6 +80,9 @@ export interface AESPayload {
   password: string;
 }
 
+// login requires the one-time password on any mode, writes only on auth-and-writes
+export type TwoFactorAction = 'login' | 'write';
+
 export type $RequestExtend = Request & { remote_user?: any; log: Logger };
 export type $ResponseExtend = Response & { cookies?: any };
 export type $NextFunctionVer = NextFunction & any;
@@ -82,6 +100,19 @@ export interface IAuth extends IBasicAuth<Config>, IAuthMiddleware, TokenEncrypt
   plugins: any[];
   allow_unpublish(pkg: AuthPluginPackage, user: RemoteUser, callback: Callback): void;
   invalidateToken(token: string): Promise<void>;
+  invalidateTokenCache(key: string): void;
+  isTwoFactorSupported(): boolean;
+  readTwoFactor(user: string, cb: TwoFactorCallback): void;
+  saveTwoFactor(user: string, tfa: TwoFactorAuth | null, cb: Callback): void;
+  verifyTwoFactor(
+    user: string,
+    otp: string | undefined,
+    action: TwoFactorAction,
+    cb: Callback
+  ): void;
+  isProfileSupported(): boolean;
+  readProfile(user: string, cb: ProfileCallback): void;
+  updateProfile(user: string, fields: UserProfileFields, cb: ProfileCallback): void;
 }
 
 class Auth implements IAuth {
@@ -89,9 +120,18 @@ class Auth implements IAuth {
   public logger: Logger;
   public secret: string;
   public plugins: IPluginAuth<Config>[];
+  private tokenStorage: ITokenActions | undefined;
+  private tokenCache: LRU<string, Token | null>;
 
-  public constructor(config: Config) {
+  /**
+   * @param config verdaccio configuration
+   * @param tokenStorage storage where the tokens created through the API are persisted,
+   * required to apply the restrictions (readonly, cidr) of those tokens.
+   */
+  public constructor(config: Config, tokenStorage?: ITokenActions) {
     this.config = config;
+    this.tokenStorage = tokenStorage;
+    this.tokenCache = new LRU({ max: TOKEN_CACHE_MAX, maxAge: TOKEN_CACHE_MAX_AGE });
     this.logger = LoggerApi.logger.child({ sub: 'auth' });
     this.secret = config.secret;
     if (!this.secret) {
@@ -185,6 +225,168 @@ class Auth implements IAuth {
     return Promise.resolve();
   }
 
+  private _getTwoFactorPlugin(): IPluginAuth<Config> | undefined {
+    return this.plugins.find(
+      (plugin) => isFunction(plugin.readTwoFactor) && isFunction(plugin.saveTwoFactor)
+    );
+  }
+
+  public isTwoFactorSupported(): boolean {
+    return _.isNil(this._getTwoFactorPlugin()) === false;
+  }
+
+  public readTwoFactor(username: string, cb: TwoFactorCallback): void {
+    const plugin = this._getTwoFactorPlugin();
+    if (_.isNil(plugin)) {
+      debug('no auth plugin implements two-factor authentication');
+      return cb(null, null);
+    }
+
+    debug('reading two-factor authentication for %o', username);
+    plugin.readTwoFactor!(username, (err, tfa): void => {
+      if (err) {
+        this.logger.error(
+          { username, err },
+          'two-factor authentication for @{username} could not be read. Error: @{err.message}'
+        );
+        return cb(err);
+      }
+
+      cb(null, tfa ?? null);
+    });
+  }
+
+  public saveTwoFactor(username: string, tfa: TwoFactorAuth | null, cb: Callback): void {
+    const plugin = this._getTwoFactorPlugin();
+    if (_.isNil(plugin)) {
+      return cb(errorUtils.getInternalError(SUPPORT_ERRORS.PLUGIN_MISSING_INTERFACE));
+    }
+
+    debug('saving two-factor authentication for %o', username);
+    plugin.saveTwoFactor!(username, tfa, cb);
+  }
+
+  /**
+   * Verify the one-time password of a user with two-factor authentication enabled,
+   * a recovery code is also accepted and it is consumed once used.
+   */
+  public verifyTwoFactor(
+    username: string,
+    otp: string | undefined,
+    action: TwoFactorAction,
+    cb: Callback
+  ): void {
+    this.readTwoFactor(username, (err, tfa): void => {
+      if (err) {
+        return cb(err);
+      }
+
+      if (_.isNil(tfa) || tfa.pending) {
+        debug('two-factor authentication is not enabled for %o', username);
+        return cb(null);
+      }
+
+      if (action === 'write' && tfa.mode === 'auth-only') {
+        debug('two-factor authentication for %o is only required on login', username);
+        return cb(null);
+      }
+
+      if (_.isEmpty(otp)) {
+        debug('one-time password is missing for %o', username);
+        return cb(errorUtils.getUnauthorized(API_ERROR.OTP_REQUIRED));
+      }
+
+      if (verifyTOTP(tfa.secret, otp as string)) {
+        debug('one-time password verified for %o', username);
+        return cb(null);
+      }
+
+      const recoveryCode = hashRecoveryCode(otp as string);
+      if (tfa.recoveryCodes.includes(recoveryCode)) {
+        this.logger.info({ username }, 'recovery code used by @{username}');
+        const recoveryCodes = tfa.recoveryCodes.filter((code) => code !== recoveryCode);
+        return this.saveTwoFactor(username, { ...tfa, recoveryCodes }, (err): void => cb(err));
+      }
+
+      debug('one-time password is not valid for %o', username);
+      cb(errorUtils.getUnauthorized(API_ERROR.OTP_INVALID));
+    });
+  }
+
+  private _getProfilePlugin(): IPluginAuth<Config> | undefined {
+    return this.plugins.find(
+      (plugin) => isFunction(plugin.readProfile) && isFunction(plugin.saveProfile)
+    );
+  }
+
+  public isProfileSupported(): boolean {
+    return _.isNil(this._getProfilePlugin()) === false;
+  }
+
+  public readProfile(username: string, cb: ProfileCallback): void {
+    const plugin = this._getProfilePlugin();
+    if (_.isNil(plugin)) {
+      debug('no auth plugin implements the user profile');
+      return cb(null, null);
+    }
+
+    debug('reading profile for %o', username);
+    plugin.readProfile!(username, (err, profile): void => {
+      if (err) {
+        this.logger.error(
+          { username, err },
+          'profile for @{username} could not be read. Error: @{err.message}'
+        );
+        return cb(err);
+      }
+
+      cb(null, profile ?? null);
+    });
+  }
+
+  /**
+   * Merge the fields into the stored profile, the timestamps are handled here
+   * so the plugins only need to persist the profile.
+   */
+  public updateProfile(username: string, fields: UserProfileFields, cb: ProfileCallback): void {
+    const plugin = this._getProfilePlugin();
+    if (_.isNil(plugin)) {
+      return cb(errorUtils.getInternalError(SUPPORT_ERRORS.PLUGIN_MISSING_INTERFACE));
+    }
+
+    this.readProfile(username, (err, profile): void => {
+      if (err) {
+        return cb(err);
+      }
+
+      const now = new Date().toISOString();
+      const updatedProfile: UserProfile = {
+        ...profile,
+        ...fields,
+        created: profile?.created ?? now,
+        updated: now,
+      };
+      debug('saving profile for %o', username);
+      plugin.saveProfile!(username, updatedProfile, (err): void => {
+        if (err) {
+          return cb(err);
+        }
+
+        cb(null, updatedProfile);
+      });
+    });
+  }
+
+  /**
+   * Drop the cached record of a token, must be called once a token is deleted
+   * so the revocation takes effect immediately.
+   * @param key token key (md5 of the token)
+   */
+  public invalidateTokenCache(key: string): void {
+    debug('invalidate token cache for %o', key);
+    this.tokenCache.del(key);
+  }
+
   public authenticate(username: string, password: string, cb: Callback): void {
     const plugins = this.plugins.slice(0);
     (function next(): void {
@@ -306,6 +508,11 @@ class Auth implements IAuth {
     user: RemoteUser,
     callback: Callback
   ): void {
+    if (this._isReadOnlyUser(user)) {
+      debug('forbidden unpublish for %o, token is read-only', packageName);
+      return callback(errorUtils.getForbidden(API_ERROR.TOKEN_READONLY));
+    }
+
     const pkg = Object.assign(
       { name: packageName, version: packageVersion },
       getMatchedPackagesSpec(packageName, this.config.packages)
@@ -351,6 +558,11 @@ class Auth implements IAuth {
     user: RemoteUser,
     callback: Callback
   ): void {
+    if (this._isReadOnlyUser(user)) {
+      debug('forbidden publish for %o, token is read-only', packageName);
+      return callback(errorUtils.getForbidden(API_ERROR.TOKEN_READONLY));
+    }
+
     const plugins = this.plugins.slice(0);
     const pkg = Object.assign(
       { name: packageName, version: packageVersion },
@@ -480,7 +692,7 @@ class Auth implements IAuth {
         // if the signature is valid we rely on it
         req.remote_user = credentials;
         debug('generating a remote user');
-        next();
+        this._applyTokenRestrictions(req, token, next);
       } else {
         // with JWT throw 401
         debug('jwt invalid token');
@@ -508,7 +720,12 @@ class Auth implements IAuth {
         if (!err) {
           req.remote_user = user;
           debug('generating a remote user');
-          next();
+          const { scheme, token } = parseAuthTokenHeader(authorization);
+          if (scheme.toUpperCase() === TOKEN_BEARER.toUpperCase()) {
+            this._applyTokenRestrictions(req, token, next);
+          } else {
+            next();
+          }
         } else {
           req.remote_user = createAnonymousRemoteUser();
           debug('generating anonymous user');
@@ -522,6 +739,79 @@ class Auth implements IAuth {
     }
   }
 
+  /**
+   * Tokens created through the token API are stored (masked) with restrictions,
+   * the stored record is found by the md5 of the token used on the request.
+   * Tokens without a stored record (eg: login) have no restrictions, unless they
+   * were issued by the token API (jti claim), in such case the token has been revoked.
+   */
+  private _applyTokenRestrictions(req: $RequestExtend, token: string, next: Function): void {
+    const { name, jti } = req.remote_user;
+    if (_.isNil(this.tokenStorage) || _.isNil(name)) {
+      return next();
+    }
+
+    const isIssuedByTokenAPI = _.isNil(jti) === false;
+    const rejectRevoked = (): void => {
+      debug('token for %o has been revoked', name);
+      req.remote_user = createAnonymousRemoteUser();
+      next(errorUtils.getUnauthorized(API_ERROR.TOKEN_REVOKED));
+    };
+
+    this._getTokenRecord(name, token)
+      .then((record) => {
+        if (_.isNil(record)) {
+          if (isIssuedByTokenAPI) {
+            return rejectRevoked();
+          }
+          debug('token for %o has no stored record, no restrictions applied', name);
+          return next();
+        }
+
+        const { key, readonly, cidr } = record;
+        if (isIPInCIDRList(req.ip, cidr) === false) {
+          debug('token %o is not allowed from %o', key, req.ip);
+          this.logger.warn(
+            { key, name, ip: req.ip },
+            'token @{key} of @{name} has been rejected from @{ip}'
+          );
+          req.remote_user = createAnonymousRemoteUser();
+          return next(errorUtils.getForbidden(API_ERROR.TOKEN_CIDR_NOT_ALLOWED));
+        }
+
+        debug('token %o restrictions applied, readonly: %o', key, readonly);
+        req.remote_user.token = { key, readonly, cidr };
+        next();
+      })
+      .catch((error: any) => {
+        debug('token restrictions could not be read for %o: %o', name, error?.message);
+        // storages without token support cannot hold restricted tokens, but a token
+        // issued by the token API cannot be verified as not revoked
+        if (isIssuedByTokenAPI) {
+          return rejectRevoked();
+        }
+        next();
+      });
+  }
+
+  private async _getTokenRecord(user: string, token: string): Promise<Token | undefined> {
+    const key = stringToMD5(token);
+    if (this.tokenCache.has(key)) {
+      debug('token record for %o found in cache', key);
+      return this.tokenCache.get(key) ?? undefined;
+    }
+
+    const tokens = await (this.tokenStorage as ITokenActions).readTokens({ user });
+    const record = tokens.find((item) => item.key === key);
+    this.tokenCache.set(key, record ?? null);
+
+    return record;
+  }
+
+  private _isReadOnlyUser(user: RemoteUser): boolean {
+    return user?.token?.readonly === true;
+  }
+
   private _isRemoteUserValid(remote_user: RemoteUser): boolean {
     return _.isUndefined(remote_user) === false && _.isUndefined(remote_user.name) === false;
   }
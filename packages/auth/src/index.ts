@@ -1,5 +1,6 @@
-export { Auth, IAuth, TokenEncryption, IBasicAuth } from './auth';
+export { Auth, IAuth, TokenEncryption, IBasicAuth, TwoFactorAction } from './auth';
 export * from './utils';
 export * from './legacy-token';
 export * from './jwt-token';
 export * from './token';
+export * from './totp';
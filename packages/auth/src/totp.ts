@@ -0,0 +1,123 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import buildDebug from 'debug';
+
+const debug = buildDebug('verdaccio:auth:totp');
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD = 30;
+// number of periods before and after the current one accepted (clock drift)
+export const TOTP_WINDOW = 1;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleanInput = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleanInput) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new TypeError(`invalid base32 character ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random shared secret encoded as base32 (RFC 4648).
+ */
+export function generateTOTPSecret(size = 20): string {
+  return base32Encode(randomBytes(size));
+}
+
+/**
+ * Generate a time-based one-time password (RFC 6238) with HMAC-SHA1.
+ * @param secret base32 shared secret
+ * @param time unix time in milliseconds
+ */
+export function generateTOTP(secret: string, time: number = Date.now()): string {
+  const counter = Math.floor(time / 1000 / TOTP_PERIOD);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return String(code).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verify a one-time password against the current period and the adjacent ones.
+ * @param secret base32 shared secret
+ * @param otp one-time password provided by the user
+ * @param time unix time in milliseconds
+ */
+export function verifyTOTP(secret: string, otp: string, time: number = Date.now()): boolean {
+  if (!/^\d+$/.test(otp) || otp.length !== TOTP_DIGITS) {
+    debug('otp has an invalid format');
+    return false;
+  }
+
+  for (let step = -TOTP_WINDOW; step <= TOTP_WINDOW; step++) {
+    const expected = generateTOTP(secret, time + step * TOTP_PERIOD * 1000);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(otp))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Build the key uri used by authenticator apps.
+ * https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOTPAuthURL(issuer: string, user: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${user}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function generateRecoveryCodes(amount = 5): string[] {
+  return Array.from({ length: amount }, () => randomBytes(8).toString('hex'));
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
@@ -1,5 +1,6 @@
 import buildDebug from 'debug';
 import _ from 'lodash';
+import { BlockList, isIP } from 'net';
 
 import { createAnonymousRemoteUser } from '@verdaccio/config';
 import {
@@ -15,6 +16,7 @@ import {
   Callback,
   Config,
   IPluginAuth,
+  JWTSignOptions,
   RemoteUser,
   Security,
 } from '@verdaccio/types';
@@ -116,7 +118,8 @@ export async function getApiToken(
   auth: TokenEncryption,
   config: Config,
   remoteUser: RemoteUser,
-  aesPassword: string
+  aesPassword: string,
+  signOptions: JWTSignOptions = {}
 ): Promise<string | void> {
   debug('get api token');
   const { security } = config;
@@ -131,7 +134,7 @@ export async function getApiToken(
   const { jwt } = security.api;
 
   if (jwt?.sign) {
-    return await auth.jwtEncrypt(remoteUser, jwt.sign);
+    return await auth.jwtEncrypt(remoteUser, { ...jwt.sign, ...signOptions });
   }
   return await new Promise((resolve): void => {
     resolve(auth.aesEncrypt(buildUser(remoteUser.name as string, aesPassword)));
@@ -240,6 +243,76 @@ export function handleSpecialUnpublish(logger): any {
   };
 }
 
+export interface CIDRRange {
+  address: string;
+  prefix: number;
+  type: 'ipv4' | 'ipv6';
+}
+
+/**
+ * Split a CIDR notation (eg: 192.168.1.0/24) into address, prefix and ip family.
+ * A single address without prefix is considered a host range.
+ * @param cidr CIDR notation
+ */
+export function parseCIDR(cidr: string): CIDRRange | void {
+  if (_.isString(cidr) === false) {
+    return;
+  }
+
+  const [address, prefix] = cidr.trim().split('/');
+  const family = isIP(address);
+  if (family === 0) {
+    return;
+  }
+
+  const type = family === 6 ? 'ipv6' : 'ipv4';
+  const maxPrefix = family === 6 ? 128 : 32;
+  if (_.isNil(prefix)) {
+    return { address, prefix: maxPrefix, type };
+  }
+
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+    return;
+  }
+
+  return { address, prefix: Number(prefix), type };
+}
+
+export function isValidCIDRList(cidrList: string[]): boolean {
+  return cidrList.every((cidr) => _.isNil(parseCIDR(cidr)) === false);
+}
+
+/**
+ * Verify whether an ip address is part of a CIDR list, an empty list allows any address.
+ * @param ip remote address, IPv4-mapped IPv6 addresses are handled as IPv4
+ * @param cidrList list of CIDR notations
+ */
+export function isIPInCIDRList(ip: string | undefined, cidrList?: string[]): boolean {
+  if (_.isEmpty(cidrList)) {
+    return true;
+  }
+
+  if (_.isNil(ip)) {
+    return false;
+  }
+
+  const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  const blockList = new BlockList();
+  for (const cidr of cidrList as string[]) {
+    const range = parseCIDR(cidr);
+    if (range) {
+      blockList.addSubnet(range.address, range.prefix, range.type);
+    }
+  }
+
+  return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
 export function buildUser(name: string, password: string): string {
   return String(`${name}:${password}`);
 }
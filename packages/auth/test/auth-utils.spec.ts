@@ -34,6 +34,9 @@ import {
   getApiToken,
   getDefaultPlugins,
   getMiddlewareCredentials,
+  isIPInCIDRList,
+  isValidCIDRList,
+  parseCIDR,
   signPayload,
   verifyJWTPayload,
   verifyPayload,
@@ -223,6 +226,35 @@ describe('Auth utilities', () => {
     });
   });
 
+  describe('cidr utilities', () => {
+    test('should parse valid cidr notations', () => {
+      expect(parseCIDR('192.168.1.0/24')).toEqual({
+        address: '192.168.1.0',
+        prefix: 24,
+        type: 'ipv4',
+      });
+      expect(parseCIDR('10.0.0.1')).toEqual({ address: '10.0.0.1', prefix: 32, type: 'ipv4' });
+      expect(parseCIDR('fd00::/8')).toEqual({ address: 'fd00::', prefix: 8, type: 'ipv6' });
+    });
+
+    test('should not parse invalid cidr notations', () => {
+      expect(parseCIDR('192.168.1.0/33')).toBeUndefined();
+      expect(parseCIDR('192.168.1.0/')).toBeUndefined();
+      expect(parseCIDR('localhost/8')).toBeUndefined();
+      expect(isValidCIDRList(['10.0.0.0/8', 'foo'])).toBe(false);
+      expect(isValidCIDRList([])).toBe(true);
+    });
+
+    test('should verify whether an ip is part of a cidr list', () => {
+      expect(isIPInCIDRList('10.1.2.3', [])).toBe(true);
+      expect(isIPInCIDRList('10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+      expect(isIPInCIDRList('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+      expect(isIPInCIDRList('11.1.2.3', ['10.0.0.0/8'])).toBe(false);
+      expect(isIPInCIDRList('fd00::1', ['fd00::/8'])).toBe(true);
+      expect(isIPInCIDRList(undefined, ['10.0.0.0/8'])).toBe(false);
+    });
+  });
+
   describe('getApiToken test', () => {
     test('should sign token with aes and security missing', async () => {
       const token = await getTokenByConfiguration(
@@ -2,11 +2,12 @@ import _ from 'lodash';
 
 import { IAuth } from '@verdaccio/auth';
 import { Config as AppConfig, ROLES } from '@verdaccio/config';
-import { errorUtils } from '@verdaccio/core';
+import { API_ERROR, SUPPORT_ERRORS, TOKEN_BEARER, errorUtils } from '@verdaccio/core';
 import { setup } from '@verdaccio/logger';
-import { Config } from '@verdaccio/types';
+import { Config, ITokenActions, RemoteUser, Token, UserProfile } from '@verdaccio/types';
+import { buildToken, stringToMD5 } from '@verdaccio/utils';
 
-import { Auth } from '../src';
+import { Auth, getApiToken } from '../src';
 import { authPluginFailureConf, authPluginPassThrougConf, authProfileConf } from './helper/plugin';
 
 setup([]);
@@ -144,4 +145,173 @@ describe('AuthTest', () => {
       });
     });
   });
+
+  describe('test token restrictions', () => {
+    const getTokenStorage = (tokens: Partial<Token>[]): ITokenActions => ({
+      saveToken: jest.fn(),
+      deleteToken: jest.fn(),
+      readTokens: jest.fn().mockResolvedValue(tokens),
+    });
+
+    const getJWTConfig = (): Config => {
+      const config: Config = new AppConfig(
+        _.cloneDeep({
+          ...authProfileConf,
+          security: { api: { jwt: { sign: { expiresIn: '1h' } } } },
+        })
+      );
+      config.checkSecretKey('12345');
+      return config;
+    };
+
+    const user: RemoteUser = { name: 'foo', real_groups: ['test'], groups: ['test'] };
+
+    const callApiMiddleware = (auth: IAuth, token: string, ip: string): Promise<any> => {
+      const req: any = {
+        headers: { authorization: buildToken(TOKEN_BEARER, token) },
+        ip,
+        pause: jest.fn(),
+        resume: jest.fn(),
+      };
+      const res: any = { locals: {} };
+
+      return new Promise((resolve) => {
+        auth.apiJWTmiddleware()(req, res, () => resolve(req.remote_user));
+      });
+    };
+
+    test('should apply readonly restriction from the stored token', async () => {
+      const config = getJWTConfig();
+      const signer: IAuth = new Auth(config);
+      const token = (await getApiToken(signer, config, user, 'bar')) as string;
+      const storage = getTokenStorage([{ key: stringToMD5(token), readonly: true, cidr: [] }]);
+      const auth: IAuth = new Auth(config, storage);
+
+      const remoteUser = await callApiMiddleware(auth, token, '127.0.0.1');
+
+      expect(storage.readTokens).toHaveBeenCalledWith({ user: 'foo' });
+      expect(remoteUser.name).toEqual('foo');
+      expect(remoteUser.token).toEqual({ key: stringToMD5(token), readonly: true, cidr: [] });
+    });
+
+    test('should not apply restrictions without a stored token', async () => {
+      const config = getJWTConfig();
+      const auth: IAuth = new Auth(config, getTokenStorage([]));
+      const token = (await getApiToken(auth, config, user, 'bar')) as string;
+
+      const remoteUser = await callApiMiddleware(auth, token, '127.0.0.1');
+
+      expect(remoteUser.name).toEqual('foo');
+      expect(remoteUser.token).toBeUndefined();
+    });
+
+    test('should reject a token used outside the cidr whitelist', async () => {
+      const config = getJWTConfig();
+      const signer: IAuth = new Auth(config);
+      const token = (await getApiToken(signer, config, user, 'bar')) as string;
+      const storage = getTokenStorage([
+        { key: stringToMD5(token), readonly: false, cidr: ['192.168.1.0/24'] },
+      ]);
+      const auth: IAuth = new Auth(config, storage);
+
+      const rejected = await callApiMiddleware(auth, token, '10.0.0.1');
+      expect(rejected.name).toBeUndefined();
+      expect(rejected.error).toEqual(API_ERROR.TOKEN_CIDR_NOT_ALLOWED);
+
+      const allowed = await callApiMiddleware(auth, token, '::ffff:192.168.1.20');
+      expect(allowed.name).toEqual('foo');
+    });
+
+    test('should reject a token issued by the token api without stored record', async () => {
+      const config = getJWTConfig();
+      const auth: IAuth = new Auth(config, getTokenStorage([]));
+      const token = (await getApiToken(auth, config, user, 'bar', { jwtid: 'id' })) as string;
+
+      const remoteUser = await callApiMiddleware(auth, token, '127.0.0.1');
+
+      expect(remoteUser.name).toBeUndefined();
+      expect(remoteUser.error).toEqual(API_ERROR.TOKEN_REVOKED);
+    });
+
+    test('should cache the stored token record', async () => {
+      const config = getJWTConfig();
+      const signer: IAuth = new Auth(config);
+      const token = (await getApiToken(signer, config, user, 'bar')) as string;
+      const key = stringToMD5(token);
+      const storage = getTokenStorage([{ key, readonly: false }]);
+      const auth: IAuth = new Auth(config, storage);
+
+      await callApiMiddleware(auth, token, '127.0.0.1');
+      await callApiMiddleware(auth, token, '127.0.0.1');
+      expect(storage.readTokens).toHaveBeenCalledTimes(1);
+
+      auth.invalidateTokenCache(key);
+      await callApiMiddleware(auth, token, '127.0.0.1');
+      expect(storage.readTokens).toHaveBeenCalledTimes(2);
+    });
+
+    test('should forbid publish and unpublish to a readonly user', () => {
+      const config: Config = new AppConfig(_.cloneDeep(authProfileConf));
+      config.checkSecretKey('12345');
+      const auth: IAuth = new Auth(config);
+      const readonlyUser = { ...user, token: { key: 'key', readonly: true } };
+
+      for (const action of ['allow_publish', 'allow_unpublish']) {
+        const callback = jest.fn();
+        auth[action]({ packageName: 'foo' }, readonlyUser, callback);
+        expect(callback).toHaveBeenCalledWith(errorUtils.getForbidden(API_ERROR.TOKEN_READONLY));
+      }
+    });
+  });
+
+  describe('test profile', () => {
+    const getAuth = (profile: UserProfile | null = null): [IAuth, jest.Mock] => {
+      const config: Config = new AppConfig(_.cloneDeep(authProfileConf));
+      config.checkSecretKey('12345');
+      const auth: IAuth = new Auth(config);
+      const saveProfile = jest.fn((_user, _profile, cb) => cb(null, true));
+      auth.plugins.unshift({
+        readProfile: (_user, cb) => cb(null, profile),
+        saveProfile,
+      } as any);
+
+      return [auth, saveProfile];
+    };
+
+    test('should create a profile with timestamps', (done) => {
+      const [auth, saveProfile] = getAuth();
+
+      auth.updateProfile('foo', { email: 'foo@domain.com' }, (err, profile) => {
+        expect(err).toBeNull();
+        expect(profile?.email).toEqual('foo@domain.com');
+        expect(profile?.created).toEqual(profile?.updated);
+        expect(saveProfile).toHaveBeenCalledWith('foo', profile, expect.any(Function));
+        done();
+      });
+    });
+
+    test('should keep the stored fields and creation date', (done) => {
+      const created = '2021-01-01T00:00:00.000Z';
+      const [auth] = getAuth({ email: 'foo@domain.com', created, updated: created });
+
+      auth.updateProfile('foo', { fullname: 'Foo' }, (err, profile) => {
+        expect(err).toBeNull();
+        expect(profile).toMatchObject({ email: 'foo@domain.com', fullname: 'Foo', created });
+        expect(profile?.updated).not.toEqual(created);
+        done();
+      });
+    });
+
+    test('should fail without a plugin implementing the profile', (done) => {
+      const config: Config = new AppConfig(_.cloneDeep(authProfileConf));
+      config.checkSecretKey('12345');
+      const auth: IAuth = new Auth(config);
+
+      expect(auth.isProfileSupported()).toBe(false);
+      auth.updateProfile('foo', { fullname: 'Foo' }, (err) => {
+        expect(err).toEqual(errorUtils.getInternalError(SUPPORT_ERRORS.PLUGIN_MISSING_INTERFACE));
+        done();
+      });
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOTPAuthURL,
+  generateRecoveryCodes,
+  generateTOTP,
+  generateTOTPSecret,
+  hashRecoveryCode,
+  verifyTOTP,
+} from '../src';
+
+// RFC 6238 appendix B shared secret "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('totp', () => {
+  describe('base32', () => {
+    test('should encode and decode a buffer', () => {
+      const buffer = Buffer.from('12345678901234567890');
+      expect(base32Encode(buffer)).toEqual(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).toString()).toEqual('12345678901234567890');
+    });
+
+    test('should throw on invalid characters', () => {
+      expect(() => base32Decode('GEZ1')).toThrow(TypeError);
+    });
+  });
+
+  describe('generateTOTP', () => {
+    test('should match the RFC 6238 test vectors', () => {
+      expect(generateTOTP(RFC_SECRET, 59 * 1000)).toEqual('287082');
+      expect(generateTOTP(RFC_SECRET, 1111111109 * 1000)).toEqual('081804');
+      expect(generateTOTP(RFC_SECRET, 1234567890 * 1000)).toEqual('005924');
+    });
+  });
+
+  describe('verifyTOTP', () => {
+    const time = 1111111109 * 1000;
+
+    test('should verify the current one-time password', () => {
+      expect(verifyTOTP(RFC_SECRET, '081804', time)).toBe(true);
+    });
+
+    test('should accept the adjacent periods', () => {
+      expect(verifyTOTP(RFC_SECRET, generateTOTP(RFC_SECRET, time - 30 * 1000), time)).toBe(true);
+      expect(verifyTOTP(RFC_SECRET, generateTOTP(RFC_SECRET, time + 30 * 1000), time)).toBe(true);
+    });
+
+    test('should reject an expired one-time password', () => {
+      expect(verifyTOTP(RFC_SECRET, generateTOTP(RFC_SECRET, time - 90 * 1000), time)).toBe(false);
+    });
+
+    test('should reject malformed one-time passwords', () => {
+      expect(verifyTOTP(RFC_SECRET, '', time)).toBe(false);
+      expect(verifyTOTP(RFC_SECRET, '12345', time)).toBe(false);
+      expect(verifyTOTP(RFC_SECRET, 'abcdef', time)).toBe(false);
+    });
+  });
+
+  test('should generate a random secret', () => {
+    const secret = generateTOTPSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTOTPSecret()).not.toEqual(secret);
+  });
+
+  test('should build an otpauth url', () => {
+    expect(buildOTPAuthURL('Verdaccio', 'foo', RFC_SECRET)).toEqual(
+      `otpauth://totp/Verdaccio%3Afoo?secret=${RFC_SECRET}&issuer=Verdaccio` +
+        '&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+
+  test('should generate and hash recovery codes', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(5);
+    expect(hashRecoveryCode(codes[0])).toEqual(hashRecoveryCode(` ${codes[0].toUpperCase()} `));
+    expect(hashRecoveryCode(codes[0])).not.toEqual(hashRecoveryCode(codes[1]));
+  });
+});
@@ -5,6 +5,11 @@ import { warningUtils } from '@verdaccio/core';
 import { FastifyServer } from './commands/FastifyServer';
 import { InfoCommand } from './commands/info';
 import { InitCommand } from './commands/init';
+import {
+  StorageFsckCommand,
+  StorageGarbageCommand,
+  StorageMigrateCommand,
+} from './commands/storage';
 import { VersionCommand } from './commands/version';
 import { MIN_NODE_VERSION, isVersionValid } from './utils';
 
@@ -31,6 +36,9 @@ cli.register(InfoCommand);
 cli.register(InitCommand);
 cli.register(VersionCommand);
 cli.register(FastifyServer);
+cli.register(StorageMigrateCommand);
+cli.register(StorageGarbageCommand);
+cli.register(StorageFsckCommand);
 cli.runExit(args, Cli.defaultContext);
 
 process.on('uncaughtException', function (err) {
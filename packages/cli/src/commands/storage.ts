@@ -0,0 +1,236 @@
+import { Command, Option } from 'clipanion';
+
+import { Config, findConfigFile, parseConfigFile } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { LoggerConfigItem } from '@verdaccio/logger/src/logger';
+import {
+  checkStorage,
+  collectGarbage,
+  getGarbageMinAge,
+  loadStoragePlugin,
+  migrateStorage,
+  validateGarbageCollection,
+} from '@verdaccio/store';
+import { ConfigRuntime } from '@verdaccio/types';
+
+export class StorageMigrateCommand extends Command {
+  public static paths = [[`storage`, `migrate`]];
+
+  // eslint-disable-next-line
+  static usage = Command.Usage({
+    description: `copy the packages of a storage to another one`,
+    details: `
+      Copy the secret, the manifests and the tarballs from the storage defined by a
+      configuration file to the storage defined by another one, eg: from local-storage
+      to a cloud storage plugin.
+
+      Only the packages listed by the storage are copied, the packages cached from the
+      uplinks are fetched again on demand. The storages cannot list the users, the tokens
+      are copied for the users given with \`--user\`.
+
+      The optional arguments are:
+
+      - \`--dry-run\` to report what would be copied without writing anything,
+      - \`--resume\` to keep the tarballs already copied by an interrupted migration,
+      - \`--verify\` to compare the checksum of every tarball copied,
+      - \`--user\` to copy the tokens of a user, can be repeated.
+    `,
+    examples: [
+      [
+        `Copy the local-storage to the storage plugin of another configuration`,
+        `verdaccio storage migrate --from ./config.yaml --to ./config-s3.yaml --verify`,
+      ],
+      [
+        `Continue an interrupted migration`,
+        `verdaccio storage migrate --from ./config.yaml --to ./config-s3.yaml --resume`,
+      ],
+    ],
+  });
+
+  private from = Option.String('--from', {
+    required: true,
+    description: 'configuration file of the source storage',
+  });
+
+  private to = Option.String('--to', {
+    required: true,
+    description: 'configuration file of the destination storage',
+  });
+
+  private dryRun = Option.Boolean('--dry-run', false, {
+    description: 'report what would be copied without writing anything',
+  });
+
+  private resume = Option.Boolean('--resume', false, {
+    description: 'keep the tarballs already in the destination',
+  });
+
+  private verify = Option.Boolean('--verify', false, {
+    description: 'compare the checksum of every tarball copied',
+  });
+
+  private users = Option.Array('--user', [], {
+    description: 'copy the tokens of this user',
+  });
+
+  private loadConfig(configPath: string): ConfigRuntime {
+    return parseConfigFile(findConfigFile(configPath));
+  }
+
+  public async execute() {
+    try {
+      const fromParsed = this.loadConfig(this.from);
+      setup(fromParsed.log as LoggerConfigItem);
+      const fromConfig = new Config(fromParsed);
+      const toConfig = new Config(this.loadConfig(this.to));
+
+      const from = await loadStoragePlugin(fromConfig, logger);
+      const to = await loadStoragePlugin(toConfig, logger);
+      const result = await migrateStorage(
+        from,
+        to,
+        { dryRun: this.dryRun, resume: this.resume, verify: this.verify, users: this.users },
+        logger
+      );
+
+      this.context.stdout.write(
+        `${this.dryRun ? 'dry run: ' : ''}${result.packages} packages, ${
+          result.tarballs
+        } tarballs, ${result.skipped} tarballs skipped, ${result.tokens} tokens migrated\n`
+      );
+      for (const { name, message } of result.errors) {
+        this.context.stderr.write(`${name}: ${message}\n`);
+      }
+      process.exit(result.errors.length > 0 ? 1 : 0);
+    } catch (err: any) {
+      console.error(err);
+      process.exit(1);
+    }
+  }
+}
+
+export class StorageGarbageCommand extends Command {
+  public static paths = [[`storage`, `gc`]];
+
+  // eslint-disable-next-line
+  static usage = Command.Usage({
+    description: `find the orphaned tarballs of the storage`,
+    details: `
+      Report the tarballs not referenced by the manifest of their package and the
+      leftovers of interrupted writes, eg: after an unpublish or a crash. The files
+      modified more recently than \`gc.min_age\` of the configuration, 1 hour by default,
+      are kept.
+
+      The optional arguments are:
+
+      - \`-c | --config\` to define a different configuration path location,
+      - \`--delete\` to remove the files reported.
+    `,
+    examples: [
+      [`Report the orphaned tarballs`, `verdaccio storage gc`],
+      [`Remove the orphaned tarballs`, `verdaccio storage gc --config ./config.yaml --delete`],
+    ],
+  });
+
+  private config = Option.String('-c,--config', {
+    description: 'use this configuration file (default: ./config.yaml)',
+  });
+
+  private delete = Option.Boolean('--delete', false, {
+    description: 'remove the files reported',
+  });
+
+  public async execute() {
+    try {
+      const configParsed = parseConfigFile(findConfigFile(this.config as string));
+      setup(configParsed.log as LoggerConfigItem);
+      validateGarbageCollection(configParsed.gc);
+
+      const plugin = await loadStoragePlugin(new Config(configParsed), logger);
+      const report = await collectGarbage(
+        plugin,
+        { dryRun: !this.delete, minAge: getGarbageMinAge(configParsed.gc) },
+        logger
+      );
+
+      for (const { name, filename, reason } of report.files) {
+        this.context.stdout.write(`${name}/${filename} (${reason})\n`);
+      }
+      this.context.stdout.write(
+        `${report.packages} packages, ${report.files.length} files found, ${report.removed} removed\n`
+      );
+      for (const { name, message } of report.errors) {
+        this.context.stderr.write(`${name}: ${message}\n`);
+      }
+      process.exit(report.errors.length > 0 ? 1 : 0);
+    } catch (err: any) {
+      console.error(err);
+      process.exit(1);
+    }
+  }
+}
+
+export class StorageFsckCommand extends Command {
+  public static paths = [[`storage`, `fsck`]];
+
+  // eslint-disable-next-line
+  static usage = Command.Usage({
+    description: `check the consistency of the storage`,
+    details: `
+      Report the packages of the database without manifest, the manifests that cannot
+      be read, the published tarballs missing, the garbage and the writes of the
+      journal interrupted by a crash, recovered by local-storage when the server starts.
+
+      The optional arguments are:
+
+      - \`-c | --config\` to define a different configuration path location,
+      - \`--repair\` to recover the interrupted writes and remove the packages without
+        manifest from the database and the garbage, the other issues are only reported.
+        The writes in progress are undone, run it while the server is stopped.
+    `,
+    examples: [
+      [`Check the storage`, `verdaccio storage fsck`],
+      [`Repair the storage`, `verdaccio storage fsck --config ./config.yaml --repair`],
+    ],
+  });
+
+  private config = Option.String('-c,--config', {
+    description: 'use this configuration file (default: ./config.yaml)',
+  });
+
+  private repair = Option.Boolean('--repair', false, {
+    description: 'repair the issues that can be repaired',
+  });
+
+  public async execute() {
+    try {
+      const configParsed = parseConfigFile(findConfigFile(this.config as string));
+      setup(configParsed.log as LoggerConfigItem);
+      validateGarbageCollection(configParsed.gc);
+
+      const plugin = await loadStoragePlugin(new Config(configParsed), logger);
+      const report = await checkStorage(
+        plugin,
+        { repair: this.repair, minAge: getGarbageMinAge(configParsed.gc) },
+        logger
+      );
+
+      for (const { name, filename, type, repaired } of report.issues) {
+        const file = filename ? `${name}/${filename}` : name;
+        this.context.stdout.write(`${file} (${type}${repaired ? ', repaired' : ''})\n`);
+      }
+      const repaired = report.issues.filter(({ repaired }) => repaired).length;
+      this.context.stdout.write(
+        `${report.packages} packages, ${report.issues.length} issues found, ${repaired} repaired\n`
+      );
+      for (const { name, message } of report.errors) {
+        this.context.stderr.write(`${name}: ${message}\n`);
+      }
+      const unrepaired = report.issues.length - repaired;
+      process.exit(report.errors.length > 0 || unrepaired > 0 ? 1 : 0);
+    } catch (err: any) {
+      console.error(err);
+      process.exit(1);
+    }
+  }
+}
@@ -56,6 +56,8 @@ class Config implements AppConfig {
     this.serverSettings = serverSettings;
     this.flags = {
       searchRemote: config.flags?.searchRemote ?? true,
+      // the server only flags are left unset by default, the flags are sent to the UI
+      ..._.pick(config.flags, ['integrityBackfill']),
     };
 
     for (const configProp in config) {
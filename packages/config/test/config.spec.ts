@@ -158,3 +158,16 @@ describe('VERDACCIO_STORAGE_PATH', () => {
     delete process.env.VERDACCIO_STORAGE_PATH;
   });
 });
+
+describe('flags', () => {
+  test('should leave the server only flags unset by default', () => {
+    const config = new Config(parseConfigFile(resolveConf('default')));
+    expect(config.flags).toStrictEqual({ searchRemote: true });
+  });
+
+  test('should keep the integrityBackfill flag', () => {
+    const defaultConfig = parseConfigFile(resolveConf('default'));
+    const config = new Config({ ...defaultConfig, flags: { integrityBackfill: true } });
+    expect(config.flags).toEqual({ searchRemote: true, integrityBackfill: true });
+  });
+});
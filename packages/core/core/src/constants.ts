@@ -27,6 +27,7 @@ export const HEADERS = {
   ACCEPT_ENCODING: 'Accept-Encoding',
   USER_AGENT: 'User-Agent',
   JSON: 'application/json',
+  ABBREVIATED_JSON: 'application/vnd.npm.install-v1+json',
   CONTENT_TYPE: 'Content-type',
   CONTENT_LENGTH: 'content-length',
   TEXT_PLAIN: 'text/plain',
@@ -43,11 +44,17 @@ export const HEADERS = {
   CTO: 'X-Content-Type-Options',
   XSS: 'X-XSS-Protection',
   ETAG: 'ETag',
+  IF_NONE_MATCH: 'If-None-Match',
+  LAST_MODIFIED: 'Last-Modified',
+  IF_MODIFIED_SINCE: 'If-Modified-Since',
   JSON_CHARSET: 'application/json; charset=utf-8',
   OCTET_STREAM: 'application/octet-stream; charset=utf-8',
   TEXT_CHARSET: 'text/plain; charset=utf-8',
   WWW_AUTH: 'WWW-Authenticate',
+  NPM_OTP: 'npm-otp',
   GZIP: 'gzip',
+  WARNING: 'Warning',
+  CACHE_STATUS: 'X-Verdaccio-Cache',
 };
 
 export const HTTP_STATUS = {
@@ -38,11 +38,20 @@ export const API_ERROR = {
   BAD_PACKAGE_DATA: 'bad incoming package data',
   USERNAME_PASSWORD_REQUIRED: 'username and password is required',
   USERNAME_ALREADY_REGISTERED: 'username is already registered',
+  TOKEN_READONLY: 'the token is read-only and cannot be used for write operations',
+  TOKEN_CIDR_NOT_ALLOWED: 'the token is not allowed to be used from this IP address',
+  TOKEN_REVOKED: 'the token has been revoked',
+  OTP_REQUIRED: 'this operation requires a one-time password',
+  OTP_INVALID: 'the one-time password is not valid',
+  TFA_NOT_ENABLED: 'the two-factor authentication is not enabled',
+  INTEGRITY_MISMATCH: 'the tarball does not match the dist.integrity of the version',
+  TFA_NOT_PENDING: 'the two-factor authentication has no pending activation',
 };
 
 export const SUPPORT_ERRORS = {
   PLUGIN_MISSING_INTERFACE: 'the plugin does not provide implementation of the requested feature',
   TFA_DISABLED: 'the two-factor authentication is not yet supported',
+  PROFILE_DISABLED: 'the user profile is not supported by the auth plugins',
   STORAGE_NOT_IMPLEMENT: 'the storage does not support token saving',
   PARAMETERS_NOT_VALID: 'the parameters are not valid',
 };
@@ -1,6 +1,6 @@
 import semver from 'semver';
 
-import { Package } from '@verdaccio/types';
+import { AbbreviatedManifest, AbbreviatedVersion, Package, Version } from '@verdaccio/types';
 
 import { DIST_TAGS } from './constants';
 
@@ -64,3 +64,61 @@ export function mergeVersions(local: Package, upstream: Package) {
     }
   }
 }
+
+const ABBREVIATED_VERSION_FIELDS = [
+  'name',
+  'version',
+  'dependencies',
+  'optionalDependencies',
+  'peerDependencies',
+  'bin',
+  'engines',
+  'dist',
+  'deprecated',
+  'hasInstallScript',
+];
+
+const INSTALL_SCRIPTS = ['preinstall', 'install', 'postinstall'];
+
+/**
+ * Reduce a version to the fields needed to install it.
+ */
+export function abbreviateVersion(version: Version): AbbreviatedVersion {
+  const abbreviated = {} as AbbreviatedVersion;
+  for (const field of ABBREVIATED_VERSION_FIELDS) {
+    if (typeof version[field] !== 'undefined') {
+      abbreviated[field] = version[field];
+    }
+  }
+  // already set if the version comes from an abbreviated manifest
+  if (typeof abbreviated.hasInstallScript === 'undefined') {
+    const scripts = version.scripts || {};
+    if (INSTALL_SCRIPTS.some((script) => typeof scripts[script] !== 'undefined')) {
+      abbreviated.hasInstallScript = true;
+    }
+  }
+
+  return abbreviated;
+}
+
+/**
+ * Convert a manifest to the abbreviated format (application/vnd.npm.install-v1+json)
+ * requested by the npm clients to install a package.
+ */
+export function abbreviateManifest(pkg: Package): AbbreviatedManifest {
+  const versions = {};
+  for (const version of Object.keys(pkg.versions || {})) {
+    versions[version] = abbreviateVersion(pkg.versions[version]);
+  }
+
+  const manifest: AbbreviatedManifest = {
+    name: pkg.name,
+    [DIST_TAGS]: pkg[DIST_TAGS] || {},
+    versions,
+  };
+  if (typeof pkg.time?.modified !== 'undefined') {
+    manifest.modified = pkg.time.modified;
+  }
+
+  return manifest;
+}
@@ -8,6 +8,18 @@ interface IPlugin {
   close?(): void;
 }
 
+// the writes of a package interrupted by a crash, eg: package.json or foo-1.0.0.tgz
+export interface StorageJournal {
+  name: string;
+  files: string[];
+}
+
+export interface StorageRecovery {
+  name: string;
+  replayed: string[];
+  rolledBack: string[];
+}
+
 export interface IPluginStorage<T> extends IPlugin {
   config: T & Config;
   add(name: string): Promise<void>;
@@ -21,4 +33,8 @@ export interface IPluginStorage<T> extends IPlugin {
   saveToken(token: Token): Promise<any>;
   deleteToken(user: string, tokenKey: string): Promise<any>;
   readTokens(filter: TokenFilter): Promise<Token[]>;
+  // the writes interrupted by a crash, not recovered yet
+  getJournals?(): Promise<StorageJournal[]>;
+  // complete or undo the writes interrupted by a crash, never while they are in progress
+  recoverJournals?(): Promise<StorageRecovery[]>;
 }
@@ -0,0 +1,63 @@
+import { abbreviateManifest, abbreviateVersion } from '../src/pkg-utils';
+
+describe('abbreviateManifest', () => {
+  const version = {
+    name: 'foo',
+    version: '1.0.0',
+    description: 'foo package',
+    readme: '# foo',
+    main: 'index.js',
+    scripts: { test: 'jest', postinstall: 'node build.js' },
+    dependencies: { bar: '^1.0.0' },
+    peerDependencies: { react: '>=16' },
+    bin: { foo: 'bin/foo.js' },
+    engines: { node: '>=14' },
+    dist: { shasum: 'abc', tarball: 'http://localhost:4873/foo/-/foo-1.0.0.tgz' },
+    deprecated: 'use bar',
+  };
+
+  test('should keep the fields needed to install a version', () => {
+    expect(abbreviateVersion(version as any)).toEqual({
+      name: 'foo',
+      version: '1.0.0',
+      dependencies: { bar: '^1.0.0' },
+      peerDependencies: { react: '>=16' },
+      bin: { foo: 'bin/foo.js' },
+      engines: { node: '>=14' },
+      dist: { shasum: 'abc', tarball: 'http://localhost:4873/foo/-/foo-1.0.0.tgz' },
+      deprecated: 'use bar',
+      hasInstallScript: true,
+    });
+  });
+
+  test('should not flag a version without install scripts', () => {
+    expect(abbreviateVersion({ ...version, scripts: {} } as any)).not.toHaveProperty(
+      'hasInstallScript'
+    );
+  });
+
+  test('should keep hasInstallScript of an abbreviated version', () => {
+    expect(
+      abbreviateVersion({ ...version, scripts: undefined, hasInstallScript: true } as any)
+    ).toHaveProperty('hasInstallScript', true);
+  });
+
+  test('should abbreviate a manifest', () => {
+    const manifest = {
+      name: 'foo',
+      readme: '# foo',
+      versions: { '1.0.0': version },
+      'dist-tags': { latest: '1.0.0' },
+      time: { modified: '2022-01-01T00:00:00.000Z', '1.0.0': '2022-01-01T00:00:00.000Z' },
+      users: {},
+      _attachments: {},
+    };
+
+    expect(abbreviateManifest(manifest as any)).toEqual({
+      name: 'foo',
+      modified: '2022-01-01T00:00:00.000Z',
+      'dist-tags': { latest: '1.0.0' },
+      versions: { '1.0.0': abbreviateVersion(version as any) },
+    });
+  });
+});
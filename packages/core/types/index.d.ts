@@ -71,10 +71,16 @@ declare module '@verdaccio/types' {
     bodyAfter?: string[];
   } & CommonWebConf;
 
+  interface DistSignature {
+    keyid: string;
+    sig: string;
+  }
+
   interface Dist {
     integrity?: string;
     shasum: string;
     tarball: string;
+    signatures?: DistSignature[];
   }
 
   interface RemoteUser {
@@ -82,6 +88,8 @@ declare module '@verdaccio/types' {
     groups: string[];
     name: string | void;
     error?: string;
+    // restrictions of the stored token used on the request, if any
+    token?: TokenRestrictions;
   }
 
   interface LocalStorage {
@@ -114,6 +122,7 @@ declare module '@verdaccio/types' {
     homepage?: string;
     etag?: string;
     dependencies: any;
+    optionalDependencies?: any;
     keywords?: string | string[];
     nodeVersion?: string;
     _id: string;
@@ -121,6 +130,39 @@ declare module '@verdaccio/types' {
     _npmUser: Author;
     _hasShrinkwrap?: boolean;
     deprecated?: string;
+    peerDependencies?: any;
+    engines?: any;
+    hasInstallScript?: boolean;
+  }
+
+  /**
+   * The version of an abbreviated manifest (application/vnd.npm.install-v1+json)
+   */
+  interface AbbreviatedVersion {
+    name: string;
+    version: string;
+    dependencies?: any;
+    optionalDependencies?: any;
+    peerDependencies?: any;
+    bin?: any;
+    engines?: any;
+    dist: Dist;
+    deprecated?: string;
+    hasInstallScript?: boolean;
+  }
+
+  interface AbbreviatedVersions {
+    [key: string]: AbbreviatedVersion;
+  }
+
+  /**
+   * The manifest npm clients need to install a package, aka corgi
+   */
+  interface AbbreviatedManifest {
+    name: string;
+    modified?: string;
+    'dist-tags': GenericBody;
+    versions: AbbreviatedVersions;
   }
 
   interface Logger {
@@ -141,6 +183,8 @@ declare module '@verdaccio/types' {
     url: string;
     sha: string;
     registry?: string;
+    // last download of the cached tarball in milliseconds
+    accessed?: number;
   }
 
   interface MergeTags {
@@ -160,6 +204,8 @@ declare module '@verdaccio/types' {
     data?: string;
     length?: number;
     shasum?: string;
+    // sha512 of the stored tarball, eg: sha512-<base64>
+    integrity?: string;
     version?: string;
   }
 
@@ -170,6 +216,7 @@ declare module '@verdaccio/types' {
   interface UpLinkMetadata {
     etag: string;
     fetched: number;
+    last_modified?: string;
   }
 
   interface UpLinks {
@@ -205,6 +252,11 @@ declare module '@verdaccio/types' {
     _rev: string;
   }
 
+  // downloads by version by day, eg: { '2022-01-31': { '1.0.0': 12 } }
+  interface PackageDownloads {
+    [day: string]: { [version: string]: number };
+  }
+
   interface Manifest {
     _id?: string;
     name: string;
@@ -232,11 +284,48 @@ declare module '@verdaccio/types' {
     type: 'Bearer' | 'Basic';
     token?: string;
     token_env?: boolean | string;
+    // command printing a short-lived token
+    token_helper?: UpLinkTokenHelperConf;
+  }
+
+  interface UpLinkTokenHelperConf {
+    command: string;
+    args?: string[];
+    // how long a token without expiry is cached, by default 5m
+    ttl?: string;
+    // by default 10s
+    timeout?: string;
+  }
+
+  interface UpLinkTarballRewriteConf {
+    // regular expression matching the tarball url
+    from: string;
+    // replacement, may use the groups of `from`, eg: $1
+    to: string;
+  }
+
+  interface UpLinkRetryConf {
+    // retries of a failed GET request, by default 0
+    count?: number;
+    // growth of the delay between retries, by default 2
+    factor?: number;
+    // delay before the first retry, eg: 100ms
+    min?: string;
+    // upper bound of the delay, eg: 10s
+    max?: string;
+    // status codes, status classes (5xx) or error codes that are retried
+    on?: (string | number)[];
   }
 
   interface UpLinkConf {
     url: string;
     ca?: string;
+    // client certificate (mTLS), paths to PEM files
+    cert?: string;
+    key?: string;
+    // or path to a PKCS#12 bundle
+    pfx?: string;
+    passphrase?: string;
     cache?: boolean;
     timeout?: string | void;
     maxage?: string | void;
@@ -245,6 +334,17 @@ declare module '@verdaccio/types' {
     headers?: Headers;
     auth?: UpLinkTokenConf;
     strict_ssl?: boolean | void;
+    retry?: UpLinkRetryConf;
+    // share of the requests with proxy_strategy: weighted, by default 1
+    weight?: number;
+    // past maxage, the cached metadata is served while it is refreshed in the background, eg: 1h
+    stale_while_revalidate?: string;
+    // past maxage, the cached metadata is served if the uplink fails, eg: 1d
+    stale_if_error?: string;
+    // request the abbreviated manifests (application/vnd.npm.install-v1+json)
+    abbreviated?: boolean;
+    // download the tarballs from another url, eg: a mirror
+    tarball_rewrite?: UpLinkTarballRewriteConf[];
     _autogenerated?: boolean;
   }
 
@@ -254,12 +354,29 @@ declare module '@verdaccio/types' {
     tag?: string;
   }
 
+  // merge: every uplink is queried and the results merged
+  // first-success: the uplinks are queried in order until one succeeds
+  // weighted: as first-success, the order is picked randomly by weight
+  type ProxyStrategy = 'merge' | 'first-success' | 'weighted';
+
   interface PackageAccess {
     storage?: string;
     publish?: string[];
     proxy?: string[];
+    proxy_strategy?: ProxyStrategy;
     access?: string[];
     unpublish: string[];
+    // uplink versions published more recently are hidden, eg: 72h
+    minimum_age?: string;
+    // rule of the audit filter, false disables it for the matched packages
+    vulnerabilities?: PackageVulnerabilities | false;
+  }
+
+  interface PackageVulnerabilities {
+    // minimum severity of an advisory to apply the action
+    severity?: 'info' | 'low' | 'moderate' | 'high' | 'critical';
+    // hide removes the versions and forbids their tarballs, mark deprecates the versions
+    action?: 'hide' | 'mark';
   }
 
   // info passed to the auth plugin when a package is package is being published
@@ -291,6 +408,15 @@ declare module '@verdaccio/types' {
 
   interface PublishOptions {
     allow_offline: boolean;
+    // reject a publish whose tarball does not match the dist.integrity of the version
+    check_integrity?: boolean;
+  }
+
+  interface SignaturesConf {
+    // ECDSA P-256 private key in PEM format, relative to the configuration file
+    key: string;
+    // ISO 8601 date the key expires, exposed on /-/npm/v1/keys
+    expires?: string;
   }
 
   type AuthConf = any | AuthHtpasswd;
@@ -326,6 +452,8 @@ declare module '@verdaccio/types' {
     user: string;
   }
 
+  type TokenRestrictions = Pick<Token, 'key' | 'readonly' | 'cidr'>;
+
   type IPackageStorage = ILocalPackageManager | void;
   type IPackageStorageManager = ILocalPackageManager;
   type IPluginStorage<T> = ILocalData<T>;
@@ -379,6 +507,7 @@ declare module '@verdaccio/types' {
     ignoreExpiration?: boolean;
     maxAge?: string | number;
     clockTimestamp?: number;
+    jwtid?: string;
   }
 
   interface APITokenOptions {
@@ -394,6 +523,8 @@ declare module '@verdaccio/types' {
   export type FlagsConfig = {
     searchRemote?: boolean;
     changePassword?: boolean;
+    // calculate the missing dist.integrity of the local tarballs on start up
+    integrityBackfill?: boolean;
   };
 
   export type RateLimit = {
@@ -418,6 +549,37 @@ declare module '@verdaccio/types' {
     basePath: string;
   };
 
+  type MirrorVersions = 'dist-tags' | 'all';
+
+  interface MirrorConf {
+    // package names or patterns, the patterns match the packages already stored
+    packages: string[];
+    // eg: 12h, by default 1d
+    interval?: string;
+    // levels of dependencies to mirror, by default 0
+    dependencies?: number;
+    // versions whose tarballs are downloaded, by default dist-tags
+    versions?: MirrorVersions;
+  }
+
+  interface GarbageCollectionConf {
+    // files modified more recently are kept, they may belong to a publish in progress, by default 1h
+    min_age?: string;
+    // users and groups allowed to use the /-/verdaccio/storage/garbage endpoint, nobody by default
+    access?: string | string[];
+  }
+
+  interface CacheConf {
+    // remove the tarballs cached for longer than this, eg: 90d
+    max_age?: string;
+    // remove the tarballs not downloaded for longer than this, eg: 30d
+    max_idle?: string;
+    // remove the least recently downloaded tarballs above this total size, eg: 10gb
+    max_size?: string | number;
+    // eg: 30m, by default 1h
+    interval?: string;
+  }
+
   interface ConfigYaml {
     _debug?: boolean;
     storage?: string | void;
@@ -444,6 +606,10 @@ declare module '@verdaccio/types' {
     url_prefix?: string;
     server?: ServerSettingsConf;
     flags?: FlagsConfig;
+    signatures?: SignaturesConf;
+    mirror?: MirrorConf;
+    gc?: GarbageCollectionConf;
+    cache?: CacheConf;
   }
 
   interface ConfigRuntime extends ConfigYaml {
@@ -514,6 +680,14 @@ declare module '@verdaccio/types' {
   type PackageTransformer = (pkg: Package) => Package;
   type ReadPackageCallback = (err: any | null, data?: Package) => void;
 
+  interface PackageFile {
+    name: string;
+    // last modification in milliseconds
+    modified: number;
+    // bytes
+    size: number;
+  }
+
   interface ILocalPackageManager {
     logger: Logger;
     writeTarball(pkgName: string): IUploadTarball;
@@ -538,6 +712,11 @@ declare module '@verdaccio/types' {
       handleUpdate: (manifest: Package) => Promise<Package>
     ): Promise<Package>;
     savePackageNext(name: string, value: Package): Promise<void>;
+    // files stored for the package, the manifest included
+    listFiles?(): Promise<PackageFile[]>;
+    // downloads of the package, stored apart from the manifest served to the clients
+    readDownloads?(): Promise<PackageDownloads>;
+    saveDownloads?(downloads: PackageDownloads): Promise<void>;
   }
 
   interface TarballActions {
@@ -600,6 +779,37 @@ declare module '@verdaccio/types' {
   type AuthError = HttpError & { code: number };
   type AuthAccessCallback = (error: AuthError | null, access: boolean) => void;
   type AuthCallback = (error: AuthError | null, groups: string[] | false) => void;
+  type TwoFactorCallback = (error: AuthError | null, tfa?: TwoFactorAuth | null) => void;
+
+  type TwoFactorMode = 'auth-only' | 'auth-and-writes';
+
+  interface TwoFactorAuth {
+    // base32 TOTP shared secret
+    secret: string;
+    mode: TwoFactorMode;
+    // enrollment started but not yet confirmed with a one-time password
+    pending: boolean;
+    // sha256 of the recovery codes not used yet
+    recoveryCodes: string[];
+  }
+
+  type ProfileCallback = (error: AuthError | null, profile?: UserProfile | null) => void;
+
+  // fields editable with npm profile set
+  interface UserProfileFields {
+    email?: string;
+    fullname?: string;
+    homepage?: string;
+    freenode?: string;
+    twitter?: string;
+    github?: string;
+  }
+
+  interface UserProfile extends UserProfileFields {
+    // ISO 8601 dates
+    created: string;
+    updated: string;
+  }
 
   interface IPluginAuth<T> extends IPlugin<T> {
     authenticate(user: string, password: string, cb: AuthCallback): void;
@@ -620,6 +830,11 @@ declare module '@verdaccio/types' {
       cb: AuthAccessCallback
     ): void;
     apiJWTmiddleware?(helpers: any): Function;
+    readTwoFactor?(user: string, cb: TwoFactorCallback): void;
+    // a null value disables the two-factor authentication for the user
+    saveTwoFactor?(user: string, tfa: TwoFactorAuth | null, cb: Callback): void;
+    readProfile?(user: string, cb: ProfileCallback): void;
+    saveProfile?(user: string, profile: UserProfile, cb: Callback): void;
   }
 
   // @deprecated use @verdaccio/server
@@ -629,6 +844,8 @@ declare module '@verdaccio/types' {
 
   interface IPluginStorageFilter<T> extends IPlugin<T> {
     filter_metadata(packageInfo: Package): Promise<Package>;
+    // a rejection forbids the download of the tarball, the error is sent to the client
+    filter_tarball?(name: string, filename: string): Promise<void>;
   }
 
   export type SearchResultWeb = {
@@ -223,10 +223,11 @@ export function final(
         body = JSON.stringify(body, undefined, '  ') + '\n';
       }
 
-      // don't send etags with errors
+      // don't send etags with errors, nor replace the etag set by the route
       if (
-        !res.statusCode ||
-        (res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)
+        (!res.statusCode ||
+          (res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)) &&
+        !res.getHeader(HEADERS.ETAG)
       ) {
         res.header(HEADERS.ETAG, '"' + stringToMD5(body as string) + '"');
       }
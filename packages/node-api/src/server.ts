@@ -147,7 +147,7 @@ export async function initServer(
       logger.fatal('received shutdown signal - closing server gracefully...');
       serverFactory.close(() => {
         logger.info('server closed.');
-        process.exit(0);
+        app.locals.close().finally(() => process.exit(0));
       });
     }
 
@@ -0,0 +1,5 @@
+const config = require('../../../jest/config');
+
+module.exports = Object.assign({}, config, {
+  collectCoverage: true,
+});
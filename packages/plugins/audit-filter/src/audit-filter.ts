@@ -0,0 +1,181 @@
+import buildDebug from 'debug';
+import fs from 'fs';
+import path from 'path';
+import semver from 'semver';
+import {
+  Advisory,
+  AdvisoryDatabase,
+  SEVERITIES,
+  Severity,
+  isVulnerable,
+  loadAdvisoryDatabase,
+} from 'verdaccio-audit';
+
+import { DIST_TAGS, errorUtils } from '@verdaccio/core';
+import { Config, IPluginStorageFilter, Logger, Package, PluginOptions } from '@verdaccio/types';
+import { getMatchedPackagesSpec } from '@verdaccio/utils';
+
+import { ConfigAuditFilter, VulnerabilityAction, VulnerabilityRule } from './types';
+
+const debug = buildDebug('verdaccio:plugin:audit-filter');
+
+export const DEFAULT_SEVERITY: Severity = 'high';
+export const DEFAULT_ACTION: VulnerabilityAction = 'hide';
+
+export default class AuditFilter implements IPluginStorageFilter<ConfigAuditFilter> {
+  public config: ConfigAuditFilter;
+  public logger: Logger;
+  public advisories: string;
+  private readonly appConfig: Config;
+  private database?: { mtimeMs: number; advisories: AdvisoryDatabase };
+
+  public constructor(config: ConfigAuditFilter, options: PluginOptions<ConfigAuditFilter>) {
+    this.config = config;
+    this.logger = options.logger;
+    this.appConfig = options.config;
+
+    if (!config.advisories) {
+      throw new Error('audit-filter: the advisories database path is required');
+    }
+
+    const configPath = options.config?.config_path;
+    this.advisories = configPath
+      ? path.resolve(path.dirname(configPath), config.advisories)
+      : path.resolve(config.advisories);
+  }
+
+  /**
+   * Read the advisory database, it is reloaded once the file is modified.
+   */
+  public async getAdvisoryDatabase(): Promise<AdvisoryDatabase> {
+    const { mtimeMs } = await fs.promises.stat(this.advisories);
+    if (this.database?.mtimeMs !== mtimeMs) {
+      this.logger.info(
+        { path: this.advisories },
+        'audit-filter: loading advisory database @{path}'
+      );
+      this.database = { mtimeMs, advisories: await loadAdvisoryDatabase(this.advisories) };
+    }
+
+    return this.database.advisories;
+  }
+
+  /**
+   * Resolve the rule of a package, the plugin configuration is overridden by the
+   * `vulnerabilities` property of the matched package pattern. The packages without
+   * uplinks, published only to verdaccio, are not filtered.
+   */
+  public getRule(name: string): Required<VulnerabilityRule> | null {
+    const packageAccess = getMatchedPackagesSpec(name, this.appConfig?.packages ?? {});
+    const packageRule = packageAccess?.vulnerabilities;
+    if (packageRule === false || (packageAccess?.proxy ?? []).length === 0) {
+      return null;
+    }
+
+    return {
+      severity: packageRule?.severity ?? this.config.severity ?? DEFAULT_SEVERITY,
+      action: packageRule?.action ?? this.config.action ?? DEFAULT_ACTION,
+    };
+  }
+
+  public async getVulnerabilities(
+    name: string,
+    version: string,
+    rule: Required<VulnerabilityRule>
+  ): Promise<Advisory[]> {
+    const database = await this.getAdvisoryDatabase();
+    const minimum = SEVERITIES.indexOf(rule.severity);
+
+    return (database[name] || []).filter(
+      (advisory) =>
+        SEVERITIES.indexOf(advisory.severity) >= minimum && isVulnerable(advisory, version)
+    );
+  }
+
+  public async filter_metadata(packageInfo: Package): Promise<Package> {
+    const { name } = packageInfo;
+    const rule = this.getRule(name);
+    if (rule === null) {
+      debug('audit filter disabled for %o', name);
+      return packageInfo;
+    }
+
+    const hidden: string[] = [];
+    for (const version of Object.keys(packageInfo.versions)) {
+      const advisories = await this.getVulnerabilities(name, version, rule);
+      if (advisories.length === 0) {
+        continue;
+      }
+
+      debug('%o@%o matches %o advisories', name, version, advisories.length);
+      if (rule.action === 'hide') {
+        delete packageInfo.versions[version];
+        delete packageInfo.time?.[version];
+        hidden.push(version);
+      } else {
+        packageInfo.versions[version].deprecated = advisories
+          .map((advisory) => `${advisory.severity}: ${advisory.title} (${advisory.url})`)
+          .join(', ');
+      }
+    }
+
+    if (hidden.length > 0) {
+      this.logger.info(
+        { name, versions: hidden.join(', ') },
+        'audit-filter: versions @{versions} of @{name} hidden due to known vulnerabilities'
+      );
+      this.fixDistTags(packageInfo, hidden);
+    }
+
+    return packageInfo;
+  }
+
+  public async filter_tarball(name: string, filename: string): Promise<void> {
+    const rule = this.getRule(name);
+    if (rule === null || rule.action !== 'hide') {
+      return;
+    }
+
+    // the tarball filename is the package name without scope followed by the version
+    const prefix = `${name.split('/').pop()}-`;
+    if (filename.startsWith(prefix) === false || filename.endsWith('.tgz') === false) {
+      return;
+    }
+
+    const version = filename.slice(prefix.length, -'.tgz'.length);
+    const advisories = await this.getVulnerabilities(name, version, rule);
+    if (advisories.length > 0) {
+      this.logger.warn(
+        { name, version },
+        'audit-filter: download of @{name}@@{version} forbidden due to known vulnerabilities'
+      );
+      throw errorUtils.getForbidden(
+        `${name}@${version} has known vulnerabilities: ${advisories
+          .map((advisory) => advisory.url)
+          .join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Point the dist-tags of hidden versions to the highest remaining version,
+   * or remove them if there is no version left.
+   */
+  private fixDistTags(packageInfo: Package, hidden: string[]): void {
+    const versions = Object.keys(packageInfo.versions);
+    const distTags = packageInfo[DIST_TAGS];
+
+    for (const tag of Object.keys(distTags)) {
+      if (hidden.includes(distTags[tag]) === false) {
+        continue;
+      }
+
+      const fallback = semver.maxSatisfying(versions, '*');
+      if (tag === 'latest' && fallback !== null) {
+        distTags[tag] = fallback;
+      } else {
+        delete distTags[tag];
+      }
+    }
+  }
+}
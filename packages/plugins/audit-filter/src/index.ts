@@ -0,0 +1,6 @@
+import AuditFilter from './audit-filter';
+import { ConfigAuditFilter, VulnerabilityAction, VulnerabilityRule } from './types';
+
+export { ConfigAuditFilter, VulnerabilityAction, VulnerabilityRule };
+
+export default AuditFilter;
@@ -0,0 +1,19 @@
+import { Severity } from 'verdaccio-audit';
+
+import { Config } from '@verdaccio/types';
+
+// hide removes the versions and forbids their tarballs, mark deprecates the versions
+export type VulnerabilityAction = 'hide' | 'mark';
+
+export interface VulnerabilityRule {
+  // minimum severity of an advisory to apply the action
+  severity?: Severity;
+  action?: VulnerabilityAction;
+}
+
+export interface ConfigAuditFilter extends Config {
+  // path to the advisory database, relative to the configuration file
+  advisories: string;
+  severity?: Severity;
+  action?: VulnerabilityAction;
+}
@@ -0,0 +1,120 @@
+import path from 'path';
+
+import { Config, Logger, Package } from '@verdaccio/types';
+
+import AuditFilter, { ConfigAuditFilter } from '../src/index';
+
+const logger: Logger = {
+  error: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn(),
+  warn: jest.fn(),
+  http: jest.fn(),
+  trace: jest.fn(),
+};
+
+const advisories = path.join(__dirname, 'fixtures/advisories.json');
+
+const appConfig = {
+  packages: {
+    minimist: {
+      access: ['$all'],
+      proxy: ['npmjs'],
+      vulnerabilities: { severity: 'critical', action: 'mark' },
+    },
+    'jquery-*': { access: ['$all'], proxy: ['npmjs'], vulnerabilities: false },
+    '@private/*': { access: ['$all'] },
+    '**': { access: ['$all'], proxy: ['npmjs'] },
+  },
+} as unknown as Config;
+
+function createFilter(config: Partial<ConfigAuditFilter> = {}): AuditFilter {
+  return new AuditFilter({ advisories, ...config } as ConfigAuditFilter, {
+    logger,
+    config: appConfig,
+  });
+}
+
+function buildPackage(name: string, versions: string[], latest: string): Package {
+  return {
+    name,
+    versions: Object.fromEntries(versions.map((version) => [version, { name, version } as any])),
+    time: Object.fromEntries(versions.map((version) => [version, '2021-01-01T00:00:00.000Z'])),
+    'dist-tags': { latest, next: latest },
+    _distfiles: {},
+    _attachments: {},
+    _uplinks: {},
+    _rev: '',
+  } as Package;
+}
+
+describe('AuditFilter', () => {
+  test('should require an advisory database', () => {
+    expect(() => new AuditFilter({} as ConfigAuditFilter, { logger, config: appConfig })).toThrow();
+  });
+
+  test('should resolve the rules of the package patterns', () => {
+    const filter = createFilter({ severity: 'low' });
+
+    expect(filter.getRule('jquery')).toEqual({ severity: 'low', action: 'hide' });
+    expect(filter.getRule('minimist')).toEqual({ severity: 'critical', action: 'mark' });
+    expect(filter.getRule('jquery-ui')).toBeNull();
+    // published only to verdaccio
+    expect(filter.getRule('@private/jquery')).toBeNull();
+  });
+
+  describe('filter_metadata', () => {
+    test('should hide vulnerable versions above the severity and fix the dist-tags', async () => {
+      const filter = createFilter({ severity: 'moderate' });
+      const manifest = await filter.filter_metadata(
+        buildPackage('jquery', ['3.4.0', '3.4.1', '3.5.0'], '3.4.1')
+      );
+
+      expect(Object.keys(manifest.versions)).toEqual(['3.5.0']);
+      expect(Object.keys(manifest.time as object)).toEqual(['3.5.0']);
+      expect(manifest['dist-tags']).toEqual({ latest: '3.5.0' });
+    });
+
+    test('should keep versions below the severity', async () => {
+      const filter = createFilter({ severity: 'high' });
+      const manifest = await filter.filter_metadata(
+        buildPackage('jquery', ['3.4.1', '3.5.0'], '3.5.0')
+      );
+
+      expect(Object.keys(manifest.versions)).toEqual(['3.4.1', '3.5.0']);
+    });
+
+    test('should mark vulnerable versions as deprecated', async () => {
+      const filter = createFilter();
+      const manifest = await filter.filter_metadata(
+        buildPackage('minimist', ['0.0.8', '1.2.5'], '1.2.5')
+      );
+
+      expect(Object.keys(manifest.versions)).toEqual(['0.0.8', '1.2.5']);
+      expect(manifest.versions['0.0.8'].deprecated).toMatch(
+        'critical: Prototype Pollution in minimist'
+      );
+      expect(manifest.versions['1.2.5'].deprecated).toBeUndefined();
+    });
+  });
+
+  describe('filter_tarball', () => {
+    test('should forbid the tarball of a hidden version', async () => {
+      const filter = createFilter({ severity: 'moderate' });
+
+      await expect(filter.filter_tarball('jquery', 'jquery-3.4.1.tgz')).rejects.toMatchObject({
+        status: 403,
+      });
+      await expect(filter.filter_tarball('jquery', 'jquery-3.5.0.tgz')).resolves.toBeUndefined();
+    });
+
+    test('should allow the tarball of a marked version', async () => {
+      const filter = createFilter();
+
+      await expect(
+        filter.filter_tarball('minimist', 'minimist-0.0.8.tgz')
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import semver from 'semver';
+
+import {
+  Advisory,
+  AdvisoryDatabase,
+  AuditDependency,
+  BulkAdvisoryRequest,
+  QuickAuditAdvisory,
+  QuickAuditRequest,
+  QuickAuditResponse,
+  Severity,
+} from './types';
+
+// sorted from the lowest to the highest
+export const SEVERITIES: Severity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+export async function loadAdvisoryDatabase(path: string): Promise<AdvisoryDatabase> {
+  const body = await fs.promises.readFile(path, 'utf8');
+  const database = JSON.parse(body);
+
+  if (typeof database !== 'object' || database === null || Array.isArray(database)) {
+    throw new TypeError(`advisory database ${path} must be an object of advisories by package`);
+  }
+
+  return database;
+}
+
+export function isVulnerable(advisory: Advisory, version: string): boolean {
+  return (
+    semver.valid(version) !== null &&
+    semver.satisfies(version, advisory.vulnerable_versions, { includePrerelease: true })
+  );
+}
+
+/**
+ * Answer /-/npm/v1/security/advisories/bulk, only the packages with at least
+ * one vulnerable version requested are included.
+ */
+export function getBulkAdvisories(
+  database: AdvisoryDatabase,
+  request: BulkAdvisoryRequest
+): AdvisoryDatabase {
+  const response: AdvisoryDatabase = {};
+
+  for (const [name, versions] of Object.entries(request)) {
+    const advisories = (database[name] || []).filter((advisory) =>
+      (versions || []).some((version) => isVulnerable(advisory, version))
+    );
+    if (advisories.length > 0) {
+      response[name] = advisories;
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Answer /-/npm/v1/security/audits/quick (npm@6 format), the dependency tree is
+ * flattened and each vulnerable version reports the paths it is installed.
+ */
+export function getQuickAudit(
+  database: AdvisoryDatabase,
+  request: QuickAuditRequest
+): QuickAuditResponse {
+  const response: QuickAuditResponse = {
+    actions: [],
+    advisories: {},
+    muted: [],
+    metadata: {
+      vulnerabilities: { info: 0, low: 0, moderate: 0, high: 0, critical: 0 },
+      dependencies: 0,
+      devDependencies: 0,
+      optionalDependencies: 0,
+      totalDependencies: 0,
+    },
+  };
+  // installed paths by package name and version
+  const installed: Map<string, Map<string, string[]>> = new Map();
+
+  const walk = (dependencies: Record<string, AuditDependency> = {}, parents: string[]): void => {
+    for (const [name, dependency] of Object.entries(dependencies)) {
+      const path = [...parents, name];
+      if (dependency.dev) {
+        response.metadata.devDependencies++;
+      } else if (dependency.optional) {
+        response.metadata.optionalDependencies++;
+      } else {
+        response.metadata.dependencies++;
+      }
+
+      const versions = installed.get(name) || new Map();
+      versions.set(dependency.version, [
+        ...(versions.get(dependency.version) || []),
+        path.join('>'),
+      ]);
+      installed.set(name, versions);
+      walk(dependency.dependencies, path);
+    }
+  };
+  walk(request.dependencies, []);
+  response.metadata.totalDependencies =
+    response.metadata.dependencies +
+    response.metadata.devDependencies +
+    response.metadata.optionalDependencies;
+
+  for (const [name, versions] of installed) {
+    for (const advisory of database[name] || []) {
+      const findings = Array.from(versions)
+        .filter(([version]) => isVulnerable(advisory, version))
+        .map(([version, paths]) => ({ version, paths }));
+      if (findings.length === 0) {
+        continue;
+      }
+
+      const quickAdvisory: QuickAuditAdvisory = { ...advisory, module_name: name, findings };
+      response.advisories[advisory.id] = quickAdvisory;
+      if (SEVERITIES.includes(advisory.severity)) {
+        response.metadata.vulnerabilities[advisory.severity] += findings.reduce(
+          (total, finding) => total + finding.paths.length,
+          0
+        );
+      }
+    }
+  }
+
+  return response;
+}
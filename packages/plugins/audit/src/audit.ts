@@ -1,32 +1,96 @@
 import { json as jsonParser } from 'body-parser';
 import express, { Request, Response } from 'express';
+import fs from 'fs';
 import https from 'https';
 import createHttpsProxyAgent from 'https-proxy-agent';
 import fetch from 'node-fetch';
+import path from 'path';
 
 import { IBasicAuth, IPluginMiddleware, Logger, PluginOptions } from '@verdaccio/types';
 
-import { ConfigAudit } from './types';
+import { getBulkAdvisories, getQuickAudit, loadAdvisoryDatabase } from './advisories';
+import { AdvisoryDatabase, ConfigAudit } from './types';
 
-// FUTURE: we should be able to overwrite this
 export const REGISTRY_DOMAIN = 'https://registry.npmjs.org';
 
+export const AUDIT_ERROR = {
+  DISABLED: 'the audit is disabled',
+  UNREACHABLE: 'the audit registry is not reachable',
+  DATABASE_NOT_AVAILABLE: 'the advisory database is not available',
+};
+
+type AuditResponse = Response & { report_error?: Function };
+
 export default class ProxyAudit implements IPluginMiddleware<{}> {
   public enabled: boolean;
   public logger: Logger;
   public strict_ssl: boolean;
+  public registry: string;
+  public offline: boolean;
+  public advisories?: string;
+  private database?: { mtimeMs: number; advisories: AdvisoryDatabase };
 
   public constructor(config: ConfigAudit, options: PluginOptions<{}>) {
     this.enabled = config.enabled || false;
     this.strict_ssl = config.strict_ssl !== undefined ? config.strict_ssl : true;
+    this.registry = (config.registry || REGISTRY_DOMAIN).replace(/\/+$/, '');
+    this.offline = config.offline || false;
     this.logger = options.logger;
+
+    if (config.advisories) {
+      const configPath = options.config?.config_path;
+      this.advisories = configPath
+        ? path.resolve(path.dirname(configPath), config.advisories)
+        : path.resolve(config.advisories);
+    }
+  }
+
+  /**
+   * Read the local advisory database, it is reloaded once the file is modified
+   * so it can be synced without restarting the server.
+   */
+  public async getAdvisoryDatabase(): Promise<AdvisoryDatabase> {
+    const { mtimeMs } = await fs.promises.stat(this.advisories as string);
+    if (this.database?.mtimeMs !== mtimeMs) {
+      this.logger.info({ path: this.advisories }, 'loading advisory database @{path}');
+      this.database = {
+        mtimeMs,
+        advisories: await loadAdvisoryDatabase(this.advisories as string),
+      };
+    }
+
+    return this.database.advisories;
   }
 
   public register_middlewares(app: any, auth: IBasicAuth<ConfigAudit>): void {
-    const fetchAudit = (req: Request, res: Response & { report_error?: Function }): void => {
+    const sendError = (res: AuditResponse, status: number, error: string): void => {
+      res.status(status).json({ error });
+    };
+
+    const answerOffline = async (req: Request, res: AuditResponse): Promise<void> => {
+      try {
+        const database = await this.getAdvisoryDatabase();
+        const body = req.body || {};
+        res
+          .status(200)
+          .send(
+            req.route.path === '/advisories/bulk'
+              ? getBulkAdvisories(database, body)
+              : getQuickAudit(database, body)
+          );
+      } catch (error: any) {
+        this.logger.error(
+          { path: this.advisories, error: error.message },
+          'could not read advisory database @{path}: @{error}'
+        );
+        sendError(res, 500, AUDIT_ERROR.DATABASE_NOT_AVAILABLE);
+      }
+    };
+
+    const fetchAudit = (req: Request, res: AuditResponse): void => {
       const headers = req.headers;
 
-      headers['host'] = 'registry.npmjs.org';
+      headers['host'] = new URL(this.registry).host;
       headers['content-encoding'] = 'gzip,deflate,br';
 
       let requestOptions: any = {
@@ -47,7 +111,7 @@ export default class ProxyAudit implements IPluginMiddleware<{}> {
 
       (async () => {
         try {
-          const auditEndpoint = `${REGISTRY_DOMAIN}${req.baseUrl}${req.route.path}`;
+          const auditEndpoint = `${this.registry}${req.baseUrl}${req.route.path}`;
           this.logger.debug('fetching audit from ' + auditEndpoint);
 
           const response = await fetch(auditEndpoint, requestOptions);
@@ -60,16 +124,28 @@ export default class ProxyAudit implements IPluginMiddleware<{}> {
           }
         } catch (error) {
           this.logger.warn('could not fetch audit: ' + error);
-          res.status(500).end();
+          if (this.advisories) {
+            this.logger.info('answering audit from the advisory database');
+            return answerOffline(req, res);
+          }
+
+          sendError(res, 502, AUDIT_ERROR.UNREACHABLE);
         }
       })();
     };
 
-    const handleAudit = (req: Request, res: Response): void => {
-      if (this.enabled) {
-        fetchAudit(req, res);
+    const handleAudit = (req: Request, res: AuditResponse): void => {
+      if (this.enabled === false) {
+        return sendError(res, 500, AUDIT_ERROR.DISABLED);
+      }
+
+      if (this.offline) {
+        if (!this.advisories) {
+          return sendError(res, 500, AUDIT_ERROR.DATABASE_NOT_AVAILABLE);
+        }
+        answerOffline(req, res);
       } else {
-        res.status(500).end();
+        fetchAudit(req, res);
       }
     };
 
@@ -1,6 +1,7 @@
 import AuditPlugin from './audit';
-import { ConfigAudit } from './types';
+import { Advisory, AdvisoryDatabase, ConfigAudit, Severity } from './types';
 
-export { ConfigAudit };
+export { SEVERITIES, isVulnerable, loadAdvisoryDatabase } from './advisories';
+export { Advisory, AdvisoryDatabase, ConfigAudit, Severity };
 
 export default AuditPlugin;
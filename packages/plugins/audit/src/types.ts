@@ -4,4 +4,71 @@ import { Config } from '@verdaccio/types';
 export interface ConfigAudit extends Config {
   enabled: boolean;
   strict_ssl?: boolean | void;
+  // registry the audit requests are forwarded to
+  registry?: string;
+  // path to a local advisory database, relative to the configuration file
+  advisories?: string;
+  // answer only from the local advisory database, never reach the registry
+  offline?: boolean;
+}
+
+export type Severity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+/**
+ * Advisory as returned by /-/npm/v1/security/advisories/bulk.
+ */
+export interface Advisory {
+  id: number;
+  url: string;
+  title: string;
+  severity: Severity;
+  vulnerable_versions: string;
+  cwe?: string[];
+  cvss?: {
+    score: number;
+    vectorString: string | null;
+  };
+}
+
+/**
+ * The local advisory database uses the same format as the bulk advisories
+ * response, advisories grouped by package name.
+ */
+export type AdvisoryDatabase = Record<string, Advisory[]>;
+
+// request body of /-/npm/v1/security/advisories/bulk, versions grouped by package name
+export type BulkAdvisoryRequest = Record<string, string[]>;
+
+export interface AuditDependency {
+  version: string;
+  dev?: boolean;
+  optional?: boolean;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, AuditDependency>;
+}
+
+// request body of /-/npm/v1/security/audits, npm@6 format
+export interface QuickAuditRequest {
+  name?: string;
+  version?: string;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, AuditDependency>;
+}
+
+export interface QuickAuditAdvisory extends Advisory {
+  module_name: string;
+  findings: { version: string; paths: string[] }[];
+}
+
+export interface QuickAuditResponse {
+  actions: any[];
+  advisories: Record<string, QuickAuditAdvisory>;
+  muted: any[];
+  metadata: {
+    vulnerabilities: Record<Severity, number>;
+    dependencies: number;
+    devDependencies: number;
+    optionalDependencies: number;
+    totalDependencies: number;
+  };
 }
@@ -0,0 +1,78 @@
+import path from 'path';
+
+import { getBulkAdvisories, getQuickAudit, loadAdvisoryDatabase } from '../src/advisories';
+
+const databasePath = path.join(__dirname, 'fixtures/advisories.json');
+
+describe('advisories', () => {
+  test('should load the advisory database', async () => {
+    const database = await loadAdvisoryDatabase(databasePath);
+    expect(Object.keys(database)).toEqual(['jquery', 'minimist']);
+  });
+
+  test('should fail to load an invalid advisory database', async () => {
+    await expect(
+      loadAdvisoryDatabase(path.join(__dirname, 'fixtures/not-found.json'))
+    ).rejects.toThrow();
+  });
+
+  describe('getBulkAdvisories', () => {
+    test('should return the advisories of vulnerable versions', async () => {
+      const database = await loadAdvisoryDatabase(databasePath);
+      const response = getBulkAdvisories(database, {
+        jquery: ['3.6.0', '3.4.1'],
+        minimist: ['1.2.5'],
+        lodash: ['4.17.21'],
+      });
+
+      expect(Object.keys(response)).toEqual(['jquery']);
+      expect(response.jquery[0].id).toEqual(1518);
+    });
+
+    test('should ignore invalid versions', async () => {
+      const database = await loadAdvisoryDatabase(databasePath);
+      expect(getBulkAdvisories(database, { jquery: ['latest'] })).toEqual({});
+    });
+  });
+
+  describe('getQuickAudit', () => {
+    test('should report the vulnerable paths of the dependency tree', async () => {
+      const database = await loadAdvisoryDatabase(databasePath);
+      const response = getQuickAudit(database, {
+        name: 'app',
+        version: '1.0.0',
+        requires: { jquery: '^3.4.0', mkdirp: '^0.5.1' },
+        dependencies: {
+          jquery: { version: '3.4.1' },
+          mkdirp: {
+            version: '0.5.1',
+            requires: { minimist: '0.0.8' },
+            dependencies: { minimist: { version: '0.0.8' } },
+          },
+          minimist: { version: '1.2.5', dev: true },
+        },
+      });
+
+      expect(Object.keys(response.advisories)).toEqual(['1179', '1518']);
+      expect(response.advisories['1179']).toMatchObject({
+        module_name: 'minimist',
+        findings: [{ version: '0.0.8', paths: ['mkdirp>minimist'] }],
+      });
+      expect(response.metadata).toEqual({
+        vulnerabilities: { info: 0, low: 0, moderate: 1, high: 0, critical: 1 },
+        dependencies: 3,
+        devDependencies: 1,
+        optionalDependencies: 0,
+        totalDependencies: 4,
+      });
+    });
+
+    test('should answer an empty dependency tree', async () => {
+      const database = await loadAdvisoryDatabase(databasePath);
+      const response = getQuickAudit(database, { name: 'app', version: '1.0.0' });
+
+      expect(response.advisories).toEqual({});
+      expect(response.metadata.totalDependencies).toEqual(0);
+    });
+  });
+});
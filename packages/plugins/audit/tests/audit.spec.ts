@@ -1,5 +1,11 @@
+import express from 'express';
+import nock from 'nock';
+import path from 'path';
+import supertest from 'supertest';
+
 import { Logger } from '@verdaccio/types';
 
+import { AUDIT_ERROR } from '../src/audit';
 import ProxyAudit, { ConfigAudit } from '../src/index';
 
 const config: ConfigAudit = {
@@ -28,4 +34,105 @@ describe('Audit plugin', () => {
     expect(audit).toBeDefined();
     expect(audit.strict_ssl).toBeFalsy();
   });
+
+  test('should resolve the advisory database relative to the configuration file', () => {
+    const audit = new ProxyAudit(
+      { enabled: true, advisories: './advisories.json' } as ConfigAudit,
+      {
+        logger,
+        config: { config_path: '/etc/verdaccio/config.yaml' } as any,
+      }
+    );
+    expect(audit.advisories).toEqual(path.resolve('/etc/verdaccio/advisories.json'));
+  });
+
+  describe('middleware', () => {
+    const advisories = path.join(__dirname, 'fixtures/advisories.json');
+    const bulkRequest = { jquery: ['3.4.1'] };
+
+    const createApp = (auditConfig: Partial<ConfigAudit>) => {
+      const app = express();
+      const audit = new ProxyAudit({ enabled: true, ...auditConfig } as ConfigAudit, {
+        logger,
+        config: undefined,
+      });
+      audit.register_middlewares(app, {} as any);
+      return app;
+    };
+
+    afterEach(() => {
+      nock.cleanAll();
+    });
+
+    test('should report the audit is disabled', async () => {
+      const response = await supertest(createApp({ enabled: false }))
+        .post('/-/npm/v1/security/advisories/bulk')
+        .send(bulkRequest)
+        .expect(500);
+
+      expect(response.body.error).toEqual(AUDIT_ERROR.DISABLED);
+    });
+
+    test('should forward the audit to the configured registry', async () => {
+      nock('https://registry.company.local')
+        .post('/-/npm/v1/security/advisories/bulk')
+        .reply(200, { jquery: [] });
+
+      const response = await supertest(createApp({ registry: 'https://registry.company.local/' }))
+        .post('/-/npm/v1/security/advisories/bulk')
+        .send(bulkRequest)
+        .expect(200);
+
+      expect(response.body).toEqual({ jquery: [] });
+    });
+
+    test('should report an unreachable registry', async () => {
+      nock('https://registry.company.local')
+        .post('/-/npm/v1/security/advisories/bulk')
+        .replyWithError('getaddrinfo ENOTFOUND');
+
+      const response = await supertest(createApp({ registry: 'https://registry.company.local' }))
+        .post('/-/npm/v1/security/advisories/bulk')
+        .send(bulkRequest)
+        .expect(502);
+
+      expect(response.body.error).toEqual(AUDIT_ERROR.UNREACHABLE);
+    });
+
+    test('should fall back to the advisory database with an unreachable registry', async () => {
+      nock('https://registry.company.local')
+        .post('/-/npm/v1/security/advisories/bulk')
+        .replyWithError('getaddrinfo ENOTFOUND');
+
+      const response = await supertest(
+        createApp({ registry: 'https://registry.company.local', advisories })
+      )
+        .post('/-/npm/v1/security/advisories/bulk')
+        .send(bulkRequest)
+        .expect(200);
+
+      expect(response.body.jquery[0].id).toEqual(1518);
+    });
+
+    test('should answer the quick audit offline', async () => {
+      const response = await supertest(createApp({ offline: true, advisories }))
+        .post('/-/npm/v1/security/audits/quick')
+        .send({ name: 'app', version: '1.0.0', dependencies: { jquery: { version: '3.4.1' } } })
+        .expect(200);
+
+      expect(Object.keys(response.body.advisories)).toEqual(['1518']);
+      expect(response.body.metadata.vulnerabilities.moderate).toEqual(1);
+    });
+
+    test('should report a missing advisory database offline', async () => {
+      const response = await supertest(
+        createApp({ offline: true, advisories: path.join(__dirname, 'fixtures/not-found.json') })
+      )
+        .post('/-/npm/v1/security/advisories/bulk')
+        .send(bulkRequest)
+        .expect(500);
+
+      expect(response.body.error).toEqual(AUDIT_ERROR.DATABASE_NOT_AVAILABLE);
+    });
+  });
 });
@@ -7,7 +7,11 @@ import {
   Logger,
   PackageAccess,
   PluginOptions,
+  ProfileCallback,
   RemoteUser,
+  TwoFactorAuth,
+  TwoFactorCallback,
+  UserProfile,
 } from '@verdaccio/types';
 
 import { UserMemory, Users, VerdaccioMemoryConfig } from './types';
@@ -95,6 +99,50 @@ export default class Memory implements IPluginAuth<VerdaccioMemoryConfig> {
     }
   }
 
+  public readTwoFactor(username: string, cb: TwoFactorCallback): void {
+    const user: UserMemory = this._users[username];
+    debug('read two-factor authentication for %o', username);
+
+    cb(null, user?.tfa ?? null);
+  }
+
+  public saveTwoFactor(username: string, tfa: TwoFactorAuth | null, cb: Callback): void {
+    const user: UserMemory = this._users[username];
+
+    if (!user) {
+      debug('save two-factor authentication user %o not found', username);
+      return cb(errorUtils.getNotFound('user not found'));
+    }
+
+    if (tfa) {
+      user.tfa = tfa;
+    } else {
+      delete user.tfa;
+    }
+    debug('two-factor authentication saved for %o', username);
+    cb(null, true);
+  }
+
+  public readProfile(username: string, cb: ProfileCallback): void {
+    const user: UserMemory = this._users[username];
+    debug('read profile for %o', username);
+
+    cb(null, user?.profile ?? null);
+  }
+
+  public saveProfile(username: string, profile: UserProfile, cb: Callback): void {
+    const user: UserMemory = this._users[username];
+
+    if (!user) {
+      debug('save profile user %o not found', username);
+      return cb(errorUtils.getNotFound('user not found'));
+    }
+
+    user.profile = profile;
+    debug('profile saved for %o', username);
+    cb(null, true);
+  }
+
   public allow_access(user: RemoteUser, pkg: PackageAccess, cb: Callback): void {
     debug('allow access for %o', user);
     if (pkg?.access?.includes('$all') || pkg?.access?.includes('$anonymous')) {
@@ -1,8 +1,10 @@
-import { Config } from '@verdaccio/types';
+import { Config, TwoFactorAuth, UserProfile } from '@verdaccio/types';
 
 export interface UserMemory {
   name: string;
   password: string;
+  tfa?: TwoFactorAuth;
+  profile?: UserProfile;
 }
 
 export interface Users {
@@ -250,4 +250,83 @@ describe('Memory', function () {
       });
     });
   });
+
+  describe('#twoFactor', function () {
+    const tfa = { secret: 'SECRET', mode: 'auth-and-writes', pending: true, recoveryCodes: [] };
+
+    test('should save and read two-factor authentication', function (done) {
+      auth.adduser('test', 'secret', function () {
+        auth.saveTwoFactor('test', tfa, function (err) {
+          expect(err).toBeNull();
+          auth.readTwoFactor('test', function (err, data) {
+            expect(err).toBeNull();
+            expect(data).toEqual(tfa);
+            done();
+          });
+        });
+      });
+    });
+
+    test('should disable two-factor authentication', function (done) {
+      auth.adduser('test', 'secret', function () {
+        auth.saveTwoFactor('test', tfa, function () {
+          auth.saveTwoFactor('test', null, function (err) {
+            expect(err).toBeNull();
+            auth.readTwoFactor('test', function (err, data) {
+              expect(data).toBeNull();
+              done();
+            });
+          });
+        });
+      });
+    });
+
+    test('should fail save two-factor authentication with user not found', function (done) {
+      auth.saveTwoFactor('nonexistent', tfa, function (err) {
+        expect(err).not.toBeNull();
+        expect(err.message).toEqual('user not found');
+        done();
+      });
+    });
+  });
+
+  describe('#profile', function () {
+    const profile = {
+      email: 'test@domain.com',
+      fullname: 'Test User',
+      created: '2021-01-01T00:00:00.000Z',
+      updated: '2021-01-01T00:00:00.000Z',
+    };
+
+    test('should return null for a user without profile', function (done) {
+      auth.adduser('test', 'secret', function () {
+        auth.readProfile('test', function (err, data) {
+          expect(err).toBeNull();
+          expect(data).toBeNull();
+          done();
+        });
+      });
+    });
+
+    test('should save and read a profile', function (done) {
+      auth.adduser('test', 'secret', function () {
+        auth.saveProfile('test', profile, function (err) {
+          expect(err).toBeNull();
+          auth.readProfile('test', function (err, data) {
+            expect(err).toBeNull();
+            expect(data).toEqual(profile);
+            done();
+          });
+        });
+      });
+    });
+
+    test('should fail save profile with user not found', function (done) {
+      auth.saveProfile('nonexistent', profile, function (err) {
+        expect(err).not.toBeNull();
+        expect(err.message).toEqual('user not found');
+        done();
+      });
+    });
+  });
 });
@@ -3,7 +3,14 @@ import { HttpError } from 'http-errors';
 
 import { HEADERS, HTTP_STATUS, VerdaccioError } from '@verdaccio/core';
 import { ReadTarball, UploadTarball } from '@verdaccio/streams';
-import { Callback, CallbackAction, ILocalPackageManager, Logger, Package } from '@verdaccio/types';
+import {
+  Callback,
+  CallbackAction,
+  ILocalPackageManager,
+  Logger,
+  Package,
+  PackageFile,
+} from '@verdaccio/types';
 
 import addTrailingSlash from './addTrailingSlash';
 import { S3Config } from './config';
@@ -157,6 +164,42 @@ export default class S3PackageManager implements ILocalPackageManager {
     });
   }
 
+  public async listFiles(): Promise<PackageFile[]> {
+    this.logger.debug(
+      { packageName: this.packageName },
+      's3: [S3PackageManager listFiles init] packageName @{packageName}'
+    );
+    const prefix = addTrailingSlash(this.packagePath);
+    const files: PackageFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const data = await new Promise<S3.ListObjectsV2Output>((resolve, reject) => {
+        this.s3.listObjectsV2(
+          {
+            Bucket: this.config.bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          },
+          (err, data) => (err ? reject(convertS3Error(err)) : resolve(data))
+        );
+      });
+      for (const s3Object of data.Contents ?? []) {
+        const name = (s3Object.Key as string).slice(prefix.length);
+        // the objects in nested prefixes are not files of this package
+        if (name !== '' && name.includes('/') === false) {
+          files.push({
+            name,
+            modified: s3Object.LastModified?.getTime() ?? 0,
+            size: s3Object.Size ?? 0,
+          });
+        }
+      }
+      continuationToken = data.IsTruncated ? data.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
   public removePackage(): Promise<void> {
     return new Promise((resolve, reject) => {
       deleteKeyPrefix(
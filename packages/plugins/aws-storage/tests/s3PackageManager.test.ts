@@ -196,6 +196,18 @@ describe.skip('S3 package manager', () => {
     });
   });
 
+  describe('listFiles() group', () => {
+    test('listFiles() success', (done) => {
+      const packageManager = new S3PackageManager(config, 'listFiles', logger);
+      packageManager.createPackage('listFiles', pkg, async (err) => {
+        expect(err).toBeNull();
+        const files = await packageManager.listFiles();
+        expect(files.map(({ name }) => name)).toEqual([pkgFileName]);
+        done();
+      });
+    });
+  });
+
   describe('removePackage() group', () => {
     test('removePackage() success', (done) => {
       const packageManager = new S3PackageManager(config, '_toDelete', logger);
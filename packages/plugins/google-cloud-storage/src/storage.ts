@@ -10,6 +10,7 @@ import {
   IPackageStorageManager,
   Logger,
   Package,
+  PackageFile,
   PackageTransformer,
   ReadPackageCallback,
   StorageUpdateCallback,
@@ -128,6 +129,30 @@ class GoogleCloudStorageHandler implements IPackageStorageManager {
     });
   }
 
+  public async listFiles(): Promise<PackageFile[]> {
+    const prefix = `${this.name}/`;
+    this.logger.debug({ prefix }, 'gcloud: listing the files of @{prefix}');
+    try {
+      const [files] = await this.helper.getBucket().getFiles({ prefix });
+      return (
+        files
+          // the files in nested folders are not files of this package
+          .filter((file) => file.name.slice(prefix.length).includes('/') === false)
+          .map((file) => ({
+            name: file.name.slice(prefix.length),
+            modified: Date.parse(file.metadata.updated),
+            size: Number(file.metadata.size),
+          }))
+      );
+    } catch (err: any) {
+      this.logger.error(
+        { prefix, err: err.message },
+        'gcloud: listing the files of @{prefix} has failed err: @{err}'
+      );
+      throw errorUtils.getInternalError(err.message);
+    }
+  }
+
   public removePackage(): Promise<void> {
     // remove all files from storage
     return new Promise((resolve, reject) => {
@@ -2,17 +2,29 @@ import fs from 'fs';
 import Path from 'path';
 
 import { unlockFile } from '@verdaccio/file-locking';
-import { Callback, Config, IPluginAuth, Logger, PluginOptions } from '@verdaccio/types';
+import {
+  Callback,
+  Config,
+  IPluginAuth,
+  Logger,
+  PluginOptions,
+  TwoFactorAuth,
+  UserProfile,
+} from '@verdaccio/types';
 
 import {
   HtpasswdHashAlgorithm,
   HtpasswdHashConfig,
   addUserToHTPasswd,
   changePasswordToHTPasswd,
+  getProfilePath,
+  getTwoFactorPath,
   lockAndRead,
   parseHTPasswd,
+  parseSidecar,
   sanityCheck,
   verifyPassword,
+  writeFileAndRename,
 } from './utils';
 
 export type HTPasswdConfig = {
@@ -287,4 +299,126 @@ export default class HTPasswd implements IPluginAuth<HTPasswdConfig> {
       }
     });
   }
+
+  /**
+   * readTwoFactor - read the two-factor authentication of a user.
+   * @param {string} user
+   * @param {function} cb
+   * @returns {void}
+   */
+  public readTwoFactor(user: string, cb: Callback): void {
+    this._readSidecarEntry<TwoFactorAuth>(getTwoFactorPath(this.path), user, cb);
+  }
+
+  /**
+   * saveTwoFactor - save or remove (null) the two-factor authentication of a user.
+   * @param {string} user
+   * @param {TwoFactorAuth|null} tfa
+   * @param {function} cb
+   * @returns {void}
+   */
+  public saveTwoFactor(user: string, tfa: TwoFactorAuth | null, cb: Callback): void {
+    this._saveSidecarEntry<TwoFactorAuth>(getTwoFactorPath(this.path), user, tfa, cb);
+  }
+
+  /**
+   * readProfile - read the profile of a user.
+   * @param {string} user
+   * @param {function} cb
+   * @returns {void}
+   */
+  public readProfile(user: string, cb: Callback): void {
+    this._readSidecarEntry<UserProfile>(getProfilePath(this.path), user, cb);
+  }
+
+  /**
+   * saveProfile - save the profile of a user.
+   * @param {string} user
+   * @param {UserProfile} profile
+   * @param {function} cb
+   * @returns {void}
+   */
+  public saveProfile(user: string, profile: UserProfile, cb: Callback): void {
+    this._saveSidecarEntry<UserProfile>(getProfilePath(this.path), user, profile, cb);
+  }
+
+  private _readSidecarEntry<T>(pathSidecar: string, user: string, cb: Callback): void {
+    fs.readFile(pathSidecar, 'utf8', (err, body) => {
+      if (err) {
+        return cb(err.code === 'ENOENT' ? null : err, null);
+      }
+
+      try {
+        return cb(null, parseSidecar<T>(body)[user] ?? null);
+      } catch (err: any) {
+        return cb(err);
+      }
+    });
+  }
+
+  /**
+   * _saveSidecarEntry - save or remove (null) the entry of a user in a file next to htpasswd.
+   * 1. create the file empty if missing, only an existing file can be locked
+   * 2. lock file for writing
+   * 3. update the user entry
+   * 4. write a temporary file readable only by the owner and rename it
+   * 5. unlock file
+   */
+  private _saveSidecarEntry<T>(
+    pathSidecar: string,
+    user: string,
+    value: T | null,
+    realCb: Callback
+  ): void {
+    fs.writeFile(pathSidecar, '', { mode: 0o600, flag: 'wx' }, (err) => {
+      if (err && err.code !== 'EEXIST') {
+        return realCb(err, false);
+      }
+
+      this._updateSidecarEntry<T>(pathSidecar, user, value, realCb);
+    });
+  }
+
+  private _updateSidecarEntry<T>(
+    pathSidecar: string,
+    user: string,
+    value: T | null,
+    realCb: Callback
+  ): void {
+    lockAndRead(pathSidecar, (err, res): void => {
+      let locked = false;
+
+      // callback that cleans up lock first
+      const cb = (err): void => {
+        if (locked) {
+          unlockFile(pathSidecar, () => {
+            // ignore any error from the unlock
+            realCb(err, !err);
+          });
+        } else {
+          realCb(err, !err);
+        }
+      };
+
+      if (err) {
+        return cb(err);
+      }
+      locked = true;
+
+      let entries: Record<string, T>;
+      try {
+        entries = parseSidecar<T>((res || '').toString('utf8'));
+      } catch (err: any) {
+        return cb(err);
+      }
+
+      if (value) {
+        entries[user] = value;
+      } else {
+        delete entries[user];
+      }
+
+      writeFileAndRename(pathSidecar, JSON.stringify(entries, null, 2), cb);
+    });
+  }
 }
@@ -1,6 +1,7 @@
 import md5 from 'apache-md5';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import fs from 'fs';
 import createError, { HttpError } from 'http-errors';
 
 import { API_ERROR, HTTP_STATUS } from '@verdaccio/core';
@@ -221,3 +222,53 @@ export async function changePasswordToHTPasswd(
   lines.splice(userLineIndex, 1, updatedUserLine);
   return lines.join('\n');
 }
+
+/**
+ * getTwoFactorPath - the two-factor secrets are stored next to the htpasswd file.
+ * @param {string} htpasswdPath
+ * @returns {string}
+ */
+export function getTwoFactorPath(htpasswdPath: string): string {
+  return `${htpasswdPath}.tfa.json`;
+}
+
+/**
+ * getProfilePath - the user profiles are stored next to the htpasswd file.
+ * @param {string} htpasswdPath
+ * @returns {string}
+ */
+export function getProfilePath(htpasswdPath: string): string {
+  return `${htpasswdPath}.profile.json`;
+}
+
+/**
+ * parseSidecar - convert the content of a file stored next to the htpasswd file to object.
+ * @param {string} input
+ * @returns {object} entries by username
+ */
+export function parseSidecar<T>(input: string): Record<string, T> {
+  return input.trim().length === 0 ? {} : JSON.parse(input);
+}
+
+/**
+ * writeFileAndRename - write a file readable only by the owner to a temporary file
+ * renamed over it, the readers never see a file partially written.
+ * @param {string} name
+ * @param {string} body
+ * @param {function} cb
+ */
+export function writeFileAndRename(name: string, body: string, cb: Callback): void {
+  const tmp = `${name}.tmp${String(Math.random()).slice(2)}`;
+  fs.writeFile(tmp, body, { mode: 0o600 }, (err) => {
+    if (err) {
+      return cb(err);
+    }
+
+    fs.rename(tmp, name, (err) => {
+      if (err) {
+        fs.unlink(tmp, () => {});
+      }
+      cb(err || null);
+    });
+  });
+}
@@ -6,6 +6,8 @@ import crypto from 'crypto';
 // @ts-ignore: Module has no default export
 import fs from 'fs';
 import MockDate from 'mockdate';
+import os from 'os';
+import path from 'path';
 
 import { PluginOptions } from '@verdaccio/types';
 
@@ -13,6 +15,8 @@ import HTPasswd, { DEFAULT_SLOW_VERIFY_MS, HTPasswdConfig } from '../src/htpassw
 import { HtpasswdHashAlgorithm } from '../src/utils';
 import Config from './__mocks__/Config';
 
+const realWriteFile = fs.writeFile;
+
 const options = {
   logger: { warn: jest.fn() },
   config: new Config(),
@@ -341,4 +345,102 @@ describe('HTPasswd', () => {
     };
     wrapper.changePassword('username', 'password', 'newPassword', callback);
   });
+
+  describe('twoFactor', () => {
+    const tfa = { secret: 'SECRET', mode: 'auth-only', pending: false, recoveryCodes: [] };
+    let tfaWrapper;
+    let file;
+
+    beforeEach(() => {
+      fs.writeFile = realWriteFile;
+      file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'htpasswd-')), 'htpasswd');
+      tfaWrapper = new HTPasswd({ ...config, file }, options);
+    });
+
+    test('readTwoFactor - it should return null without two-factor file', (done) => {
+      tfaWrapper.readTwoFactor('username', (err, data) => {
+        expect(err).toBeNull();
+        expect(data).toBeNull();
+        done();
+      });
+    });
+
+    test('saveTwoFactor - it should save and remove the two-factor of a user', (done) => {
+      tfaWrapper.saveTwoFactor('username', tfa, (err, isSuccess) => {
+        expect(err).toBeNull();
+        expect(isSuccess).toBeTruthy();
+        expect(fs.statSync(`${file}.tfa.json`).mode & 0o777).toEqual(0o600);
+        tfaWrapper.readTwoFactor('username', (err, data) => {
+          expect(data).toEqual(tfa);
+          tfaWrapper.saveTwoFactor('username', null, (err) => {
+            expect(err).toBeNull();
+            tfaWrapper.readTwoFactor('username', (err, data) => {
+              expect(data).toBeNull();
+              done();
+            });
+          });
+        });
+      });
+    });
+
+    test('saveTwoFactor - it should lock the first writes of the two-factor file', (done) => {
+      let saved = 0;
+      const callback = (err): void => {
+        expect(err).toBeNull();
+        if (++saved < 2) {
+          return;
+        }
+        expect(Object.keys(JSON.parse(fs.readFileSync(`${file}.tfa.json`, 'utf8')))).toEqual(
+          expect.arrayContaining(['username', 'other'])
+        );
+        // no temporary file left behind
+        expect(fs.readdirSync(path.dirname(file))).toEqual(['htpasswd.tfa.json']);
+        done();
+      };
+      tfaWrapper.saveTwoFactor('username', tfa, callback);
+      tfaWrapper.saveTwoFactor('other', tfa, callback);
+    });
+  });
+
+  describe('profile', () => {
+    const profile = {
+      email: 'user@domain.com',
+      fullname: 'User Name',
+      created: '2021-01-01T00:00:00.000Z',
+      updated: '2021-01-01T00:00:00.000Z',
+    };
+    let profileWrapper;
+    let file;
+
+    beforeEach(() => {
+      fs.writeFile = realWriteFile;
+      file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'htpasswd-')), 'htpasswd');
+      profileWrapper = new HTPasswd({ ...config, file }, options);
+    });
+
+    test('readProfile - it should return null without profile file', (done) => {
+      profileWrapper.readProfile('username', (err, data) => {
+        expect(err).toBeNull();
+        expect(data).toBeNull();
+        done();
+      });
+    });
+
+    test('saveProfile - it should save the profile of a user next to htpasswd', (done) => {
+      profileWrapper.saveProfile('username', profile, (err, isSuccess) => {
+        expect(err).toBeNull();
+        expect(isSuccess).toBeTruthy();
+        expect(JSON.parse(fs.readFileSync(`${file}.profile.json`, 'utf8'))).toEqual({
+          username: profile,
+        });
+        profileWrapper.readProfile('username', (err, data) => {
+          expect(data).toEqual(profile);
+          profileWrapper.readProfile('other', (err, data) => {
+            expect(data).toBeNull();
+            done();
+          });
+        });
+      });
+    });
+  });
 });
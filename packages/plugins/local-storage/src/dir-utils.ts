@@ -4,6 +4,8 @@ import { join } from 'path';
 
 import { searchUtils, validatioUtils } from '@verdaccio/core';
 
+import { journalFileName } from './journal';
+
 const debug = buildDebug('verdaccio:plugin:local-storage:utils');
 
 /**
@@ -114,3 +116,31 @@ export async function searchOnStorage(
 
   return results;
 }
+
+/**
+ * Search the packages with a journal on the storage, the folders without journal are
+ * not visited. See `searchOnStorage` for the layout of the storage.
+ * @return the name of the packages and the absolute path of their folder
+ */
+export async function searchJournals(
+  storagePath: string,
+  storages: Map<string, string>
+): Promise<{ name: string; path: string }[]> {
+  const storageFolders = Array.from(storages.keys());
+  // storage folder, scope, package and journal
+  const journals: string[] = await globby(`**/${journalFileName}`, {
+    cwd: storagePath,
+    deep: 4,
+    dot: true,
+    onlyFiles: true,
+    followSymbolicLinks: true,
+  });
+  debug('journals found %o', journals.length);
+
+  return journals.map((journal) => {
+    const folders = journal.split('/').slice(0, -1);
+    const name = storageFolders.includes(folders[0]) ? folders.slice(1) : folders;
+
+    return { name: name.join('/'), path: join(storagePath, ...folders) };
+  });
+}
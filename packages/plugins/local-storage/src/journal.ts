@@ -0,0 +1,116 @@
+import buildDebug from 'debug';
+import path from 'path';
+
+import { readFilePromise, renamePromise, unlinkPromise, writeFilePromise } from './fs';
+
+const debug = buildDebug('verdaccio:plugin:local-storage:journal');
+
+export const journalFileName = '.journal.json';
+
+/**
+ * - pending: the temporary file is being written, it is removed on recovery
+ * - written: the temporary file is complete, the rename is replayed on recovery
+ */
+export type JournalState = 'pending' | 'written';
+
+export interface JournalEntry {
+  // file of the package being written, eg: package.json or foo-1.0.0.tgz
+  file: string;
+  // temporary file renamed to `file` once complete
+  temp: string;
+  state: JournalState;
+}
+
+export interface JournalRecovery {
+  replayed: string[];
+  rolledBack: string[];
+}
+
+// the updates of a journal are serialized, a package may be written concurrently
+const queues = new Map<string, Promise<void>>();
+
+const isSameEntry = (a: Pick<JournalEntry, 'file' | 'temp'>, b: JournalEntry): boolean =>
+  a.file === b.file && a.temp === b.temp;
+
+/**
+ * Write-ahead journal of a package folder, it records the writes in progress so the
+ * ones interrupted by a crash can be completed or undone.
+ */
+export default class Journal {
+  public readonly path: string;
+
+  public constructor(packagePath: string) {
+    this.path = path.join(packagePath, journalFileName);
+  }
+
+  public async read(): Promise<JournalEntry[]> {
+    try {
+      return JSON.parse(await readFilePromise(this.path)).entries ?? [];
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  public begin(entry: Pick<JournalEntry, 'file' | 'temp'>): Promise<void> {
+    return this.update((entries) => [...entries, { ...entry, state: 'pending' }]);
+  }
+
+  public commit(entry: Pick<JournalEntry, 'file' | 'temp'>): Promise<void> {
+    return this.update((entries) =>
+      entries.map((current) =>
+        isSameEntry(entry, current) ? { ...current, state: 'written' } : current
+      )
+    );
+  }
+
+  /**
+   * Remove the entries of the writes complete and consistent.
+   */
+  public remove(predicate: (entry: JournalEntry) => boolean): Promise<void> {
+    return this.update((entries) => entries.filter((entry) => !predicate(entry)));
+  }
+
+  public end(entry: Pick<JournalEntry, 'file' | 'temp'>): Promise<void> {
+    return this.remove((current) => isSameEntry(entry, current));
+  }
+
+  public clear(): Promise<void> {
+    return this.update(() => []);
+  }
+
+  private update(change: (entries: JournalEntry[]) => JournalEntry[]): Promise<void> {
+    const previous = queues.get(this.path) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(async () => this.write(change(await this.read())));
+    queues.set(this.path, next);
+    // the queue of a package is dropped once idle
+    next
+      .catch(() => {})
+      .then(() => {
+        if (queues.get(this.path) === next) {
+          queues.delete(this.path);
+        }
+      });
+
+    return next;
+  }
+
+  private async write(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      debug('journal %o is empty', this.path);
+      await unlinkPromise(this.path).catch((err) => {
+        if (err.code !== 'ENOENT') {
+          throw err;
+        }
+      });
+      return;
+    }
+
+    // the journal itself is replaced atomically
+    const temp = `${this.path}.tmp`;
+    await writeFilePromise(temp, JSON.stringify({ entries }));
+    await renamePromise(temp, this.path);
+  }
+}
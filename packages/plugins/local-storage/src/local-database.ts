@@ -7,7 +7,7 @@ import { errorUtils, fileUtils, pluginUtils, searchUtils } from '@verdaccio/core
 import { Config, IPackageStorage, LocalStorage, Logger } from '@verdaccio/types';
 import { getMatchedPackagesSpec } from '@verdaccio/utils';
 
-import { searchOnStorage } from './dir-utils';
+import { searchJournals, searchOnStorage } from './dir-utils';
 import { mkdirPromise, writeFilePromise } from './fs';
 import LocalDriver, { noSuchFile } from './local-fs';
 import { loadPrivatePackages } from './pkg-utils';
@@ -49,6 +49,64 @@ class LocalDatabase extends TokenActions implements IPluginStorage {
     await this._sync();
   }
 
+  /**
+   * The writes of the packages interrupted by a crash, or in progress.
+   */
+  public async getJournals(): Promise<pluginUtils.StorageJournal[]> {
+    const journals: pluginUtils.StorageJournal[] = [];
+    for (const { name, path: packagePath } of await this.findJournals()) {
+      const files = await new LocalDriver(packagePath, this.logger).getJournal();
+      if (files.length > 0) {
+        journals.push({ name, files });
+      }
+    }
+
+    return journals;
+  }
+
+  /**
+   * Recover the writes of the packages interrupted by a crash, see `LocalDriver.recoverJournal`.
+   * The writes in progress are undone, it is called on the start of the server only.
+   */
+  public async recoverJournals(): Promise<pluginUtils.StorageRecovery[]> {
+    const recoveries: pluginUtils.StorageRecovery[] = [];
+    for (const { name, path: packagePath } of await this.findJournals()) {
+      try {
+        const { replayed, rolledBack } = await new LocalDriver(
+          packagePath,
+          this.logger
+        ).recoverJournal();
+        if (replayed.length > 0 || rolledBack.length > 0) {
+          this.logger.warn(
+            {
+              name,
+              replayed: replayed.join(', ') || 'none',
+              rolledBack: rolledBack.join(', ') || 'none',
+            },
+            'interrupted writes of @{name} recovered, replayed: @{replayed}, rolled back: @{rolledBack}'
+          );
+          recoveries.push({ name, replayed, rolledBack });
+        }
+      } catch (err: any) {
+        this.logger.error(
+          { name, err: err.message },
+          'journal of @{name} could not be recovered: @{err}'
+        );
+      }
+    }
+
+    return recoveries;
+  }
+
+  private async findJournals(): Promise<{ name: string; path: string }[]> {
+    try {
+      return await searchJournals(this.getStoragePath(), this.storages);
+    } catch (err: any) {
+      debug('storage not readable, no journals found %o', err.message);
+      return [];
+    }
+  }
+
   public async getSecret(): Promise<string> {
     if (typeof this.data === 'undefined') {
       throw Error('no data secret available');
@@ -7,21 +7,33 @@ import path from 'path';
 import { VerdaccioError, errorUtils } from '@verdaccio/core';
 import { readFile, readFileNext, unlockFile, unlockFileNext } from '@verdaccio/file-locking';
 import { ReadTarball, UploadTarball } from '@verdaccio/streams';
-import { Callback, ILocalPackageManager, IUploadTarball, Logger, Package } from '@verdaccio/types';
+import {
+  Callback,
+  ILocalPackageManager,
+  IUploadTarball,
+  Logger,
+  Package,
+  PackageDownloads,
+  PackageFile,
+} from '@verdaccio/types';
 
 import {
   mkdirPromise,
   readFilePromise,
+  readdirPromise,
   renamePromise,
   rmdirPromise,
+  statPromise,
   unlinkPromise,
   writeFilePromise,
 } from './fs';
+import Journal, { JournalEntry, JournalRecovery } from './journal';
 
 export const fileExist = 'EEXISTS';
 export const noSuchFile = 'ENOENT';
 export const resourceNotAvailable = 'EAGAIN';
 export const packageJSONFileName = 'package.json';
+export const downloadsFileName = '.downloads.json';
 
 const debug = buildDebug('verdaccio:plugin:local-storage:local-fs');
 
@@ -64,7 +76,6 @@ const renameTmp = function (src, dst, _cb): void {
 export async function renameTmpNext(src: string, dst: string): Promise<void> {
   if (process.platform !== 'win32') {
     await renamePromise(src, dst);
-    await unlinkPromise(src);
   } else {
     // TODO: review if this still the cases
     // windows can't remove opened file,
@@ -76,15 +87,78 @@ export async function renameTmpNext(src: string, dst: string): Promise<void> {
   }
 }
 
+const ignoreNoSuchFile = (err: any): void => {
+  if (err.code !== noSuchFile) {
+    throw err;
+  }
+};
+
+/**
+ * A tarball is consistent once the manifest references it, published or cached.
+ */
+const isReferenced = (manifest: Package | null, filename: string): boolean =>
+  _.isNil(manifest?._attachments?.[filename]) === false ||
+  _.isNil(manifest?._distfiles?.[filename]) === false;
+
 export type ILocalFSPackageManager = ILocalPackageManager & { path: string };
 
 export default class LocalFS implements ILocalFSPackageManager {
   public path: string;
   public logger: Logger;
+  private journal: Journal;
 
   public constructor(path: string, logger: Logger) {
     this.path = path;
     this.logger = logger;
+    this.journal = new Journal(path);
+  }
+
+  /**
+   * The files being written, or whose write was interrupted by a crash.
+   */
+  public async getJournal(): Promise<string[]> {
+    return (await this.journal.read()).map(({ file }) => file);
+  }
+
+  /**
+   * Complete or undo the writes interrupted by a crash: the temporary files not
+   * complete are removed, the complete ones are renamed, and the tarballs the manifest
+   * does not reference, eg: a publish stopped before the manifest update, are removed.
+   */
+  public async recoverJournal(): Promise<JournalRecovery> {
+    const recovery: JournalRecovery = { replayed: [], rolledBack: [] };
+    const entries = await this.journal.read();
+    if (entries.length === 0) {
+      return recovery;
+    }
+
+    // the manifest first, the tarballs are checked against it
+    let manifest: Package | null = null;
+    for (const entry of _.sortBy(entries, (entry) => entry.file !== packageJSONFileName)) {
+      const tempPath = this._getStorage(entry.temp);
+      if (entry.state === 'pending') {
+        await unlinkPromise(tempPath).catch(ignoreNoSuchFile);
+        recovery.rolledBack.push(entry.file);
+        continue;
+      }
+
+      await renamePromise(tempPath, this._getStorage(entry.file)).catch(ignoreNoSuchFile);
+      if (entry.file === packageJSONFileName) {
+        recovery.replayed.push(entry.file);
+        continue;
+      }
+      manifest = manifest ?? (await this.readManifestSafe());
+      if (isReferenced(manifest, entry.file)) {
+        recovery.replayed.push(entry.file);
+      } else {
+        await unlinkPromise(this._getStorage(entry.file)).catch(ignoreNoSuchFile);
+        recovery.rolledBack.push(entry.file);
+      }
+    }
+    await this.journal.clear();
+    debug('journal of %o recovered %o', this.path, recovery);
+
+    return recovery;
   }
 
   /**
@@ -233,9 +307,60 @@ export default class LocalFS implements ILocalFSPackageManager {
     return await unlinkPromise(this._getStorage(packageName));
   }
 
+  public async listFiles(): Promise<PackageFile[]> {
+    debug('list the files of %o', this.path);
+    let entries: fs.Dirent[];
+    try {
+      entries = await readdirPromise(this.path, { withFileTypes: true });
+    } catch (err: any) {
+      if (err.code === noSuchFile) {
+        return [];
+      }
+      throw err;
+    }
+
+    const files: PackageFile[] = [];
+    for (const entry of entries.filter((entry) => entry.isFile())) {
+      const stats = await statPromise(this._getStorage(entry.name));
+      files.push({ name: entry.name, modified: stats.mtimeMs, size: stats.size });
+    }
+
+    return files;
+  }
+
+  public async readDownloads(): Promise<PackageDownloads> {
+    debug('read the downloads of %o', this.path);
+    try {
+      return JSON.parse(await readFilePromise(this._getStorage(downloadsFileName)));
+    } catch (err: any) {
+      if (err.code === noSuchFile) {
+        return {};
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * The downloads are written apart from the manifest, the manifest and its revision
+   * do not change on every save.
+   */
+  public async saveDownloads(downloads: PackageDownloads): Promise<void> {
+    debug('save the downloads of %o', this.path);
+    const dest = this._getStorage(downloadsFileName);
+    const tempFilePath = tempFile(dest);
+    try {
+      await writeFilePromise(tempFilePath, JSON.stringify(downloads));
+      await renameTmpNext(tempFilePath, dest);
+    } catch (err: any) {
+      await unlinkPromise(tempFilePath).catch(ignoreNoSuchFile);
+      throw err;
+    }
+  }
+
   public async removePackage(): Promise<void> {
     debug('remove a package folder %o', this.path);
 
+    await unlinkPromise(this._getStorage(downloadsFileName)).catch(ignoreNoSuchFile);
     await rmdirPromise(this._getStorage('.'));
   }
 
@@ -294,15 +419,14 @@ export default class LocalFS implements ILocalFSPackageManager {
       });
   }
 
+  /**
+   * Write a tarball on a temporary file renamed once complete. The write is recorded
+   * on the journal until the manifest references the tarball.
+   */
   public writeTarball(name: string): IUploadTarball {
     const uploadStream = new UploadTarball({});
     debug('write a tarball for a package %o', name);
 
-    let _ended = 0;
-    uploadStream.on('end', function () {
-      _ended = 1;
-    });
-
     const pathName: string = this._getStorage(name);
 
     fs.access(pathName, (fileNotFound) => {
@@ -314,58 +438,109 @@ export default class LocalFS implements ILocalFSPackageManager {
           this.path,
           `${name}.tmp-${String(Math.random()).replace(/^0\./, '')}`
         );
-        debug('write a temporal name %o', temporalName);
-        const file = fs.createWriteStream(temporalName);
-        const removeTempFile = (): void => fs.unlink(temporalName, () => {});
-        let opened = false;
-        uploadStream.pipe(file);
-
-        uploadStream.done = function (): void {
-          const onend = function (): void {
-            file.on('close', function () {
-              renameTmp(temporalName, pathName, function (err) {
-                if (err) {
-                  uploadStream.emit('error', err);
-                } else {
-                  uploadStream.emit('success');
-                }
-              });
-            });
-            file.end();
-          };
-          if (_ended) {
-            onend();
-          } else {
-            uploadStream.on('end', onend);
-          }
-        };
-
-        uploadStream.abort = function (): void {
-          if (opened) {
-            opened = false;
-            file.on('close', function () {
-              removeTempFile();
-            });
-          } else {
-            // if the file does not recieve any byte never is opened and has to be removed anyway.
-            removeTempFile();
+        const entry = { file: name, temp: path.basename(temporalName) };
+        this.journal.begin(entry).then(
+          () => this._writeTarball(uploadStream, pathName, temporalName, entry),
+          (err) => uploadStream.emit('error', err)
+        );
+      }
+    });
+
+    return uploadStream;
+  }
+
+  private _writeTarball(
+    uploadStream: IUploadTarball,
+    pathName: string,
+    temporalName: string,
+    entry: Pick<JournalEntry, 'file' | 'temp'>
+  ): void {
+    let _ended = 0;
+    uploadStream.on('end', function () {
+      _ended = 1;
+    });
+
+    debug('write a temporal name %o', temporalName);
+    const file = fs.createWriteStream(temporalName);
+    const removeTempFile = (): void => {
+      fs.unlink(temporalName, () => {});
+      this.journal.end(entry).catch(() => {});
+    };
+    let opened = false;
+    uploadStream.pipe(file);
+
+    const rename = (): void => {
+      this.journal
+        .commit(entry)
+        .then(
+          () =>
+            new Promise<void>((resolve, reject) => {
+              renameTmp(temporalName, pathName, (err) => (err ? reject(err) : resolve()));
+            })
+        )
+        .then(() => this.settleTarball(entry))
+        .then(
+          () => uploadStream.emit('success'),
+          (err) => {
+            this.journal.end(entry).catch(() => {});
+            uploadStream.emit('error', err);
           }
-          file.end();
-        };
+        );
+    };
 
-        file.on('open', function () {
-          opened = true;
-          // re-emitting open because it's handled in storage.js
-          uploadStream.emit('open');
-        });
+    uploadStream.done = function (): void {
+      const onend = function (): void {
+        file.on('close', rename);
+        file.end();
+      };
+      if (_ended) {
+        onend();
+      } else {
+        uploadStream.on('end', onend);
+      }
+    };
 
-        file.on('error', function (err) {
-          uploadStream.emit('error', err);
+    uploadStream.abort = function (): void {
+      if (opened) {
+        opened = false;
+        file.on('close', function () {
+          removeTempFile();
         });
+      } else {
+        // if the file does not recieve any byte never is opened and has to be removed anyway.
+        removeTempFile();
       }
+      file.end();
+    };
+
+    file.on('open', function () {
+      opened = true;
+      // re-emitting open because it's handled in storage.js
+      uploadStream.emit('open');
     });
 
-    return uploadStream;
+    file.on('error', function (err) {
+      uploadStream.emit('error', err);
+    });
+  }
+
+  /**
+   * The entry of a tarball already referenced, eg: cached from an uplink, is done,
+   * the one of a publish is done on the manifest update.
+   */
+  private async settleTarball(entry: Pick<JournalEntry, 'file' | 'temp'>): Promise<void> {
+    if (isReferenced(await this.readManifestSafe(), entry.file)) {
+      await this.journal.end(entry);
+    }
+  }
+
+  private async readManifestSafe(): Promise<Package | null> {
+    try {
+      return JSON.parse(await readFilePromise(this._getStorage(packageJSONFileName)));
+    } catch (err: any) {
+      debug('manifest of %o not readable: %o', this.path, err.message);
+      return null;
+    }
   }
 
   public readTarball(name: string): ReadTarball {
@@ -440,46 +615,38 @@ export default class LocalFS implements ILocalFSPackageManager {
   }
 
   private _writeFile(dest: string, data: string, cb: Callback): void {
-    const createTempFile = (cb): void => {
-      const tempFilePath = tempFile(dest);
-
-      fs.writeFile(tempFilePath, data, (err) => {
-        if (err) {
-          debug('error on write the file: %o', dest);
-          return cb(err);
-        }
-
-        debug('creating a new file:: %o', dest);
-        renameTmp(tempFilePath, dest, cb);
-      });
-    };
-
-    createTempFile((err) => {
-      if (err && err.code === noSuchFile) {
-        fs.mkdir(path.dirname(dest), { recursive: true }, function (err) {
-          if (err) {
-            return cb(err);
-          }
-          createTempFile(cb);
-        });
-      } else {
-        cb(err);
-      }
-    });
+    this.writeFileNext(dest, data).then(
+      () => cb(null),
+      (err) => cb(err)
+    );
   }
 
   private async writeTempFileAndRename(dest: string, fileContent: string): Promise<any> {
     const tempFilePath = tempFile(dest);
+    const entry = { file: path.basename(dest), temp: path.basename(tempFilePath) };
+    await this.journal.begin(entry);
     try {
       // write file on temp location
       await writeFilePromise(tempFilePath, fileContent);
+      await this.journal.commit(entry);
       debug('creating a new file:: %o', dest);
       // rename tmp file to original
       await renameTmpNext(tempFilePath, dest);
     } catch (err: any) {
       debug('error on write the file: %o', dest);
+      await this.journal.end(entry);
       throw err;
     }
+
+    // the tarballs written before are consistent once the manifest references them
+    const getManifest = _.once(() => JSON.parse(fileContent));
+    await this.journal.remove(
+      (current) =>
+        (current.file === entry.file && current.temp === entry.temp) ||
+        (current.state === 'written' &&
+          current.file !== packageJSONFileName &&
+          isReferenced(getManifest(), current.file))
+    );
   }
 
   private async writeFileNext(destiny: string, fileContent: string): Promise<void> {
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { dirSync } from 'tmp-promise';
+
+import { Logger, Package } from '@verdaccio/types';
+
+import Journal, { journalFileName } from '../src/journal';
+import LocalDatabase from '../src/local-database';
+import LocalDriver from '../src/local-fs';
+
+const logger: Logger = {
+  error: jest.fn(),
+  info: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn(),
+  warn: jest.fn(),
+  http: jest.fn(),
+  trace: jest.fn(),
+};
+
+const manifest = (attachments: string[]): Package =>
+  ({
+    name: 'journal-package',
+    versions: {},
+    'dist-tags': {},
+    _attachments: Object.fromEntries(attachments.map((file) => [file, { shasum: 'sha' }])),
+    _distfiles: {},
+    _uplinks: {},
+    _rev: '',
+  } as unknown as Package);
+
+describe('Journal', () => {
+  let packagePath: string;
+
+  beforeEach(() => {
+    const tmpFolder = dirSync({ unsafeCleanup: true });
+    packagePath = path.join(tmpFolder.name, 'journal-package');
+    fs.mkdirSync(packagePath);
+  });
+
+  const writeTarball = (localFs: LocalDriver, name: string) =>
+    new Promise<void>((resolve, reject) => {
+      const stream = localFs.writeTarball(name);
+      stream.on('error', reject);
+      stream.on('success', () => resolve());
+      stream.on('open', () => {
+        stream.done();
+      });
+      stream.end('data');
+    });
+
+  test('should remove the entries once the manifest references the tarball', async () => {
+    const localFs = new LocalDriver(packagePath, logger);
+
+    await writeTarball(localFs, 'foo-1.0.0.tgz');
+    expect(await new Journal(packagePath).read()).toEqual([
+      expect.objectContaining({ file: 'foo-1.0.0.tgz', state: 'written' }),
+    ]);
+    await localFs.savePackageNext('journal-package', manifest(['foo-1.0.0.tgz']));
+
+    expect(fs.existsSync(path.join(packagePath, journalFileName))).toBe(false);
+  });
+
+  test('should remove the temporary files not complete', async () => {
+    const journal = new Journal(packagePath);
+    await journal.begin({ file: 'foo-1.0.0.tgz', temp: 'foo-1.0.0.tgz.tmp-1' });
+    fs.writeFileSync(path.join(packagePath, 'foo-1.0.0.tgz.tmp-1'), 'partial');
+
+    const recovery = await new LocalDriver(packagePath, logger).recoverJournal();
+
+    expect(recovery).toEqual({ replayed: [], rolledBack: ['foo-1.0.0.tgz'] });
+    expect(fs.readdirSync(packagePath)).toEqual([]);
+  });
+
+  test('should replay the manifest and roll back the tarballs it does not reference', async () => {
+    const journal = new Journal(packagePath);
+    for (const [file, temp] of [
+      ['foo-1.0.0.tgz', 'foo-1.0.0.tgz.tmp-1'],
+      ['foo-2.0.0.tgz', 'foo-2.0.0.tgz.tmp-2'],
+      ['foo-3.0.0.tgz', 'foo-3.0.0.tgz.tmp-3'],
+      ['package.json', 'package.json.tmp-4'],
+    ]) {
+      await journal.begin({ file, temp });
+      await journal.commit({ file, temp });
+    }
+    fs.writeFileSync(path.join(packagePath, 'foo-1.0.0.tgz.tmp-1'), 'data');
+    // renamed before the crash
+    fs.writeFileSync(path.join(packagePath, 'foo-2.0.0.tgz'), 'data');
+    fs.writeFileSync(path.join(packagePath, 'foo-3.0.0.tgz'), 'data');
+    fs.writeFileSync(
+      path.join(packagePath, 'package.json.tmp-4'),
+      JSON.stringify(manifest(['foo-1.0.0.tgz', 'foo-2.0.0.tgz']))
+    );
+
+    const recovery = await new LocalDriver(packagePath, logger).recoverJournal();
+
+    expect(recovery).toEqual({
+      replayed: ['package.json', 'foo-1.0.0.tgz', 'foo-2.0.0.tgz'],
+      rolledBack: ['foo-3.0.0.tgz'],
+    });
+    expect(fs.readdirSync(packagePath).sort()).toEqual([
+      'foo-1.0.0.tgz',
+      'foo-2.0.0.tgz',
+      'package.json',
+    ]);
+  });
+
+  describe('LocalDatabase', () => {
+    let storagePath: string;
+    let database: LocalDatabase;
+
+    const interruptWrite = async (name: string, folder = name) => {
+      const folderPath = path.join(storagePath, folder);
+      fs.mkdirSync(folderPath, { recursive: true });
+      await new Journal(folderPath).begin({ file: 'foo-1.0.0.tgz', temp: 'foo-1.0.0.tgz.tmp-1' });
+      fs.writeFileSync(path.join(folderPath, 'foo-1.0.0.tgz.tmp-1'), 'partial');
+    };
+
+    beforeEach(async () => {
+      const tmpFolder = dirSync({ unsafeCleanup: true });
+      storagePath = path.join(tmpFolder.name, 'storage');
+      database = new LocalDatabase(
+        // @ts-expect-error
+        {
+          storage: storagePath,
+          config_path: path.join(tmpFolder.name, 'config.yaml'),
+          packages: { '@scope/*': { storage: 'storage1' } },
+          checkSecretKey: () => 'fooX',
+        },
+        logger
+      );
+      fs.mkdirSync(path.join(storagePath, 'no-journal'), { recursive: true });
+      await interruptWrite('journal-package');
+      await interruptWrite('@scope/journal-package', 'storage1/@scope/journal-package');
+    });
+
+    test('should report the journals without recovering them', async () => {
+      await database.init();
+
+      expect(await database.getJournals()).toEqual(
+        expect.arrayContaining([
+          { name: 'journal-package', files: ['foo-1.0.0.tgz'] },
+          { name: '@scope/journal-package', files: ['foo-1.0.0.tgz'] },
+        ])
+      );
+      expect(fs.readdirSync(path.join(storagePath, 'journal-package'))).toContain(
+        'foo-1.0.0.tgz.tmp-1'
+      );
+    });
+
+    test('should recover the packages with a journal', async () => {
+      await database.init();
+
+      const recoveries = await database.recoverJournals();
+
+      expect(recoveries).toHaveLength(2);
+      expect(recoveries).toEqual(
+        expect.arrayContaining([
+          { name: '@scope/journal-package', replayed: [], rolledBack: ['foo-1.0.0.tgz'] },
+        ])
+      );
+      expect(await database.getJournals()).toEqual([]);
+      expect(fs.readdirSync(path.join(storagePath, 'journal-package'))).toEqual([]);
+    });
+  });
+});
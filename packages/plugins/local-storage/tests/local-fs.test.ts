@@ -41,6 +41,13 @@ describe('Local FS test', () => {
         done();
       });
     });
+
+    test('savePackageNext()', async () => {
+      const localFs = new LocalDriver(path.join(localTempStorage, 'next-package'), logger);
+
+      await localFs.savePackageNext('next-package', pkg as Package);
+      await expect(localFs.readPackageNext('next-package')).resolves.toEqual(pkg);
+    });
   });
 
   describe('readPackage() group', () => {
@@ -111,6 +118,53 @@ describe('Local FS test', () => {
     });
   });
 
+  describe('listFiles() group', () => {
+    test('should list the files of the package', async () => {
+      const localFs = new LocalDriver(path.join(localTempStorage, 'list-files'), logger);
+      await localFs.savePackageNext('list-files', pkg as Package);
+      fs.writeFileSync(path.join(localTempStorage, 'list-files', 'list-files-1.0.0.tgz'), '');
+      fs.mkdirSync(path.join(localTempStorage, 'list-files', 'folder'));
+
+      const files = await localFs.listFiles();
+      expect(files.map(({ name }) => name).sort()).toEqual(['list-files-1.0.0.tgz', pkgFileName]);
+      expect(files[0].modified).toBeGreaterThan(0);
+      expect(files.find(({ name }) => name === pkgFileName)?.size).toBeGreaterThan(0);
+    });
+
+    test('should list no files of a missing package', async () => {
+      const localFs = new LocalDriver(path.join(localTempStorage, 'missing-package'), logger);
+
+      await expect(localFs.listFiles()).resolves.toEqual([]);
+    });
+  });
+
+  describe('readDownloads() and saveDownloads() group', () => {
+    test('should save the downloads apart from the manifest', async () => {
+      const localFs = new LocalDriver(path.join(localTempStorage, 'downloads'), logger);
+      await localFs.savePackageNext('downloads', pkg as Package);
+      const manifest = fs.readFileSync(path.join(localTempStorage, 'downloads', pkgFileName));
+
+      await expect(localFs.readDownloads()).resolves.toEqual({});
+      await localFs.saveDownloads({ '2022-01-31': { '1.0.0': 2 } });
+
+      await expect(localFs.readDownloads()).resolves.toEqual({ '2022-01-31': { '1.0.0': 2 } });
+      expect(fs.readFileSync(path.join(localTempStorage, 'downloads', pkgFileName))).toEqual(
+        manifest
+      );
+    });
+
+    test('should remove the downloads with the package', async () => {
+      const localFs = new LocalDriver(path.join(localTempStorage, 'downloads-removed'), logger);
+      await localFs.savePackageNext('downloads-removed', pkg as Package);
+      await localFs.saveDownloads({ '2022-01-31': { '1.0.0': 2 } });
+      await localFs.deletePackage(pkgFileName);
+
+      await localFs.removePackage();
+
+      expect(fs.existsSync(path.join(localTempStorage, 'downloads-removed'))).toBe(false);
+    });
+  });
+
   describe('removePackage() group', () => {
     beforeEach(() => {
       fs.mkdirSync(path.join(localTempStorage, '_toDelete'), { recursive: true });
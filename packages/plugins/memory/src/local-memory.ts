@@ -1,15 +1,24 @@
 import buildDebug from 'debug';
 
-import { errorUtils } from '@verdaccio/core';
-import { Callback, Config, IPluginStorage, Logger, PluginOptions, Token } from '@verdaccio/types';
-
-import MemoryHandler, { DataHandler } from './memory-handler';
+import {
+  Callback,
+  Config,
+  IPluginStorage,
+  Logger,
+  PluginOptions,
+  Token,
+  TokenFilter,
+} from '@verdaccio/types';
+
+import MemoryHandler, { DataHandler, DownloadsHandler } from './memory-handler';
 
 export type ConfigMemory = Config & { limit?: number };
 export interface MemoryLocalStorage {
   secret: string;
   list: string[];
   files: DataHandler;
+  downloads: DownloadsHandler;
+  tokens: { [user: string]: Token[] };
 }
 
 const debug = buildDebug('verdaccio:plugin:storage:local-memory');
@@ -90,7 +99,7 @@ class LocalMemory implements IPluginStorage<ConfigMemory> {
   }
 
   public getPackageStorage(packageInfo: string): MemoryHandler {
-    return new MemoryHandler(packageInfo, this.data.files, this.logger);
+    return new MemoryHandler(packageInfo, this.data.files, this.logger, this.data.downloads);
   }
 
   private _createEmtpyDatabase(): MemoryLocalStorage {
@@ -99,31 +108,37 @@ class LocalMemory implements IPluginStorage<ConfigMemory> {
     const emptyDatabase = {
       list,
       files,
+      downloads: {},
       secret: '',
+      tokens: {},
     };
 
     return emptyDatabase;
   }
 
-  public saveToken(): Promise<void> {
-    this.logger.warn('[verdaccio/memory][saveToken] save token has not been implemented yet');
+  public saveToken(token: Token): Promise<void> {
+    const { user } = token;
+    debug('save token for %o', user);
+    this.data.tokens[user] = (this.data.tokens[user] || []).concat(token);
 
-    return Promise.reject(errorUtils.getServiceUnavailable('method not implemented'));
+    return Promise.resolve();
   }
 
   public deleteToken(user: string, tokenKey: string): Promise<void> {
-    this.logger.warn(
-      { tokenKey, user },
-      '[verdaccio/memory][deleteToken] delete token has not been implemented yet @{user}'
-    );
+    debug('delete token %o for %o', tokenKey, user);
+    const userTokens = this.data.tokens[user];
+    if (userTokens) {
+      this.data.tokens[user] = userTokens.filter(({ key }) => key !== tokenKey);
+    }
 
-    return Promise.reject(errorUtils.getServiceUnavailable('method not implemented'));
+    return Promise.resolve();
   }
 
-  public readTokens(): Promise<Token[]> {
-    this.logger.warn('[verdaccio/memory][readTokens] read tokens has not been implemented yet ');
+  public readTokens(filter: TokenFilter): Promise<Token[]> {
+    const { user } = filter;
+    debug('read tokens for %o', user);
 
-    return Promise.reject(errorUtils.getServiceUnavailable('method not implemented'));
+    return Promise.resolve(this.data.tokens[user] || []);
   }
 }
 
@@ -11,6 +11,8 @@ import {
   IUploadTarball,
   Logger,
   Package,
+  PackageDownloads,
+  PackageFile,
   PackageTransformer,
   ReadPackageCallback,
   StorageUpdateCallback,
@@ -25,15 +27,26 @@ export type DataHandler = {
   [key: string]: string;
 };
 
+export type DownloadsHandler = {
+  [name: string]: PackageDownloads;
+};
+
 class MemoryHandler implements IPackageStorageManager {
   private data: DataHandler;
+  private downloads: DownloadsHandler;
   private name: string;
   private path: string;
   public logger: Logger;
 
-  public constructor(packageName: string, data: DataHandler, logger: Logger) {
+  public constructor(
+    packageName: string,
+    data: DataHandler,
+    logger: Logger,
+    downloads: DownloadsHandler = {}
+  ) {
     // this is not need it
     this.data = data;
+    this.downloads = downloads;
     this.name = packageName;
     this.logger = logger;
     this.path = `/${packageName}`;
@@ -70,10 +83,45 @@ class MemoryHandler implements IPackageStorageManager {
 
   public deletePackage(pkgName: string) {
     delete this.data[pkgName];
+    // the tarballs are stored on the memory file system
+    return new Promise<void>((resolve) => {
+      fs.unlink(`${this.path}/${pkgName}`, () => resolve());
+    });
+  }
+
+  public listFiles(): Promise<PackageFile[]> {
+    return new Promise((resolve, reject) => {
+      fs.readdir(this.path, (err, names) => {
+        if (err && err.code !== 'ENOENT') {
+          return reject(err);
+        }
+
+        const files: PackageFile[] = ((names ?? []) as string[]).map((name) => {
+          const stats = fs.statSync(`${this.path}/${name}`);
+          return { name, modified: Number(stats.mtimeMs), size: Number(stats.size) };
+        });
+        const manifest = this.data[this.name];
+        if (typeof manifest !== 'undefined') {
+          // the manifests are not files, the time of their last change is unknown
+          files.push({ name: 'package.json', modified: Date.now(), size: manifest.length });
+        }
+        resolve(files);
+      });
+    });
+  }
+
+  public readDownloads(): Promise<PackageDownloads> {
+    return Promise.resolve(this.downloads[this.name] ?? {});
+  }
+
+  public saveDownloads(downloads: PackageDownloads): Promise<void> {
+    debug('save the downloads of %o', this.name);
+    this.downloads[this.name] = downloads;
     return Promise.resolve();
   }
 
   public removePackage() {
+    delete this.downloads[this.name];
     return Promise.resolve();
   }
 
@@ -62,5 +62,18 @@ describe('memory unit test .', () => {
         });
       });
     });
+
+    test('should save, read and delete tokens', async () => {
+      const localMemory: IPluginStorage<ConfigMemory> = new LocalMemory(config, defaultConfig);
+      const token = { user: 'foo', token: 'abc...xyz', key: 'key1', readonly: false, created: 1 };
+
+      await localMemory.saveToken(token);
+      await localMemory.saveToken({ ...token, key: 'key2' });
+      expect(await localMemory.readTokens({ user: 'foo' })).toHaveLength(2);
+      expect(await localMemory.readTokens({ user: 'bar' })).toEqual([]);
+
+      await localMemory.deleteToken('foo', 'key1');
+      expect(await localMemory.readTokens({ user: 'foo' })).toEqual([{ ...token, key: 'key2' }]);
+    });
   });
 });
@@ -341,6 +341,43 @@ describe('writing files', () => {
   });
 });
 
+describe('listing files', () => {
+  test('should list the tarballs and the manifest', (done) => {
+    const localMemory: IPluginStorage<ConfigMemory> = new LocalMemory(config, defaultConfig);
+    const pkgName = 'test-list';
+    const handler = localMemory.getPackageStorage(pkgName);
+
+    handler.createPackage(pkgName, pkgExample, () => {
+      const stream = handler.writeTarball('test-list-1.0.0.tgz');
+      stream.on('open', () => {
+        stream.done();
+        stream.end();
+      });
+      stream.on('success', async () => {
+        const files = await handler.listFiles();
+        expect(files.map(({ name }) => name)).toEqual(['test-list-1.0.0.tgz', 'package.json']);
+        await handler.deletePackage('test-list-1.0.0.tgz');
+        expect((await handler.listFiles()).map(({ name }) => name)).toEqual(['package.json']);
+        done();
+      });
+      stream.write('12345');
+    });
+  });
+});
+
+describe('downloads', () => {
+  test('should save the downloads apart from the manifest', async () => {
+    const localMemory: IPluginStorage<ConfigMemory> = new LocalMemory(config, defaultConfig);
+    const handler = localMemory.getPackageStorage('test-downloads');
+    await handler.saveDownloads?.({ '2022-01-31': { '1.0.0': 2 } });
+
+    await expect(
+      localMemory.getPackageStorage('test-downloads').readDownloads?.()
+    ).resolves.toEqual({ '2022-01-31': { '1.0.0': 2 } });
+    await expect(localMemory.getPackageStorage('other').readDownloads?.()).resolves.toEqual({});
+  });
+});
+
 describe('reading files', () => {
   test('should read a tarball', (done) => {
     const localMemory: IPluginStorage<ConfigMemory> = new LocalMemory(config, defaultConfig);
@@ -16,6 +16,7 @@ import { DeveloperType } from './Developers/DevelopersTitle';
 
 const Engines = loadable(() => import(/* webpackChunkName: "Engines" */ './Engines'));
 const Dist = loadable(() => import(/* webpackChunkName: "Dist" */ './Dist'));
+const Downloads = loadable(() => import(/* webpackChunkName: "Downloads" */ './Downloads'));
 const Install = loadable(() => import(/* webpackChunkName: "Install" */ './Install'));
 const Repository = loadable(() => import(/* webpackChunkName: "Repository" */ './Repository'));
 
@@ -56,6 +57,7 @@ const DetailSidebar: React.FC = () => {
       <Repository />
       <Engines />
       <Dist />
+      <Downloads />
       <Author />
       <Developers type={DeveloperType.MAINTAINERS} />
       <Developers type={DeveloperType.CONTRIBUTORS} />
@@ -0,0 +1,49 @@
+import React from 'react';
+import { cleanup, render } from 'verdaccio-ui/utils/test-react-testing-library';
+
+import { DetailContext } from '../../context';
+import Downloads from './Downloads';
+
+const withDownloadsComponent = (
+  packageMeta: React.ContextType<typeof DetailContext>['packageMeta']
+): JSX.Element => (
+  <DetailContext.Provider value={{ packageMeta }}>
+    <Downloads />
+  </DetailContext.Provider>
+);
+
+const latest = {
+  name: 'verdaccio',
+  version: '4.0.0',
+  dist: {
+    fileCount: 7,
+    unpackedSize: 10,
+  },
+};
+
+describe('<Downloads /> component', () => {
+  afterEach(function () {
+    cleanup();
+  });
+
+  test('should render the downloads of the package', () => {
+    const wrapper = render(
+      withDownloadsComponent({
+        latest,
+        _uplinks: {},
+        downloads: { lastWeek: 12, lastMonth: 40, version: 5 },
+      })
+    );
+
+    expect(wrapper.getByText('Downloads')).toBeInTheDocument();
+    expect(wrapper.getByText('Last week').parentElement).toHaveTextContent('Last week: 12');
+    expect(wrapper.getByText('Last month').parentElement).toHaveTextContent('Last month: 40');
+    expect(wrapper.getByText('This version').parentElement).toHaveTextContent('This version: 5');
+  });
+
+  test('should not render the component without downloads', () => {
+    const wrapper = render(withDownloadsComponent({ latest, _uplinks: {} }));
+
+    expect(wrapper.queryByText('Downloads')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,42 @@
+import List from '@mui/material/List';
+import React, { FC, useContext } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import { DetailContext } from '../../context';
+import { DownloadsChip, DownloadsListItem, StyledText } from './styles';
+
+const DownloadsCount: FC<{ name: string; count: number }> = ({ name, count }) => (
+  <DownloadsChip
+    label={
+      <>
+        <b>{name}</b>
+        {': '}
+        {count.toLocaleString()}
+      </>
+    }
+  />
+);
+
+const Downloads: FC = () => {
+  const { packageMeta } = useContext(DetailContext);
+  const { t } = useTranslation();
+
+  // the packages not stored on the registry have no downloads
+  if (!packageMeta?.downloads) {
+    return null;
+  }
+
+  const { lastWeek, lastMonth, version } = packageMeta.downloads;
+
+  return (
+    <List subheader={<StyledText variant="subtitle1">{t('sidebar.downloads.title')}</StyledText>}>
+      <DownloadsListItem button={true}>
+        <DownloadsCount count={lastWeek} name={t('sidebar.downloads.last-week')} />
+        <DownloadsCount count={lastMonth} name={t('sidebar.downloads.last-month')} />
+        <DownloadsCount count={version} name={t('sidebar.downloads.version')} />
+      </DownloadsListItem>
+    </List>
+  );
+};
+
+export default Downloads;
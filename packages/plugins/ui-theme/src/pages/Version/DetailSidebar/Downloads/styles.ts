@@ -0,0 +1,21 @@
+import styled from '@emotion/styled';
+import Chip from '@mui/material/Chip';
+import ListItem from '@mui/material/ListItem';
+import Text from 'verdaccio-ui/components/Text';
+import { Theme } from 'verdaccio-ui/design-tokens/theme';
+
+export const StyledText = styled(Text)<{ theme?: Theme }>((props) => ({
+  fontWeight: props.theme?.fontWeight.bold,
+  textTransform: 'capitalize',
+}));
+
+export const DownloadsListItem = styled(ListItem)({
+  paddingLeft: 0,
+  paddingRight: 0,
+  flexWrap: 'wrap',
+});
+
+export const DownloadsChip = styled(Chip)({
+  marginRight: 5,
+  marginTop: 5,
+});
@@ -36,6 +36,12 @@ export interface PackageMetaInterface {
     contributors?: Developer[];
   };
   _uplinks: Record<string, { fetched: number }>;
+  downloads?: {
+    lastWeek: number;
+    lastMonth: number;
+    // last month downloads of the version displayed
+    version: number;
+  };
 }
 export interface Developer {
   name: string;
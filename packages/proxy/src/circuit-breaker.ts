@@ -0,0 +1,147 @@
+import buildDebug from 'debug';
+
+import { Logger } from '@verdaccio/types';
+
+const debug = buildDebug('verdaccio:proxy:circuit-breaker');
+
+export enum CircuitState {
+  // requests flow to the uplink
+  CLOSED = 'closed',
+  // the uplink is considered down, requests are rejected
+  OPEN = 'open',
+  // fail_timeout is over, a single probe request decides the next state
+  HALF_OPEN = 'half-open',
+}
+
+export interface CircuitBreakerOptions {
+  maxFails: number;
+  failTimeout: number;
+}
+
+export interface CircuitHealth {
+  state: CircuitState;
+  failures: number;
+  lastError: { message: string; time: string } | null;
+  openedAt: string | null;
+  // when the next probe is allowed, only while the circuit is open
+  nextProbeAt: string | null;
+}
+
+const toISOString = (time: number | null): string | null =>
+  time === null ? null : new Date(time).toISOString();
+
+/**
+ * Tracks the health of an uplink. The circuit opens after `max_fails`
+ * consecutive failures, once `fail_timeout` is over the next request is let
+ * through as a probe, its result closes or opens the circuit again.
+ */
+export class CircuitBreaker {
+  public state: CircuitState;
+  public failures: number;
+  private host: string;
+  private options: CircuitBreakerOptions;
+  private logger: Logger;
+  private lastError: { message: string; time: number } | null;
+  private openedAt: number | null;
+  private probing: boolean;
+
+  public constructor(host: string, options: CircuitBreakerOptions, logger: Logger) {
+    this.host = host;
+    this.options = options;
+    this.logger = logger;
+    this.state = CircuitState.CLOSED;
+    this.failures = 0;
+    this.lastError = null;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  /**
+   * Whether a request can be sent to the uplink, the caller must report the
+   * result with `success`, `failure` or `cancel`.
+   */
+  public isAllowed(): boolean {
+    if (this.state === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (
+      this.state === CircuitState.OPEN &&
+      Date.now() - (this.openedAt as number) >= this.options.failTimeout
+    ) {
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.state === CircuitState.HALF_OPEN && this.probing === false) {
+      debug('probe request to %o', this.host);
+      this.probing = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  public success(): void {
+    this.probing = false;
+    this.failures = 0;
+    if (this.state !== CircuitState.CLOSED) {
+      this.openedAt = null;
+      this.transition(CircuitState.CLOSED);
+    }
+  }
+
+  public failure(reason: string): void {
+    this.probing = false;
+    this.failures++;
+    this.lastError = { message: reason, time: Date.now() };
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      (this.state === CircuitState.CLOSED && this.failures >= this.options.maxFails)
+    ) {
+      this.openedAt = Date.now();
+      this.transition(CircuitState.OPEN, reason);
+    }
+  }
+
+  /**
+   * The request ended without a result, eg: aborted by the client.
+   */
+  public cancel(): void {
+    this.probing = false;
+  }
+
+  public getHealth(): CircuitHealth {
+    return {
+      state: this.state,
+      failures: this.failures,
+      lastError:
+        this.lastError === null
+          ? null
+          : { message: this.lastError.message, time: toISOString(this.lastError.time) as string },
+      openedAt: toISOString(this.openedAt),
+      nextProbeAt:
+        this.state === CircuitState.OPEN
+          ? toISOString((this.openedAt as number) + this.options.failTimeout)
+          : null,
+    };
+  }
+
+  private transition(state: CircuitState, reason?: string): void {
+    const from = this.state;
+    this.state = state;
+    debug('circuit of %o from %o to %o', this.host, from, state);
+    if (state === CircuitState.OPEN) {
+      this.logger.warn(
+        { host: this.host, from, failures: this.failures, reason },
+        'host @{host} is now offline, circuit @{from} -> open after @{failures} failures: @{reason}'
+      );
+    } else if (state === CircuitState.HALF_OPEN) {
+      this.logger.info(
+        { host: this.host },
+        'host @{host} circuit half-open, the next request is a probe'
+      );
+    } else {
+      this.logger.warn({ host: this.host, from }, 'host @{host} is back online, circuit closed');
+    }
+  }
+}
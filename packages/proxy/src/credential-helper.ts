@@ -0,0 +1,146 @@
+import { execFile } from 'child_process';
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { UpLinkTokenHelperConf } from '@verdaccio/types';
+
+import { parseInterval } from './proxy-utils';
+
+const debug = buildDebug('verdaccio:proxy:credential-helper');
+
+// the token is renewed a bit before it expires, a request may take a while
+const EXPIRY_MARGIN = 30 * 1000;
+
+interface HelperOutput {
+  token: string;
+  // the helper may print a JSON object with the expiry of the token
+  expires_at?: string | number;
+  // seconds
+  expires_in?: number;
+}
+
+/**
+ * Parse the output of a credential helper, either the token alone or a JSON
+ * object `{ "token": "...", "expires_at": "<date>" }` or `{ "token": "...", "expires_in": <seconds> }`.
+ * @return the token and its expiry in milliseconds, null if unknown
+ */
+export function parseHelperOutput(
+  output: string,
+  now: number = Date.now()
+): { token: string; expiresAt: number | null } {
+  const trimmed = output.trim();
+  if (trimmed.startsWith('{') === false) {
+    if (trimmed === '' || /\s/.test(trimmed)) {
+      throw new Error('the credential helper printed an invalid token');
+    }
+    return { token: trimmed, expiresAt: null };
+  }
+
+  let parsed: HelperOutput;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new Error('the credential helper printed an invalid JSON');
+  }
+  if (_.isString(parsed.token) === false || parsed.token === '') {
+    throw new Error('the credential helper printed no token');
+  }
+
+  let expiresAt: number | null = null;
+  if (_.isNil(parsed.expires_at) === false) {
+    expiresAt = _.isNumber(parsed.expires_at)
+      ? parsed.expires_at
+      : Date.parse(parsed.expires_at as string);
+  } else if (_.isNumber(parsed.expires_in)) {
+    expiresAt = now + parsed.expires_in * 1000;
+  }
+  if (expiresAt !== null && Number.isNaN(expiresAt)) {
+    throw new Error(`the credential helper printed an invalid expiry "${parsed.expires_at}"`);
+  }
+
+  return { token: parsed.token, expiresAt };
+}
+
+/**
+ * Runs the `token_helper` of an uplink to get short-lived tokens, the token is
+ * cached until it expires or the uplink rejects it.
+ */
+export class CredentialHelper {
+  private command: string;
+  private args: string[];
+  // milliseconds
+  private ttl: number;
+  private timeout: number;
+  private token: string | null;
+  private expiresAt: number;
+  private pending: Promise<string> | null;
+
+  public constructor(conf: UpLinkTokenHelperConf) {
+    if (_.isString(conf?.command) === false || conf.command === '') {
+      throw new Error('CONFIG: invalid uplink auth.token_helper.command');
+    }
+    if (_.isNil(conf.args) === false && Array.isArray(conf.args) === false) {
+      throw new Error('CONFIG: uplink auth.token_helper.args must be a list');
+    }
+    this.command = conf.command;
+    this.args = (conf.args ?? []).map(String);
+    this.ttl = parseInterval(conf.ttl ?? '5m');
+    this.timeout = parseInterval(conf.timeout ?? '10s');
+    this.token = null;
+    this.expiresAt = 0;
+    this.pending = null;
+  }
+
+  /**
+   * The cached token or a new one, concurrent calls share the same run of the helper.
+   */
+  public getToken(): Promise<string> {
+    if (this.token !== null && Date.now() < this.expiresAt - EXPIRY_MARGIN) {
+      return Promise.resolve(this.token);
+    }
+
+    if (this.pending === null) {
+      this.pending = this.run().finally(() => {
+        this.pending = null;
+      });
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Drop the cached token, eg: the uplink answered 401.
+   */
+  public invalidate(): void {
+    debug('token invalidated');
+    this.token = null;
+    this.expiresAt = 0;
+  }
+
+  private run(): Promise<string> {
+    debug('run %o', this.command);
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.command,
+        this.args,
+        { timeout: this.timeout, windowsHide: true },
+        (err, stdout): void => {
+          if (err) {
+            return reject(new Error(`the credential helper failed: ${err.message}`));
+          }
+
+          try {
+            const now = Date.now();
+            const { token, expiresAt } = parseHelperOutput(stdout, now);
+            this.token = token;
+            this.expiresAt = expiresAt ?? now + this.ttl;
+            debug('token valid until %o', new Date(this.expiresAt).toISOString());
+            resolve(token);
+          } catch (err: any) {
+            reject(err);
+          }
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,205 @@
+import buildDebug from 'debug';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import tls from 'tls';
+import { Agent, Dispatcher, buildConnector } from 'undici';
+import { URL } from 'url';
+
+const debug = buildDebug('verdaccio:proxy:dispatcher');
+
+/**
+ * Uplink `agent_options`, they keep the names of the node.js `http.Agent` options.
+ */
+export interface AgentOptions {
+  keepAlive?: boolean;
+  keepAliveMsecs?: number;
+  maxSockets?: number;
+  [key: string]: any;
+}
+
+export interface DispatcherOptions {
+  // http_proxy or https_proxy already filtered by no_proxy
+  proxy?: string;
+  ca?: string | void;
+  // client certificate (mTLS)
+  cert?: Buffer;
+  key?: Buffer;
+  pfx?: Buffer;
+  passphrase?: string;
+  strictSSL: boolean;
+  timeout: number;
+  agentOptions: AgentOptions;
+}
+
+/**
+ * Map the uplink configuration to the undici pool options.
+ */
+export function getAgentOptions(options: DispatcherOptions): Agent.Options {
+  const { agentOptions, ca, cert, key, pfx, passphrase, strictSSL, timeout } = options;
+  const agent: Agent.Options = {
+    // sockets per origin, unlimited if not set
+    connections: agentOptions.maxSockets ?? null,
+    headersTimeout: timeout,
+    bodyTimeout: timeout,
+    connect: {
+      ca: ca || undefined,
+      cert,
+      key,
+      pfx,
+      passphrase,
+      rejectUnauthorized: strictSSL,
+      timeout,
+    },
+  };
+
+  if (agentOptions.keepAlive === false) {
+    // the socket is closed as soon as the response is received
+    agent.pipelining = 0;
+  } else if (agentOptions.keepAliveMsecs) {
+    agent.keepAliveTimeout = agentOptions.keepAliveMsecs;
+  }
+
+  return agent;
+}
+
+function getProxyAuthorization(proxy: URL): string | null {
+  if (!proxy.username) {
+    return null;
+  }
+
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Connector that opens a CONNECT tunnel through the proxy and upgrades it to TLS.
+ */
+export function buildTunnelConnector(
+  proxy: URL,
+  connectOptions: buildConnector.BuildOptions
+): typeof buildConnector.connector {
+  const proxyAuthorization = getProxyAuthorization(proxy);
+  const isHTTPSProxy = proxy.protocol === 'https:';
+
+  return function connect({ hostname, port, servername }, callback): any {
+    const target = `${hostname}:${port || 443}`;
+    const headers = { host: target };
+    if (proxyAuthorization !== null) {
+      headers['proxy-authorization'] = proxyAuthorization;
+    }
+    let done = false;
+    const finish = (err: Error | null, socket: tls.TLSSocket | null): void => {
+      if (done === false) {
+        done = true;
+        callback(err, socket);
+      }
+    };
+
+    debug('tunnel to %o through %o', target, proxy.host);
+    const request = (isHTTPSProxy ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (isHTTPSProxy ? 443 : 80),
+      method: 'CONNECT',
+      path: target,
+      headers,
+      ca: connectOptions.ca,
+      rejectUnauthorized: connectOptions.rejectUnauthorized,
+      timeout: connectOptions.timeout ?? undefined,
+    });
+
+    request.once('connect', (res, socket: net.Socket): void => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        return finish(
+          new Error(`proxy ${proxy.host} refused the tunnel to ${target}: ${res.statusCode}`),
+          null
+        );
+      }
+
+      const tlsSocket = tls.connect({
+        socket,
+        servername: servername || (net.isIP(hostname) ? undefined : hostname),
+        ca: connectOptions.ca,
+        cert: connectOptions.cert,
+        key: connectOptions.key,
+        pfx: connectOptions.pfx,
+        passphrase: connectOptions.passphrase,
+        rejectUnauthorized: connectOptions.rejectUnauthorized,
+      });
+      tlsSocket.once('secureConnect', () => finish(null, tlsSocket));
+      tlsSocket.once('error', (err) => finish(err, null));
+    });
+    request.once('timeout', () => request.destroy(new Error(`proxy ${proxy.host} timeout`)));
+    request.once('error', (err) => finish(err, null));
+    request.end();
+  };
+}
+
+/**
+ * Send the plain http requests to the proxy and tunnel the https ones.
+ */
+export class ProxyDispatcher extends Dispatcher {
+  private proxy: URL;
+  private proxyAuthorization: string | null;
+  private forward: Agent;
+  private tunnel: Agent;
+
+  public constructor(proxy: string, options: Agent.Options) {
+    super();
+    this.proxy = new URL(proxy);
+    this.proxyAuthorization = getProxyAuthorization(this.proxy);
+    this.forward = new Agent(options);
+    this.tunnel = new Agent({
+      ...options,
+      connect: buildTunnelConnector(this.proxy, options.connect as buildConnector.BuildOptions),
+    });
+  }
+
+  public dispatch(
+    options: Dispatcher.DispatchOptions,
+    handler: Dispatcher.DispatchHandlers
+  ): boolean {
+    const origin = new URL(String(options.origin));
+    if (origin.protocol === 'https:') {
+      return this.tunnel.dispatch(options, handler);
+    }
+
+    const headers = { ...(options.headers as any), host: origin.host };
+    if (this.proxyAuthorization !== null) {
+      headers['proxy-authorization'] = this.proxyAuthorization;
+    }
+
+    return this.forward.dispatch(
+      {
+        ...options,
+        origin: this.proxy.origin,
+        path: `${origin.origin}${options.path}`,
+        headers,
+      },
+      handler
+    );
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all([this.forward.close(), this.tunnel.close()]);
+  }
+
+  public async destroy(): Promise<void> {
+    await Promise.all([this.forward.destroy(), this.tunnel.destroy()]);
+  }
+}
+
+/**
+ * Build the connection pool of an uplink, every origin gets its own pool of
+ * keep-alive sockets.
+ */
+export function buildDispatcher(options: DispatcherOptions): Dispatcher {
+  const agentOptions = getAgentOptions(options);
+  if (options.proxy) {
+    debug('dispatcher through proxy %o', options.proxy);
+    return new ProxyDispatcher(options.proxy, agentOptions);
+  }
+
+  return new Agent(agentOptions);
+}
@@ -1 +1,3 @@
 export * from './up-storage';
+export * from './circuit-breaker';
+export { parseInterval } from './proxy-utils';
@@ -1,3 +1,5 @@
+import { UpLinkTarballRewriteConf } from '@verdaccio/types';
+
 const parseIntervalTable = {
   '': 1000,
   ms: 1,
@@ -39,3 +41,40 @@ export function parseInterval(interval: any): number {
   });
   return result;
 }
+
+export interface TarballRewrite {
+  from: RegExp;
+  to: string;
+}
+
+/**
+ * Compile the `tarball_rewrite` rules of an uplink.
+ */
+export function getTarballRewrites(rules?: UpLinkTarballRewriteConf[]): TarballRewrite[] {
+  if (rules === undefined || rules === null) {
+    return [];
+  }
+  if (Array.isArray(rules) === false) {
+    throw new Error('CONFIG: uplink tarball_rewrite must be a list');
+  }
+
+  return rules.map(({ from, to }) => {
+    if (typeof from !== 'string' || typeof to !== 'string') {
+      throw new Error('CONFIG: uplink tarball_rewrite rules need "from" and "to"');
+    }
+    try {
+      return { from: new RegExp(from), to };
+    } catch (err: any) {
+      throw new Error(`CONFIG: invalid uplink tarball_rewrite "${from}": ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Apply the first rule matching the tarball url, `to` may use the groups of `from`, eg: $1.
+ */
+export function rewriteTarballUrl(rewrites: TarballRewrite[], url: string): string {
+  const rewrite = rewrites.find(({ from }) => from.test(url));
+
+  return rewrite === undefined ? url : url.replace(rewrite.from, rewrite.to);
+}
@@ -0,0 +1,101 @@
+import _ from 'lodash';
+
+import { UpLinkRetryConf } from '@verdaccio/types';
+
+import { parseInterval } from './proxy-utils';
+
+export const DEFAULT_RETRY_ON = [
+  '5xx',
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_SOCKET',
+];
+
+export interface RetryOptions {
+  count: number;
+  factor: number;
+  // milliseconds
+  min: number;
+  max: number;
+  on: (string | number)[];
+}
+
+const parseDelay = (value: string | number, key: string): number => {
+  let delay = NaN;
+  try {
+    delay = parseInterval(value);
+  } catch {
+    // reported below
+  }
+  if (Number.isFinite(delay) === false || delay < 0) {
+    throw new Error(`CONFIG: invalid uplink retry.${key} "${value}"`);
+  }
+
+  return delay;
+};
+
+/**
+ * Normalize the `retry` section of an uplink, the retries are disabled by default.
+ * @throws {Error} if the retry section is invalid
+ */
+export function getRetryOptions(retry?: UpLinkRetryConf): RetryOptions {
+  const options: RetryOptions = {
+    count: retry?.count ?? 0,
+    factor: retry?.factor ?? 2,
+    min: parseDelay(retry?.min ?? '100ms', 'min'),
+    max: parseDelay(retry?.max ?? '10s', 'max'),
+    on: retry?.on ?? DEFAULT_RETRY_ON,
+  };
+
+  if (Number.isInteger(options.count) === false || options.count < 0) {
+    throw new Error(`CONFIG: invalid uplink retry.count "${options.count}"`);
+  }
+  if (_.isNumber(options.factor) === false || options.factor < 1) {
+    throw new Error(`CONFIG: invalid uplink retry.factor "${options.factor}"`);
+  }
+  if (_.isArray(options.on) === false) {
+    throw new Error('CONFIG: uplink retry.on must be a list of status codes or error codes');
+  }
+
+  return options;
+}
+
+/**
+ * Exponential backoff with jitter, the delay of the retry `attempt` (1 based) is
+ * a random value between the half and the whole `min * factor ^ (attempt - 1)`,
+ * capped by `max`. The jitter spreads the retries of concurrent requests.
+ */
+export function getRetryDelay(
+  options: RetryOptions,
+  attempt: number,
+  random = Math.random
+): number {
+  const delay = Math.min(options.max, options.min * Math.pow(options.factor, attempt - 1));
+
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Whether a response status code or an error code is listed on `retry.on`,
+ * `5xx` matches any status code of that class.
+ */
+export function isRetryable(options: RetryOptions, reason: number | string | undefined): boolean {
+  if (_.isNil(reason)) {
+    return false;
+  }
+
+  return options.on.some((item) => {
+    if (_.isNumber(reason)) {
+      return (
+        Number(item) === reason ||
+        (_.isString(item) && /^[1-5]xx$/i.test(item) && item[0] === String(reason)[0])
+      );
+    }
+
+    return item === reason;
+  });
+}
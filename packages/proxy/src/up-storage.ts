@@ -1,14 +1,15 @@
 /* global AbortController */
 import JSONStream from 'JSONStream';
 import buildDebug from 'debug';
+import fs from 'fs';
+import { IncomingHttpHeaders } from 'http';
 import _ from 'lodash';
-import requestDeprecated from 'request';
-import Stream, { PassThrough, Readable } from 'stream';
-import { Headers, fetch as undiciFetch } from 'undici';
+import Stream, { PassThrough, Readable, pipeline } from 'stream';
+import { Dispatcher, Headers, request as undiciRequest } from 'undici';
 import { URL } from 'url';
+import zlib from 'zlib';
 
 import {
-  CHARACTER_ENCODING,
   HEADERS,
   HEADER_TYPE,
   HTTP_STATUS,
@@ -23,7 +24,16 @@ import { ReadTarball } from '@verdaccio/streams';
 import { Callback, Config, IReadTarball, Logger, UpLinkConf } from '@verdaccio/types';
 import { buildToken } from '@verdaccio/utils';
 
-import { parseInterval } from './proxy-utils';
+import { CircuitBreaker, CircuitHealth } from './circuit-breaker';
+import { CredentialHelper } from './credential-helper';
+import { DispatcherOptions, buildDispatcher } from './dispatcher';
+import {
+  TarballRewrite,
+  getTarballRewrites,
+  parseInterval,
+  rewriteTarballUrl,
+} from './proxy-utils';
+import { RetryOptions, getRetryDelay, getRetryOptions, isRetryable } from './retry';
 
 const LoggerApi = require('@verdaccio/logger');
 
@@ -33,8 +43,10 @@ const encode = function (thing): string {
   return encodeURIComponent(thing).replace(/^%40/, '@');
 };
 
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
 const jsonContentType = HEADERS.JSON;
 const contentTypeAccept = `${jsonContentType};`;
+const abbreviatedAccept = `${HEADERS.ABBREVIATED_JSON}; q=1.0, ${jsonContentType}; q=0.8, */*`;
 
 /**
  * Just a helper (`config[key] || default` doesn't work because of zeroes)
@@ -43,6 +55,39 @@ const setConfig = (config, key, def): string => {
   return _.isNil(config[key]) === false ? config[key] : def;
 };
 
+/**
+ * Decompress the response body according to the content-encoding header.
+ */
+const decodeBody = (body: Readable, headers: IncomingHttpHeaders): Readable => {
+  let decoder: zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress;
+  switch (headers['content-encoding']) {
+    case 'gzip':
+    case 'x-gzip':
+      decoder = zlib.createGunzip();
+      break;
+    case 'deflate':
+      decoder = zlib.createInflate();
+      break;
+    case 'br':
+      decoder = zlib.createBrotliDecompress();
+      break;
+    default:
+      return body;
+  }
+
+  // errors on both streams are forwarded to the decoder
+  return pipeline(body, decoder, () => {});
+};
+
+const readBody = async (body: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+};
+
 export type UpLinkConfLocal = UpLinkConf & {
   no_proxy?: string;
 };
@@ -57,6 +102,33 @@ export type ProxySearchParams = {
   query?: searchUtils.SearchQuery;
   abort: AbortController;
 };
+
+type UplinkRequestOptions = {
+  uri?: string;
+  uri_full?: string;
+  method?: string;
+  headers?: { [key: string]: string };
+  json?: any;
+  // the incoming client request
+  req?: any;
+  signal?: AbortSignal;
+  // send the credentials of the uplink, true by default
+  auth?: boolean;
+};
+
+type UplinkResponse = {
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  // the response body as received
+  rawBody: Readable;
+  body: Readable;
+};
+
+export type UplinkHealth = CircuitHealth & {
+  name: string;
+  url: string;
+};
+
 export interface IProxy {
   config: UpLinkConfLocal;
   failed_requests: number;
@@ -69,10 +141,14 @@ export interface IProxy {
   timeout: number;
   max_fails: number;
   fail_timeout: number;
+  stale_while_revalidate: number;
+  stale_if_error: number;
+  abbreviated: boolean;
   upname: string;
-  fetchTarball(url: string): IReadTarball;
+  fetchTarball(url: string, options?: { req?: any }): IReadTarball;
   search(options: ProxySearchParams): Promise<Stream.Readable>;
   getRemoteMetadata(name: string, options: any, callback: Callback): void;
+  getHealth(): UplinkHealth;
 }
 
 /**
@@ -81,7 +157,7 @@ export interface IProxy {
  */
 class ProxyStorage implements IProxy {
   public config: UpLinkConfLocal;
-  public failed_requests: number;
+  public circuitBreaker: CircuitBreaker;
   public userAgent: string;
   public ca: string | void;
   public logger: Logger;
@@ -91,6 +167,9 @@ class ProxyStorage implements IProxy {
   public timeout: number;
   public max_fails: number;
   public fail_timeout: number;
+  public stale_while_revalidate: number;
+  public stale_if_error: number;
+  public abbreviated: boolean;
   public agent_options: any;
   // FIXME: upname is assigned to each instance
   // @ts-ignore
@@ -98,9 +177,12 @@ class ProxyStorage implements IProxy {
   // FIXME: proxy can be boolean or object, something smells here
   // @ts-ignore
   public proxy: any;
-  // @ts-ignore
-  public last_request_time: number | null;
   public strict_ssl: boolean;
+  public retry: RetryOptions;
+  public tarballRewrites: TarballRewrite[];
+  private _dispatcher: Dispatcher | null;
+  private clientCertificate: Pick<DispatcherOptions, 'cert' | 'key' | 'pfx' | 'passphrase'>;
+  private credentialHelper: CredentialHelper | null;
 
   /**
    * Constructor
@@ -109,7 +191,6 @@ class ProxyStorage implements IProxy {
    */
   public constructor(config: UpLinkConfLocal, mainConfig: Config) {
     this.config = config;
-    this.failed_requests = 0;
     this.userAgent = mainConfig.user_agent;
     this.ca = config.ca;
     this.logger = LoggerApi.logger.child({ sub: 'out' });
@@ -136,179 +217,251 @@ class ProxyStorage implements IProxy {
     this.timeout = parseInterval(setConfig(this.config, 'timeout', '30s'));
     this.max_fails = Number(setConfig(this.config, 'max_fails', 2));
     this.fail_timeout = parseInterval(setConfig(this.config, 'fail_timeout', '5m'));
+    this.stale_while_revalidate = parseInterval(
+      setConfig(this.config, 'stale_while_revalidate', 0)
+    );
+    this.stale_if_error = parseInterval(setConfig(this.config, 'stale_if_error', 0));
+    this.abbreviated = Boolean(setConfig(this.config, 'abbreviated', false));
     this.strict_ssl = Boolean(setConfig(this.config, 'strict_ssl', true));
     this.agent_options = setConfig(this.config, 'agent_options', {
       keepAlive: true,
       maxSockets: 40,
       maxFreeSockets: 10,
     });
+    this.retry = getRetryOptions(this.config.retry);
+    this.tarballRewrites = getTarballRewrites(this.config.tarball_rewrite);
+    this.clientCertificate = {
+      cert: this._readCertificate('cert'),
+      key: this._readCertificate('key'),
+      pfx: this._readCertificate('pfx'),
+      passphrase: this.config.passphrase,
+    };
+    const tokenHelper = this.config.auth?.token_helper;
+    this.credentialHelper = _.isNil(tokenHelper) ? null : new CredentialHelper(tokenHelper);
+    this._dispatcher = null;
+    this.circuitBreaker = new CircuitBreaker(
+      this.url.host,
+      { maxFails: this.max_fails, failTimeout: this.fail_timeout },
+      this.logger
+    );
   }
 
   /**
-   * Fetch an asset.
-   * @param {*} options
-   * @param {*} cb
-   * @return {Request}
+   * Consecutive failed requests to the uplink.
    */
-  private request(options: any, cb?: Callback): Stream.Readable {
-    let json;
+  public get failed_requests(): number {
+    return this.circuitBreaker.failures;
+  }
 
-    if (this._statusCheck() === false) {
-      const streamRead = new Stream.Readable();
+  public getHealth(): UplinkHealth {
+    return {
+      name: this.upname,
+      url: `${this.url.origin}${this.url.pathname}`,
+      ...this.circuitBreaker.getHealth(),
+    };
+  }
 
-      process.nextTick(function (): void {
-        if (cb) {
-          cb(errorUtils.getInternalError(errorUtils.API_ERROR.UPLINK_OFFLINE));
-        }
-        streamRead.emit('error', errorUtils.getInternalError(errorUtils.API_ERROR.UPLINK_OFFLINE));
+  /**
+   * Connection pool of the uplink, it is created on the first request.
+   */
+  public get dispatcher(): Dispatcher {
+    if (_.isNil(this._dispatcher)) {
+      this._dispatcher = buildDispatcher({
+        proxy: this.proxy,
+        ca: this.ca,
+        ...this.clientCertificate,
+        strictSSL: this.strict_ssl,
+        timeout: this.timeout,
+        agentOptions: this.agent_options,
       });
-      streamRead._read = function (): void {};
-      // preventing 'Uncaught, unspecified "error" event'
-      streamRead.on('error', function (): void {});
-      return streamRead;
     }
 
-    const self = this;
-    const headers: Headers = this._setHeaders(options);
+    return this._dispatcher;
+  }
+
+  public set dispatcher(dispatcher: Dispatcher) {
+    this._dispatcher = dispatcher;
+  }
 
-    this._addProxyHeaders(options.req, headers);
-    this._overrideWithUpLinkConfLocaligHeaders(headers);
+  /**
+   * Read a file of the uplink client certificate (mTLS).
+   */
+  private _readCertificate(key: 'cert' | 'key' | 'pfx'): Buffer | undefined {
+    const file = this.config[key];
+    if (_.isNil(file)) {
+      return undefined;
+    }
+
+    try {
+      return fs.readFileSync(file);
+    } catch (err: any) {
+      throw new Error(`CONFIG: cannot read uplink ${key} "${file}": ${err.message}`);
+    }
+  }
+
+  /**
+   * Fetch an asset, the request is aborted when `options.signal` is triggered or,
+   * without a signal, when the incoming client request (`options.req`) is aborted.
+   * @param {*} options
+   * @return {Promise<UplinkResponse>} the response body is already decompressed
+   */
+  private async request(options: UplinkRequestOptions): Promise<UplinkResponse> {
+    if (this.circuitBreaker.isAllowed() === false) {
+      throw errorUtils.getInternalError(errorUtils.API_ERROR.UPLINK_OFFLINE);
+    }
 
+    let json;
     const method = options.method || 'GET';
     const uri = options.uri_full || this.config.url + options.uri;
+    let headers: Headers;
+    try {
+      headers = this._setHeaders(options);
+      if (options.auth !== false) {
+        await this._setCredentialHelperAuth(headers);
+      }
 
-    self.logger.info(
-      {
-        method: method,
-        headers: headers,
-        uri: uri,
-      },
-      "making request: '@{method} @{uri}'"
-    );
+      this._addProxyHeaders(options.req, headers);
+      this._overrideWithUpLinkConfLocaligHeaders(headers, options.auth !== false);
 
-    if (validatioUtils.isObject(options.json)) {
-      json = JSON.stringify(options.json);
-      headers['Content-Type'] = headers['Content-Type'] || HEADERS.JSON;
-    }
-
-    const requestCallback = cb
-      ? function (err, res, body): void {
-          let error;
-          const responseLength = err ? 0 : body.length;
-          // $FlowFixMe
-          processBody();
-          logActivity();
-          // $FlowFixMe
-          cb(err, res, body);
-
-          /**
-           * Perform a decode.
-           */
-          function processBody(): void {
-            if (err) {
-              error = err.message;
-              return;
-            }
-
-            if (options.json && res.statusCode < 300) {
-              try {
-                // $FlowFixMe
-                body = JSON.parse(body.toString(CHARACTER_ENCODING.UTF8));
-              } catch (_err: any) {
-                body = {};
-                err = _err;
-                error = err.message;
-              }
-            }
-
-            if (!err && validatioUtils.isObject(body)) {
-              if (_.isString(body.error)) {
-                error = body.error;
-              }
-            }
-          }
-          /**
-           * Perform a log.
-           */
-          function logActivity(): void {
-            let message = "@{!status}, req: '@{request.method} @{request.url}'";
-            // FIXME: use LOG_VERDACCIO_BYTES
-            message += error ? ', error: @{!error}' : ', bytes: @{bytes.in}/@{bytes.out}';
-            self.logger.http(
-              {
-                // if error is null/false change this to undefined so it wont log
-                err: err || undefined,
-                request: { method: method, url: uri },
-                status: res != null ? res.statusCode : 'ERR',
-                error: error,
-                bytes: {
-                  in: json ? json.length : 0,
-                  out: responseLength || 0,
-                },
-              },
-              message
-            );
-          }
-        }
-      : undefined;
+      this.logger.info(
+        {
+          method: method,
+          headers: headers,
+          uri: uri,
+        },
+        "making request: '@{method} @{uri}'"
+      );
 
-    let requestOptions = {
-      url: uri,
-      method: method,
-      headers: headers,
-      body: json,
-      proxy: this.proxy,
-      encoding: null,
-      gzip: true,
-      timeout: this.timeout,
-      strictSSL: this.strict_ssl,
-      agentOptions: this.agent_options,
-    };
+      if (validatioUtils.isObject(options.json)) {
+        json = JSON.stringify(options.json);
+        headers['Content-Type'] = headers['Content-Type'] || HEADERS.JSON;
+      }
+    } catch (err: any) {
+      // nothing was sent to the uplink, a probe of the half-open circuit is released
+      this.circuitBreaker.cancel();
+      throw err;
+    }
 
-    if (this.ca) {
-      requestOptions = Object.assign({}, requestOptions, {
-        ca: this.ca,
-      });
+    const abort = new AbortController();
+    const onAbort = (): void => abort.abort();
+    if (options.signal) {
+      options.signal.addEventListener('abort', onAbort);
+    } else {
+      options.req?.once('aborted', onAbort);
     }
+    const cleanUp = (): void => {
+      if (options.signal) {
+        options.signal.removeEventListener('abort', onAbort);
+      } else {
+        options.req?.removeListener('aborted', onAbort);
+      }
+    };
 
-    const req = requestDeprecated(requestOptions, requestCallback);
+    // only idempotent requests are retried, a tarball is retried before its body is piped
+    const retries = IDEMPOTENT_METHODS.includes(method) ? this.retry.count : 0;
+    let response: Dispatcher.ResponseData;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        response = await undiciRequest(uri, {
+          method: method as Dispatcher.HttpMethod,
+          headers: headers as any,
+          body: json,
+          dispatcher: this.dispatcher,
+          signal: abort.signal,
+        });
+      } catch (err: any) {
+        const reason = err.code ? `${err.code}: ${err.message}` : err.message;
+        if (
+          abort.signal.aborted === false &&
+          attempt <= retries &&
+          isRetryable(this.retry, err.code)
+        ) {
+          await this._waitRetry(uri, attempt, reason, abort.signal);
+          continue;
+        }
 
-    let statusCalled = false;
-    req.on('response', function (res): void {
-      // FIXME: _verdaccio_aborted seems not used
-      // @ts-ignore
-      if (!req._verdaccio_aborted && !statusCalled) {
-        statusCalled = true;
-        self._statusCheck(true);
+        cleanUp();
+        // an aborted request does not mean the uplink is down
+        if (abort.signal.aborted) {
+          this.circuitBreaker.cancel();
+        } else {
+          this.circuitBreaker.failure(reason);
+        }
+        this.logger.http(
+          {
+            err,
+            request: { method: method, url: uri },
+            status: 'ERR',
+            error: err.message,
+          },
+          "@{!status}, req: '@{request.method} @{request.url}', error: @{!error}"
+        );
+        throw err;
       }
 
-      if (_.isNil(requestCallback) === false) {
-        (function do_log(): void {
-          const message = "@{!status}, req: '@{request.method} @{request.url}' (streaming)";
-          self.logger.http(
-            {
-              request: {
-                method: method,
-                url: uri,
-              },
-              status: _.isNull(res) === false ? res.statusCode : 'ERR',
-            },
-            message
-          );
-        })();
-      }
-    });
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    req.on('error', function (_err): void {
-      // FIXME: _verdaccio_aborted seems not used
-      // @ts-ignore
-      if (!req._verdaccio_aborted && !statusCalled) {
-        statusCalled = true;
-        self._statusCheck(false);
+      if (attempt <= retries && isRetryable(this.retry, response.statusCode)) {
+        await response.body.dump();
+        await this._waitRetry(uri, attempt, `bad status code ${response.statusCode}`, abort.signal);
+        continue;
       }
+      break;
+    }
+
+    // the token may have been revoked before its expiry, the next request gets a new one
+    if (response.statusCode === HTTP_STATUS.UNAUTHORIZED) {
+      this.credentialHelper?.invalidate();
+    }
+    if (response.statusCode >= HTTP_STATUS.INTERNAL_ERROR) {
+      this.circuitBreaker.failure(`bad status code ${response.statusCode}`);
+    } else {
+      this.circuitBreaker.success();
+    }
+    this.logger.http(
+      {
+        request: {
+          method: method,
+          url: uri,
+        },
+        status: response.statusCode,
+      },
+      "@{!status}, req: '@{request.method} @{request.url}' (streaming)"
+    );
+    response.body.once('close', cleanUp);
+
+    return {
+      statusCode: response.statusCode,
+      headers: response.headers,
+      rawBody: response.body,
+      body: decodeBody(response.body, response.headers),
+    };
+  }
+
+  /**
+   * Wait the backoff delay before the next attempt, the wait ends if the request is aborted.
+   */
+  private _waitRetry(
+    uri: string,
+    attempt: number,
+    reason: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    const delay = getRetryDelay(this.retry, attempt);
+    this.logger.warn(
+      { uri, attempt, retries: this.retry.count, delay, reason },
+      "retry @{attempt}/@{retries} of '@{uri}' in @{delay}ms: @{reason}"
+    );
+
+    return new Promise((resolve): void => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout((): void => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal.addEventListener('abort', onAbort, { once: true });
     });
-    // @ts-ignore
-    return req;
   }
 
   /**
@@ -328,7 +481,7 @@ class ProxyStorage implements IProxy {
     // registry.npmjs.org will only return search result if user-agent include string 'npm'
     headers[userAgent] = headers[userAgent] || `npm (${this.userAgent})`;
 
-    return this._setAuth(headers);
+    return options.auth === false ? headers : this._setAuth(headers);
   }
 
   /**
@@ -348,6 +501,11 @@ class ProxyStorage implements IProxy {
       this._throwErrorAuth('Auth invalid');
     }
 
+    // the token of the credential helper is set before the request, see _setCredentialHelperAuth
+    if (this.credentialHelper !== null) {
+      return headers;
+    }
+
     // get NPM_TOKEN http://blog.npmjs.org/post/118393368555/deploying-with-npm-private-modules
     // or get other variable export in env
     // https://github.com/verdaccio/verdaccio/releases/tag/v2.5.0
@@ -380,6 +538,29 @@ class ProxyStorage implements IProxy {
     return headers;
   }
 
+  /**
+   * Assign the header authorization with the token of the credential helper.
+   * @param {Object} headers
+   * @private
+   */
+  private async _setCredentialHelperAuth(headers: any): Promise<void> {
+    if (this.credentialHelper === null || headers[HEADERS.AUTHORIZATION]) {
+      return;
+    }
+
+    let token: string;
+    try {
+      token = await this.credentialHelper.getToken();
+    } catch (err: any) {
+      this.logger.error(
+        { err, host: this.url.host },
+        'credential helper for @{host} failed: @{err.message}'
+      );
+      throw err;
+    }
+    this._setHeaderAuthorization(headers, this.config.auth?.type || TOKEN_BASIC, token);
+  }
+
   /**
    * @param {string} message
    * @throws {Error}
@@ -427,7 +608,7 @@ class ProxyStorage implements IProxy {
    * @param {Object} headers
    * @private
    */
-  private _overrideWithUpLinkConfLocaligHeaders(headers: Headers): any {
+  private _overrideWithUpLinkConfLocaligHeaders(headers: Headers, auth = true): any {
     if (!this.config.headers) {
       return headers;
     }
@@ -435,6 +616,9 @@ class ProxyStorage implements IProxy {
     // add/override headers specified in the config
     /* eslint guard-for-in: 0 */
     for (const key in this.config.headers) {
+      if (auth === false && key.toLowerCase() === HEADERS.AUTHORIZATION.toLowerCase()) {
+        continue;
+      }
       headers[key] = this.config.headers[key];
     }
   }
@@ -442,94 +626,141 @@ class ProxyStorage implements IProxy {
   /**
    * Get a remote package metadata
    * @param {*} name package name
-   * @param {*} options request options, eg: eTag.
-   * @param {*} callback
+   * @param {*} options request options, eg: eTag, lastModified, the incoming client
+   * request (`req`), the `signal` that aborts the request or `abbreviated` to
+   * override the uplink configuration.
+   * @param {*} callback receives the body, the ETag and the Last-Modified of the
+   * manifest, a 304 fails with `remoteStatus`
    */
   public getRemoteMetadata(name: string, options: any, callback: Callback): void {
     const headers = {};
     if (_.isNil(options.etag) === false) {
-      headers['If-None-Match'] = options.etag;
+      headers[HEADERS.IF_NONE_MATCH] = options.etag;
       headers[HEADERS.ACCEPT] = contentTypeAccept;
     }
+    if (_.isNil(options.lastModified) === false) {
+      headers[HEADERS.IF_MODIFIED_SINCE] = options.lastModified;
+      headers[HEADERS.ACCEPT] = contentTypeAccept;
+    }
+    if (options.abbreviated ?? this.abbreviated) {
+      headers[HEADERS.ACCEPT] = abbreviatedAccept;
+    }
 
-    this.request(
-      {
-        uri: `/${encode(name)}`,
-        json: true,
-        headers: headers,
-        req: options.req,
-      },
-      (err, res, body): void => {
-        if (err) {
-          return callback(err);
-        }
-        if (res.statusCode === HTTP_STATUS.NOT_FOUND) {
-          return callback(errorUtils.getNotFound(errorUtils.API_ERROR.NOT_PACKAGE_UPLINK));
-        }
-        if (!(res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)) {
-          const error = errorUtils.getInternalError(
-            `${errorUtils.API_ERROR.BAD_STATUS_CODE}: ${res.statusCode}`
-          );
-
-          error.remoteStatus = res.statusCode;
-          return callback(error);
-        }
-        callback(null, body, res.headers.etag);
-      }
+    this._fetchMetadata(name, headers, options.req, options.signal).then(
+      ({ body, etag, lastModified }): void => callback(null, body, etag, lastModified),
+      (err): void => callback(err)
     );
   }
 
+  private async _fetchMetadata(
+    name: string,
+    headers: { [key: string]: string },
+    req: any,
+    signal?: AbortSignal
+  ): Promise<{ body: any; etag: string | undefined; lastModified: string | undefined }> {
+    const res = await this.request({
+      uri: `/${encode(name)}`,
+      headers: headers,
+      req,
+      signal,
+    });
+
+    if (res.statusCode === HTTP_STATUS.NOT_FOUND) {
+      res.body.resume();
+      throw errorUtils.getNotFound(errorUtils.API_ERROR.NOT_PACKAGE_UPLINK);
+    }
+    if (!(res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)) {
+      res.body.resume();
+      const error = errorUtils.getInternalError(
+        `${errorUtils.API_ERROR.BAD_STATUS_CODE}: ${res.statusCode}`
+      );
+
+      error.remoteStatus = res.statusCode;
+      throw error;
+    }
+
+    const body = await readBody(res.body);
+    debug('metadata of %o fetched, %o bytes', name, body.length);
+
+    return {
+      body: JSON.parse(body.toString()),
+      etag: res.headers.etag as string | undefined,
+      lastModified: res.headers['last-modified'] as string | undefined,
+    };
+  }
+
   /**
    * Fetch a tarball from the uplink.
-   * @param {String} url
+   * @param {String} url the url of the manifest, rewritten by the `tarball_rewrite` rules
+   * @param {*} options the incoming client request (`req`) aborts the download
    * @return {Stream}
    */
-  public fetchTarball(url: string) {
+  public fetchTarball(url: string, options: { req?: any } = {}): IReadTarball {
     const stream = new ReadTarball({});
+    const abort = new AbortController();
     let current_length = 0;
     let expected_length;
 
-    stream.abort = () => {};
-    const readStream = this.request({
-      uri_full: url,
-      encoding: null,
+    stream.abort = (): void => abort.abort();
+    options.req?.once('aborted', stream.abort);
+    const target = rewriteTarballUrl(this.tarballRewrites, url);
+    if (target !== url) {
+      debug('tarball %o rewritten to %o', url, target);
+    }
+    this.request({
+      uri_full: target,
       headers: {
         Accept: contentTypeAccept,
       },
-    });
+      req: options.req,
+      signal: abort.signal,
+      // the credentials of the uplink are not sent to the other hosts of the rewrites
+      auth: target === url || new URL(target).origin === this.url.origin,
+    }).then(
+      (res): void => {
+        if (res.statusCode === HTTP_STATUS.NOT_FOUND) {
+          res.body.resume();
+          stream.emit('error', errorUtils.getNotFound(errorUtils.API_ERROR.NOT_FILE_UPLINK));
+          return;
+        }
+        if (!(res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)) {
+          res.body.resume();
+          stream.emit(
+            'error',
+            errorUtils.getInternalError(`bad uplink status code: ${res.statusCode}`)
+          );
+          return;
+        }
+        if (res.headers[HEADER_TYPE.CONTENT_LENGTH]) {
+          expected_length = res.headers[HEADER_TYPE.CONTENT_LENGTH];
+          stream.emit(HEADER_TYPE.CONTENT_LENGTH, res.headers[HEADER_TYPE.CONTENT_LENGTH]);
+        }
 
-    readStream.on('response', function (res: any) {
-      if (res.statusCode === HTTP_STATUS.NOT_FOUND) {
-        return stream.emit('error', errorUtils.getNotFound(errorUtils.API_ERROR.NOT_FILE_UPLINK));
-      }
-      if (!(res.statusCode >= HTTP_STATUS.OK && res.statusCode < HTTP_STATUS.MULTIPLE_CHOICES)) {
-        return stream.emit(
-          'error',
-          errorUtils.getInternalError(`bad uplink status code: ${res.statusCode}`)
-        );
-      }
-      if (res.headers[HEADER_TYPE.CONTENT_LENGTH]) {
-        expected_length = res.headers[HEADER_TYPE.CONTENT_LENGTH];
-        stream.emit(HEADER_TYPE.CONTENT_LENGTH, res.headers[HEADER_TYPE.CONTENT_LENGTH]);
+        // the content-length refers to the bytes on the wire
+        res.rawBody.on('data', function (data): void {
+          current_length += data.length;
+        });
+        res.rawBody.on('end', function (): void {
+          if (expected_length && current_length != expected_length) {
+            stream.emit(
+              'error',
+              errorUtils.getInternalError(errorUtils.API_ERROR.CONTENT_MISMATCH)
+            );
+          }
+        });
+        res.body.on('error', function (err): void {
+          stream.emit('error', err);
+        });
+        res.body.pipe(stream);
+      },
+      (err): void => {
+        // the request might fail before the consumer listens to the stream
+        process.nextTick((): void => {
+          stream.emit('error', err);
+        });
       }
+    );
 
-      readStream.pipe(stream);
-    });
-
-    readStream.on('error', function (err) {
-      stream.emit('error', err);
-    });
-    readStream.on('data', function (data) {
-      current_length += data.length;
-    });
-    readStream.on('end', function (data) {
-      if (data) {
-        current_length += data.length;
-      }
-      if (expected_length && current_length != expected_length) {
-        stream.emit('error', errorUtils.getInternalError(errorUtils.API_ERROR.CONTENT_MISMATCH));
-      }
-    });
     return stream;
   }
 
@@ -541,30 +772,27 @@ class ProxyStorage implements IProxy {
   public async search({ url, abort }: ProxySearchParams): Promise<Stream.Readable> {
     debug('search url %o', url);
 
-    let response;
     try {
       const fullURL = new URL(`${this.url}${url}`);
       // FIXME: a better way to remove duplicate slashes?
       const uri = fullURL.href.replace(/([^:]\/)\/+/g, '$1');
       this.logger.http({ uri, uplink: this.upname }, 'search request to uplink @{uplink} - @{uri}');
-      response = await undiciFetch(uri, {
+      const response = await undiciRequest(uri, {
         method: 'GET',
         // FUTURE: whitelist domains what we are sending not need it headers, security check
-        // headers: new Headers({
-        //   ...headers,
-        //   connection: 'keep-alive',
-        // }),
+        dispatcher: this.dispatcher,
         signal: abort?.signal,
       });
-      debug('response.status  %o', response.status);
+      debug('response.status  %o', response.statusCode);
 
-      if (response.status >= HTTP_STATUS.BAD_REQUEST) {
-        throw errorUtils.getInternalError(`bad status code ${response.status} from uplink`);
+      if (response.statusCode >= HTTP_STATUS.BAD_REQUEST) {
+        response.body.resume();
+        throw errorUtils.getInternalError(`bad status code ${response.statusCode} from uplink`);
       }
 
       const streamSearch = new PassThrough({ objectMode: true });
-      const res = await response.text();
-      const streamResponse = Readable.from(res);
+      const res = await readBody(decodeBody(response.body, response.headers));
+      const streamResponse = Readable.from(res.toString());
       // objects is one of the properties on the body, it ignores date and total
       streamResponse.pipe(JSONStream.parse('objects')).pipe(streamSearch, { end: true });
       return streamSearch;
@@ -604,52 +832,6 @@ class ProxyStorage implements IProxy {
     headers['Via'] += '1.1 ' + this.server_id + ' (Verdaccio)';
   }
 
-  /**
-   * Check whether the remote host is available.
-   * @param {*} alive
-   * @return {Boolean}
-   */
-  private _statusCheck(alive?: boolean): boolean | void {
-    if (arguments.length === 0) {
-      return this._ifRequestFailure() === false;
-    }
-    if (alive) {
-      if (this.failed_requests >= this.max_fails) {
-        this.logger.warn(
-          {
-            host: this.url.host,
-          },
-          'host @{host} is back online'
-        );
-      }
-      this.failed_requests = 0;
-    } else {
-      this.failed_requests++;
-      if (this.failed_requests === this.max_fails) {
-        this.logger.warn(
-          {
-            host: this.url.host,
-          },
-          'host @{host} is now offline'
-        );
-      }
-    }
-
-    this.last_request_time = Date.now();
-  }
-
-  /**
-   * If the request failure.
-   * @return {boolean}
-   * @private
-   */
-  private _ifRequestFailure(): boolean {
-    return (
-      this.failed_requests >= this.max_fails &&
-      Math.abs(Date.now() - (this.last_request_time as number)) < this.fail_timeout
-    );
-  }
-
   /**
    * Set up a proxy.
    * @param {*} hostname
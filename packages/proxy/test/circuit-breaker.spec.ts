@@ -0,0 +1,92 @@
+import { CircuitBreaker, CircuitState } from '../src/circuit-breaker';
+
+const logger: any = { warn: jest.fn(), info: jest.fn() };
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date('2022-01-01T00:00:00.000Z'));
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const openCircuit = (): CircuitBreaker => {
+    const circuitBreaker = new CircuitBreaker(
+      'registry.npmjs.org',
+      { maxFails: 2, failTimeout: 60000 },
+      logger
+    );
+    circuitBreaker.failure('ECONNRESET: socket hang up');
+    circuitBreaker.failure('bad status code 502');
+    return circuitBreaker;
+  };
+
+  test('should open after max_fails consecutive failures', () => {
+    const circuitBreaker = new CircuitBreaker(
+      'registry.npmjs.org',
+      { maxFails: 2, failTimeout: 60000 },
+      logger
+    );
+    circuitBreaker.failure('ECONNRESET: socket hang up');
+    expect(circuitBreaker.state).toEqual(CircuitState.CLOSED);
+    circuitBreaker.success();
+    circuitBreaker.failure('ECONNRESET: socket hang up');
+    expect(circuitBreaker.isAllowed()).toBe(true);
+
+    circuitBreaker.failure('bad status code 502');
+    expect(circuitBreaker.state).toEqual(CircuitState.OPEN);
+    expect(circuitBreaker.isAllowed()).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ host: 'registry.npmjs.org', reason: 'bad status code 502' }),
+      expect.stringMatching(/is now offline/)
+    );
+  });
+
+  test('should report the health', () => {
+    expect(openCircuit().getHealth()).toEqual({
+      state: CircuitState.OPEN,
+      failures: 2,
+      lastError: { message: 'bad status code 502', time: '2022-01-01T00:00:00.000Z' },
+      openedAt: '2022-01-01T00:00:00.000Z',
+      nextProbeAt: '2022-01-01T00:01:00.000Z',
+    });
+  });
+
+  test('should let a single probe through after fail_timeout', () => {
+    const circuitBreaker = openCircuit();
+    jest.advanceTimersByTime(60000);
+
+    expect(circuitBreaker.isAllowed()).toBe(true);
+    expect(circuitBreaker.state).toEqual(CircuitState.HALF_OPEN);
+    expect(circuitBreaker.isAllowed()).toBe(false);
+
+    circuitBreaker.success();
+    expect(circuitBreaker.state).toEqual(CircuitState.CLOSED);
+    expect(circuitBreaker.getHealth()).toEqual(
+      expect.objectContaining({ failures: 0, openedAt: null, nextProbeAt: null })
+    );
+  });
+
+  test('should open again if the probe fails', () => {
+    const circuitBreaker = openCircuit();
+    jest.advanceTimersByTime(60000);
+    expect(circuitBreaker.isAllowed()).toBe(true);
+
+    circuitBreaker.failure('UND_ERR_CONNECT_TIMEOUT: connect timeout');
+    expect(circuitBreaker.state).toEqual(CircuitState.OPEN);
+    expect(circuitBreaker.getHealth().nextProbeAt).toEqual('2022-01-01T00:02:00.000Z');
+  });
+
+  test('should allow another probe if the probe is cancelled', () => {
+    const circuitBreaker = openCircuit();
+    jest.advanceTimersByTime(60000);
+    expect(circuitBreaker.isAllowed()).toBe(true);
+
+    circuitBreaker.cancel();
+    expect(circuitBreaker.state).toEqual(CircuitState.HALF_OPEN);
+    expect(circuitBreaker.isAllowed()).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import { Config, parseConfigFile } from '@verdaccio/config';
+import { HEADERS } from '@verdaccio/core';
+import { setup } from '@verdaccio/logger';
+
+import { CircuitState } from '../src/circuit-breaker';
+import { CredentialHelper, parseHelperOutput } from '../src/credential-helper';
+import { ProxyStorage } from '../src/up-storage';
+
+setup([]);
+
+const conf = new Config(parseConfigFile(`${__dirname}/conf/proxy1.yaml`));
+
+/**
+ * A node.js script as credential helper, it prints a new token on each run.
+ */
+function nodeHelper(script: string, options = {}) {
+  return { command: process.execPath, args: ['-e', script], ...options };
+}
+
+const printToken = 'console.log("token-" + process.hrtime.bigint())';
+
+describe('credential helper', () => {
+  describe('parseHelperOutput', () => {
+    test('should read a plain token', () => {
+      expect(parseHelperOutput('abc123\n')).toEqual({ token: 'abc123', expiresAt: null });
+    });
+
+    test('should read the expiry of a JSON output', () => {
+      expect(parseHelperOutput('{"token":"abc","expires_at":"2022-01-01T01:00:00.000Z"}')).toEqual({
+        token: 'abc',
+        expiresAt: Date.parse('2022-01-01T01:00:00.000Z'),
+      });
+      expect(parseHelperOutput('{"token":"abc","expires_in":3600}', 1000)).toEqual({
+        token: 'abc',
+        expiresAt: 3601000,
+      });
+    });
+
+    test('should fail on invalid outputs', () => {
+      expect(() => parseHelperOutput('')).toThrow(/invalid token/);
+      expect(() => parseHelperOutput('usage: helper [options]')).toThrow(/invalid token/);
+      expect(() => parseHelperOutput('{"token":')).toThrow(/invalid JSON/);
+      expect(() => parseHelperOutput('{"expires_in":10}')).toThrow(/no token/);
+      expect(() => parseHelperOutput('{"token":"abc","expires_at":"soon"}')).toThrow(
+        /invalid expiry/
+      );
+    });
+  });
+
+  describe('CredentialHelper', () => {
+    test('should fail on invalid configuration', () => {
+      // @ts-expect-error
+      expect(() => new CredentialHelper({})).toThrow(/invalid uplink auth.token_helper.command/);
+      // @ts-expect-error
+      expect(() => new CredentialHelper({ command: 'helper', args: '-x' })).toThrow(
+        /args must be a list/
+      );
+    });
+
+    test('should cache the token until it expires', async () => {
+      const helper = new CredentialHelper(nodeHelper(printToken, { ttl: '1h' }));
+      const [first, second] = await Promise.all([helper.getToken(), helper.getToken()]);
+      expect(first).toMatch(/^token-/);
+      expect(second).toEqual(first);
+      await expect(helper.getToken()).resolves.toEqual(first);
+
+      helper.invalidate();
+      await expect(helper.getToken()).resolves.not.toEqual(first);
+    });
+
+    test('should run the helper again once the token expired', async () => {
+      const helper = new CredentialHelper(
+        nodeHelper('console.log(JSON.stringify({ token: "t" + Date.now(), expires_in: 1 }))')
+      );
+      const first = await helper.getToken();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      // the token is renewed before its expiry
+      await expect(helper.getToken()).resolves.not.toEqual(first);
+    });
+
+    test('should fail if the helper fails', async () => {
+      const helper = new CredentialHelper(nodeHelper('process.exit(2)'));
+      await expect(helper.getToken()).rejects.toThrow(/the credential helper failed/);
+    });
+  });
+
+  describe('ProxyStorage', () => {
+    test('should send the token of the helper and renew it on 401', async () => {
+      const authorizations: (string | undefined)[] = [];
+      const server = http.createServer((req, res) => {
+        authorizations.push(req.headers.authorization);
+        res.writeHead(authorizations.length === 1 ? 401 : 200, {
+          [HEADERS.CONTENT_TYPE]: HEADERS.JSON,
+        });
+        res.end('{"name":"jquery"}');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const proxy = new ProxyStorage(
+        {
+          url: `http://127.0.0.1:${port}`,
+          auth: { type: 'Bearer', token_helper: nodeHelper(printToken, { ttl: '1h' }) },
+        },
+        conf
+      );
+      const getMetadata = () =>
+        new Promise((resolve) => proxy.getRemoteMetadata('jquery', {}, (err) => resolve(err)));
+
+      await expect(getMetadata()).resolves.toBeTruthy();
+      await expect(getMetadata()).resolves.toBeNull();
+      expect(authorizations[0]).toMatch(/^Bearer token-/);
+      expect(authorizations[1]).toMatch(/^Bearer token-/);
+      expect(authorizations[1]).not.toEqual(authorizations[0]);
+      await proxy.dispatcher.close();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should release the probe of a half-open circuit if the helper fails', async () => {
+      const proxy = new ProxyStorage(
+        {
+          url: 'http://127.0.0.1:1',
+          max_fails: 1,
+          fail_timeout: '10ms',
+          auth: { type: 'Bearer', token_helper: nodeHelper('process.exit(2)') },
+        },
+        conf
+      );
+      const getMetadata = () =>
+        new Promise<any>((resolve) => proxy.getRemoteMetadata('jquery', {}, (err) => resolve(err)));
+      proxy.circuitBreaker.failure('ECONNRESET: socket hang up');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      await expect(getMetadata()).resolves.toHaveProperty(
+        'message',
+        expect.stringMatching(/the credential helper failed/)
+      );
+      // the next request is the probe, the uplink is not reported offline
+      await expect(getMetadata()).resolves.toHaveProperty(
+        'message',
+        expect.stringMatching(/the credential helper failed/)
+      );
+      expect(proxy.circuitBreaker.state).toEqual(CircuitState.HALF_OPEN);
+    });
+
+    test('should fail on a missing client certificate', () => {
+      const cert = path.join(os.tmpdir(), 'verdaccio-missing-cert.pem');
+      expect(fs.existsSync(cert)).toBe(false);
+      expect(() => new ProxyStorage({ url: 'https://registry.local', cert }, conf)).toThrow(
+        /cannot read uplink cert/
+      );
+    });
+  });
+});
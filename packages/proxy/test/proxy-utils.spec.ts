@@ -1,6 +1,6 @@
 import assert from 'assert';
 
-import { parseInterval } from '../src/proxy-utils';
+import { getTarballRewrites, parseInterval, rewriteTarballUrl } from '../src/proxy-utils';
 
 describe('Parse interval', () => {
   function addTest(str, res) {
@@ -33,3 +33,38 @@ describe('Parse interval', () => {
   addTest('1y 1M 1w 1d 1h 1m 1s 1ms', 34822861001);
   addTest(' 5s  25ms  ', 5025);
 });
+
+describe('tarball_rewrite', () => {
+  const rewrites = getTarballRewrites([
+    { from: '^https://registry\\.npmjs\\.org/(@[^/]+/)?', to: 'https://cdn.local/npm/$1' },
+    { from: '^https://registry\\.npmjs\\.org/', to: 'https://never.local/' },
+  ]);
+
+  test('should apply the first matching rule', () => {
+    expect(
+      rewriteTarballUrl(rewrites, 'https://registry.npmjs.org/jquery/-/jquery-1.0.0.tgz')
+    ).toEqual('https://cdn.local/npm/jquery/-/jquery-1.0.0.tgz');
+    expect(
+      rewriteTarballUrl(rewrites, 'https://registry.npmjs.org/@scope/foo/-/foo-1.0.0.tgz')
+    ).toEqual('https://cdn.local/npm/@scope/foo/-/foo-1.0.0.tgz');
+  });
+
+  test('should keep the urls without matching rule', () => {
+    expect(rewriteTarballUrl(rewrites, 'https://other.local/foo/-/foo-1.0.0.tgz')).toEqual(
+      'https://other.local/foo/-/foo-1.0.0.tgz'
+    );
+    expect(rewriteTarballUrl(getTarballRewrites(), 'https://registry.npmjs.org/a.tgz')).toEqual(
+      'https://registry.npmjs.org/a.tgz'
+    );
+  });
+
+  test('should fail on invalid rules', () => {
+    // @ts-expect-error
+    expect(() => getTarballRewrites({ from: 'a', to: 'b' })).toThrow(/must be a list/);
+    // @ts-expect-error
+    expect(() => getTarballRewrites([{ from: 'a' }])).toThrow(/need "from" and "to"/);
+    expect(() => getTarballRewrites([{ from: '(', to: 'b' }])).toThrow(
+      /invalid uplink tarball_rewrite "\("/
+    );
+  });
+});
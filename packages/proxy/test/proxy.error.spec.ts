@@ -1,5 +1,6 @@
-import nock from 'nock';
+import fs from 'fs';
 import path from 'path';
+import { MockAgent } from 'undici';
 
 import { Config, parseConfigFile } from '@verdaccio/config';
 import { API_ERROR, HEADER_TYPE, HTTP_STATUS, VerdaccioError, errorUtils } from '@verdaccio/core';
@@ -30,10 +31,13 @@ jest.mock('@verdaccio/logger', () => {
 });
 
 const domain = 'https://registry.npmjs.org';
+const tarballFile = fs.readFileSync(path.join(__dirname, 'partials/jquery-0.0.1.tgz'));
 
 describe('proxy', () => {
+  let mockAgent: MockAgent;
   beforeEach(() => {
-    nock.cleanAll();
+    mockAgent = new MockAgent({ connections: 1 });
+    mockAgent.disableNetConnect();
   });
   const defaultRequestOptions = {
     url: 'https://registry.npmjs.org',
@@ -44,8 +48,13 @@ describe('proxy', () => {
   describe('error handling', () => {
     test('should be offline uplink', (done) => {
       const tarball = 'https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz';
-      nock(domain).get('/jquery/-/jquery-0.0.1.tgz').times(100).replyWithError('some error');
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .replyWithError(new Error('some error'))
+        .times(100);
       const proxy = new ProxyStorage(defaultRequestOptions, conf);
+      proxy.dispatcher = mockAgent;
       const stream = proxy.fetchTarball(tarball);
       // to test a uplink is offline we have to be try 3 times
       // the default failed request are set to 2
@@ -77,9 +86,38 @@ describe('proxy', () => {
       });
     });
 
+    test('should count the uplink 5xx responses as failures', (done) => {
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery', method: 'GET' })
+        .reply(502, 'bad gateway')
+        .times(2);
+      const proxy = new ProxyStorage(defaultRequestOptions, conf);
+      proxy.dispatcher = mockAgent;
+      proxy.getRemoteMetadata('jquery', {}, () => {
+        proxy.getRemoteMetadata('jquery', {}, () => {
+          expect(proxy.getHealth()).toEqual(
+            expect.objectContaining({
+              state: 'open',
+              failures: 2,
+              lastError: expect.objectContaining({ message: 'bad status code 502' }),
+            })
+          );
+          proxy.getRemoteMetadata('jquery', {}, (err) => {
+            expect(err.message).toMatch(API_ERROR.UPLINK_OFFLINE);
+            done();
+          });
+        });
+      });
+    });
+
     test('not found tarball', (done) => {
-      nock(domain).get('/jquery/-/jquery-0.0.1.tgz').reply(404);
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(404, '');
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on('error', (response) => {
         expect(response).toEqual(errorUtils.getNotFound(API_ERROR.NOT_FILE_UPLINK));
@@ -88,8 +126,12 @@ describe('proxy', () => {
     });
 
     test('fail tarball request', (done) => {
-      nock(domain).get('/jquery/-/jquery-0.0.1.tgz').replyWithError('boom file');
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .replyWithError(new Error('boom file'));
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on('error', (response) => {
         expect(response).toEqual(Error('boom file'));
@@ -98,8 +140,12 @@ describe('proxy', () => {
     });
 
     test('bad uplink request', (done) => {
-      nock(domain).get('/jquery/-/jquery-0.0.1.tgz').reply(409);
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(409, '');
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on('error', (response) => {
         expect(response).toEqual(errorUtils.getInternalError(`bad uplink status code: 409`));
@@ -108,14 +154,12 @@ describe('proxy', () => {
     });
 
     test('content length header mismatch', (done) => {
-      nock(domain)
-        .get('/jquery/-/jquery-0.0.1.tgz')
-        // types does not match here with documentation
-        // @ts-expect-error
-        .replyWithFile(201, path.join(__dirname, 'partials/jquery-0.0.1.tgz'), {
-          [HEADER_TYPE.CONTENT_LENGTH]: 0,
-        });
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(201, tarballFile, { headers: { [HEADER_TYPE.CONTENT_LENGTH]: '0' } });
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on('error', (response) => {
         expect(response).toEqual(errorUtils.getInternalError(API_ERROR.CONTENT_MISMATCH));
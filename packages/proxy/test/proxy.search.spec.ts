@@ -4,7 +4,7 @@
 import getStream from 'get-stream';
 import path from 'path';
 import semver from 'semver';
-import { MockAgent, setGlobalDispatcher } from 'undici';
+import { MockAgent } from 'undici';
 
 import { Config, parseConfigFile } from '@verdaccio/config';
 import { streamUtils } from '@verdaccio/core';
@@ -60,10 +60,10 @@ describe('proxy', () => {
       const response = require('./partials/search-v1.json');
       const mockAgent = new MockAgent({ connections: 1 });
       mockAgent.disableNetConnect();
-      setGlobalDispatcher(mockAgent);
       const mockClient = mockAgent.get(domain);
       mockClient.intercept(options).reply(200, JSON.stringify(response));
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const abort = new AbortController();
       const stream = await prox1.search({
         abort,
@@ -77,11 +77,11 @@ describe('proxy', () => {
     test('handle bad response 409', async () => {
       const mockAgent = new MockAgent({ connections: 1 });
       mockAgent.disableNetConnect();
-      setGlobalDispatcher(mockAgent);
       const mockClient = mockAgent.get(domain);
       mockClient.intercept(options).reply(409, {});
       const abort = new AbortController();
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       await expect(
         prox1.search({
           abort,
@@ -99,11 +99,11 @@ describe('proxy', () => {
     test('search endpoint fails', async () => {
       const mockAgent = new MockAgent({ connections: 1 });
       mockAgent.disableNetConnect();
-      setGlobalDispatcher(mockAgent);
       const mockClient = mockAgent.get(domain);
       mockClient.intercept(options).reply(500, {});
       const abort = new AbortController();
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       await expect(
         prox1.search({
           abort,
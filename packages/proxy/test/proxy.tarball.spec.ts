@@ -1,8 +1,20 @@
-import nock from 'nock';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
 import path from 'path';
+import { MockAgent } from 'undici';
+import zlib from 'zlib';
 
 import { Config, parseConfigFile } from '@verdaccio/config';
-import { API_ERROR, HEADER_TYPE, HTTP_STATUS, VerdaccioError, errorUtils } from '@verdaccio/core';
+import {
+  API_ERROR,
+  HEADERS,
+  HEADER_TYPE,
+  HTTP_STATUS,
+  VerdaccioError,
+  errorUtils,
+} from '@verdaccio/core';
 
 import { ProxyStorage } from '../src/up-storage';
 
@@ -30,11 +42,13 @@ jest.mock('@verdaccio/logger', () => {
 });
 
 const domain = 'https://registry.npmjs.org';
+const tarballFile = fs.readFileSync(path.join(__dirname, 'partials/jquery-0.0.1.tgz'));
 
 describe('proxy', () => {
+  let mockAgent: MockAgent;
   beforeEach(() => {
-    nock.cleanAll();
-    nock.abortPendingRequests();
+    mockAgent = new MockAgent({ connections: 1 });
+    mockAgent.disableNetConnect();
     jest.clearAllMocks();
   });
   const defaultRequestOptions = {
@@ -45,10 +59,12 @@ describe('proxy', () => {
 
   describe('fetchTarball', () => {
     test('get file tarball no content-length', (done) => {
-      nock(domain)
-        .get('/jquery/-/jquery-0.0.1.tgz')
-        .replyWithFile(201, path.join(__dirname, 'partials/jquery-0.0.1.tgz'));
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(201, tarballFile);
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on('data', (data) => {
         expect(data).toBeDefined();
@@ -57,14 +73,12 @@ describe('proxy', () => {
     });
 
     test('get file tarball correct content-length', (done) => {
-      nock(domain)
-        .get('/jquery/-/jquery-0.0.1.tgz')
-        // types does not match here with documentation
-        // @ts-expect-error
-        .replyWithFile(201, path.join(__dirname, 'partials/jquery-0.0.1.tgz'), {
-          [HEADER_TYPE.CONTENT_LENGTH]: 277,
-        });
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(201, tarballFile, { headers: { [HEADER_TYPE.CONTENT_LENGTH]: '277' } });
       const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+      prox1.dispatcher = mockAgent;
       const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
       stream.on(HEADER_TYPE.CONTENT_LENGTH, (data) => {
         expect(data).toEqual('277');
@@ -72,11 +86,104 @@ describe('proxy', () => {
       });
     });
 
+    test('get file tarball from a rewritten url', (done) => {
+      mockAgent
+        .get('https://cdn.local')
+        .intercept({ path: '/npm/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(200, tarballFile);
+      const prox1 = new ProxyStorage(
+        {
+          ...defaultRequestOptions,
+          tarball_rewrite: [
+            { from: '^https://registry\\.npmjs\\.org/', to: 'https://cdn.local/npm/' },
+          ],
+        },
+        conf
+      );
+      prox1.dispatcher = mockAgent;
+      const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
+      stream.on('data', (data) => {
+        expect(data).toBeDefined();
+        done();
+      });
+    });
+
+    test('do not send the uplink credentials to the host of a rewritten url', async () => {
+      const authorizations: (string | undefined)[] = [];
+      const reply = (opts) => {
+        authorizations.push(opts.headers[HEADERS.AUTHORIZATION]);
+        return tarballFile;
+      };
+      mockAgent
+        .get('https://cdn.local')
+        .intercept({ path: '/npm/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(200, reply);
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/mirror/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+        .reply(200, reply);
+      const prox1 = new ProxyStorage(
+        {
+          ...defaultRequestOptions,
+          auth: { type: 'Bearer', token: 'secret' },
+          tarball_rewrite: [
+            { from: '^https://registry\\.npmjs\\.org/cdn/', to: 'https://cdn.local/npm/' },
+            { from: '^https://registry\\.npmjs\\.org/', to: 'https://registry.npmjs.org/mirror/' },
+          ],
+        },
+        conf
+      );
+      prox1.dispatcher = mockAgent;
+      const download = (url: string) =>
+        new Promise((resolve, reject) => {
+          const stream = prox1.fetchTarball(url);
+          stream.on('error', reject);
+          stream.on('end', resolve);
+          stream.resume();
+        });
+
+      await download('https://registry.npmjs.org/cdn/jquery/-/jquery-0.0.1.tgz');
+      await download('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
+
+      expect(authorizations).toEqual([undefined, 'Bearer secret']);
+    });
+
+    test('abort the download when the client request is aborted', (done) => {
+      // the uplink sends the headers and then hangs
+      const server = http.createServer((_req, res) => {
+        res.writeHead(200, { [HEADER_TYPE.CONTENT_LENGTH]: tarballFile.length });
+        res.write(tarballFile.slice(0, 10));
+      });
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        const req = Object.assign(new EventEmitter(), {
+          headers: {},
+          connection: { remoteAddress: '127.0.0.1' },
+        });
+        const prox1 = new ProxyStorage({ url: `http://127.0.0.1:${port}` }, conf);
+        const stream = prox1.fetchTarball(`http://127.0.0.1:${port}/jquery/-/jquery-0.0.1.tgz`, {
+          req,
+        });
+        stream.on(HEADER_TYPE.CONTENT_LENGTH, () => req.emit('aborted'));
+        stream.on('error', (error) => {
+          expect(error.name).toEqual('AbortError');
+          // the uplink is still healthy
+          expect(prox1.failed_requests).toEqual(0);
+          prox1.dispatcher.destroy().then(() => server.close(() => done()));
+        });
+      });
+    });
+
     describe('error handling', () => {
       test('should be offline uplink', (done) => {
         const tarball = 'https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz';
-        nock(domain).get('/jquery/-/jquery-0.0.1.tgz').times(100).replyWithError('some error');
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+          .replyWithError(new Error('some error'))
+          .times(100);
         const proxy = new ProxyStorage(defaultRequestOptions, conf);
+        proxy.dispatcher = mockAgent;
         const stream = proxy.fetchTarball(tarball);
         // to test a uplink is offline we have to be try 3 times
         // the default failed request are set to 2
@@ -109,8 +216,12 @@ describe('proxy', () => {
       });
 
       test('not found tarball', (done) => {
-        nock(domain).get('/jquery/-/jquery-0.0.1.tgz').reply(404);
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+          .reply(404, '');
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
         stream.on('error', (response) => {
           expect(response).toEqual(errorUtils.getNotFound(API_ERROR.NOT_FILE_UPLINK));
@@ -119,8 +230,12 @@ describe('proxy', () => {
       });
 
       test('fail tarball request', (done) => {
-        nock(domain).get('/jquery/-/jquery-0.0.1.tgz').replyWithError('boom file');
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+          .replyWithError(new Error('boom file'));
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
         stream.on('error', (response) => {
           expect(response).toEqual(Error('boom file'));
@@ -129,8 +244,12 @@ describe('proxy', () => {
       });
 
       test('bad uplink request', (done) => {
-        nock(domain).get('/jquery/-/jquery-0.0.1.tgz').reply(409);
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+          .reply(409, '');
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
         stream.on('error', (response) => {
           expect(response).toEqual(errorUtils.getInternalError(`bad uplink status code: 409`));
@@ -139,14 +258,12 @@ describe('proxy', () => {
       });
 
       test('content length header mismatch', (done) => {
-        nock(domain)
-          .get('/jquery/-/jquery-0.0.1.tgz')
-          // types does not match here with documentation
-          // @ts-expect-error
-          .replyWithFile(201, path.join(__dirname, 'partials/jquery-0.0.1.tgz'), {
-            [HEADER_TYPE.CONTENT_LENGTH]: 0,
-          });
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery/-/jquery-0.0.1.tgz', method: 'GET' })
+          .reply(201, tarballFile, { headers: { [HEADER_TYPE.CONTENT_LENGTH]: '0' } });
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         const stream = prox1.fetchTarball('https://registry.npmjs.org/jquery/-/jquery-0.0.1.tgz');
         stream.on('error', (response) => {
           expect(response).toEqual(errorUtils.getInternalError(API_ERROR.CONTENT_MISMATCH));
@@ -159,16 +276,12 @@ describe('proxy', () => {
   describe('getRemoteMetadata', () => {
     describe('basic requests', () => {
       test('proxy call with etag', (done) => {
-        nock(domain)
-          .get('/jquery')
-          .reply(
-            200,
-            { body: 'test' },
-            {
-              etag: () => `_ref_4444`,
-            }
-          );
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery', method: 'GET' })
+          .reply(200, { body: 'test' }, { headers: { etag: '_ref_4444' } });
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', {}, (_error, body, etag) => {
           expect(etag).toEqual('_ref_4444');
           expect(body).toEqual({ body: 'test' });
@@ -177,16 +290,12 @@ describe('proxy', () => {
       });
 
       test('proxy call with etag as option', (done) => {
-        nock(domain)
-          .get('/jquery')
-          .reply(
-            200,
-            { body: 'test' },
-            {
-              etag: () => `_ref_4444`,
-            }
-          );
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery', method: 'GET' })
+          .reply(200, { body: 'test' }, { headers: { etag: '_ref_4444' } });
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', { etag: 'rev_3333' }, (_error, body, etag) => {
           expect(etag).toEqual('_ref_4444');
           expect(body).toEqual({ body: 'test' });
@@ -194,9 +303,76 @@ describe('proxy', () => {
         });
       });
 
+      test('proxy call with last-modified as option', (done) => {
+        const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+        mockAgent
+          .get(domain)
+          .intercept({
+            path: '/jquery',
+            method: 'GET',
+            headers: { 'If-Modified-Since': lastModified },
+          })
+          .reply(200, { body: 'test' }, { headers: { 'last-modified': lastModified } });
+        const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
+        prox1.getRemoteMetadata('jquery', { lastModified }, (_error, body, _etag, modified) => {
+          expect(modified).toEqual(lastModified);
+          expect(body).toEqual({ body: 'test' });
+          done();
+        });
+      });
+
+      test('proxy call not modified', (done) => {
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery', method: 'GET', headers: { 'If-None-Match': 'rev_3333' } })
+          .reply(304, '');
+        const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
+        prox1.getRemoteMetadata('jquery', { etag: 'rev_3333' }, (error) => {
+          expect(error.remoteStatus).toEqual(HTTP_STATUS.NOT_MODIFIED);
+          done();
+        });
+      });
+
+      test('proxy call for an abbreviated manifest', (done) => {
+        mockAgent
+          .get(domain)
+          .intercept({
+            path: '/jquery',
+            method: 'GET',
+            headers: { [HEADERS.ACCEPT]: (accept) => accept.startsWith(HEADERS.ABBREVIATED_JSON) },
+          })
+          .reply(200, { name: 'jquery' });
+        const prox1 = new ProxyStorage({ ...defaultRequestOptions, abbreviated: true }, conf);
+        prox1.dispatcher = mockAgent;
+        prox1.getRemoteMetadata('jquery', {}, (error, body) => {
+          expect(error).toBeNull();
+          expect(body).toEqual({ name: 'jquery' });
+          done();
+        });
+      });
+
+      test('proxy call with gzip body', (done) => {
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery', method: 'GET' })
+          .reply(200, zlib.gzipSync(JSON.stringify({ name: 'jquery' })), {
+            headers: { 'content-encoding': 'gzip' },
+          });
+        const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
+        prox1.getRemoteMetadata('jquery', {}, (error, body) => {
+          expect(error).toBeNull();
+          expect(body).toEqual({ name: 'jquery' });
+          done();
+        });
+      });
+
       test('proxy  not found', (done) => {
-        nock(domain).get('/jquery').reply(404);
+        mockAgent.get(domain).intercept({ path: '/jquery', method: 'GET' }).reply(404, '');
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', { etag: 'rev_3333' }, (error) => {
           expect(error).toEqual(errorUtils.getNotFound(API_ERROR.NOT_PACKAGE_UPLINK));
           done();
@@ -206,8 +382,12 @@ describe('proxy', () => {
 
     describe('error handling', () => {
       test('reply with error', (done) => {
-        nock(domain).get('/jquery').replyWithError('something awful happened');
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/jquery', method: 'GET' })
+          .replyWithError(new Error('something awful happened'));
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', {}, (error) => {
           expect(error).toEqual(new Error('something awful happened'));
           done();
@@ -215,8 +395,9 @@ describe('proxy', () => {
       });
 
       test('reply with bad body json format', (done) => {
-        nock(domain).get('/jquery').reply(200, 'some-text');
+        mockAgent.get(domain).intercept({ path: '/jquery', method: 'GET' }).reply(200, 'some-text');
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', {}, (error) => {
           expect(error).toEqual(new SyntaxError('Unexpected token s in JSON at position 0'));
           done();
@@ -224,8 +405,9 @@ describe('proxy', () => {
       });
 
       test('400 error proxy call', (done) => {
-        nock(domain).get('/jquery').reply(409);
+        mockAgent.get(domain).intercept({ path: '/jquery', method: 'GET' }).reply(409, '');
         const prox1 = new ProxyStorage(defaultRequestOptions, conf);
+        prox1.dispatcher = mockAgent;
         prox1.getRemoteMetadata('jquery', {}, (error) => {
           expect(error.statusCode).toEqual(500);
           expect(mockInfo).toHaveBeenCalledTimes(1);
@@ -0,0 +1,175 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { Config, parseConfigFile } from '@verdaccio/config';
+import { HEADER_TYPE } from '@verdaccio/core';
+import { setup } from '@verdaccio/logger';
+
+import { DEFAULT_RETRY_ON, getRetryDelay, getRetryOptions, isRetryable } from '../src/retry';
+import { ProxyStorage } from '../src/up-storage';
+
+setup([]);
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+/**
+ * Stand-in uplink, every request is answered by the next handler.
+ */
+async function createUplink(handlers: Handler[]): Promise<{
+  url: string;
+  hits: () => number;
+  close: () => Promise<void>;
+}> {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    const handler = handlers[Math.min(hits, handlers.length - 1)];
+    hits++;
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    hits: () => hits,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+const reply =
+  (status: number, body = ''): Handler =>
+  (_req, res) => {
+    res.writeHead(status, { [HEADER_TYPE.CONTENT_TYPE]: 'application/json' });
+    res.end(body);
+  };
+
+// the connection is closed without a response
+const hangUp: Handler = (req) => req.socket.destroy();
+
+const conf = new Config(parseConfigFile(`${__dirname}/conf/proxy1.yaml`));
+const retry = { count: 2, min: '1ms', max: '10ms' };
+
+const getMetadata = (proxy: ProxyStorage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    proxy.getRemoteMetadata('jquery', {}, (err, body) => (err ? reject(err) : resolve(body)));
+  });
+
+describe('retry', () => {
+  describe('getRetryOptions', () => {
+    test('should be disabled by default', () => {
+      expect(getRetryOptions()).toEqual({
+        count: 0,
+        factor: 2,
+        min: 100,
+        max: 10000,
+        on: DEFAULT_RETRY_ON,
+      });
+    });
+
+    test('should fail on invalid values', () => {
+      expect(() => getRetryOptions({ count: -1 })).toThrow(/invalid uplink retry.count/);
+      expect(() => getRetryOptions({ factor: 0.5 })).toThrow(/invalid uplink retry.factor/);
+      expect(() => getRetryOptions({ min: 'soon' })).toThrow(/invalid uplink retry.min/);
+      // @ts-expect-error
+      expect(() => getRetryOptions({ on: '5xx' })).toThrow(/retry.on must be a list/);
+    });
+  });
+
+  test('getRetryDelay should grow exponentially with jitter', () => {
+    const options = getRetryOptions({ count: 5, min: '100ms', max: '1s' });
+
+    expect(getRetryDelay(options, 1, () => 0)).toEqual(50);
+    expect(getRetryDelay(options, 1, () => 1)).toEqual(100);
+    expect(getRetryDelay(options, 3, () => 1)).toEqual(400);
+    expect(getRetryDelay(options, 5, () => 1)).toEqual(1000);
+  });
+
+  test('isRetryable should match status codes, status classes and error codes', () => {
+    const options = getRetryOptions({ on: ['5xx', 429, 'ECONNRESET'] });
+
+    expect(isRetryable(options, 502)).toBe(true);
+    expect(isRetryable(options, 429)).toBe(true);
+    expect(isRetryable(options, 404)).toBe(false);
+    expect(isRetryable(options, 'ECONNRESET')).toBe(true);
+    expect(isRetryable(options, 'ENOTFOUND')).toBe(false);
+    expect(isRetryable(options, undefined)).toBe(false);
+  });
+
+  describe('ProxyStorage', () => {
+    test('should retry the metadata after a 5xx response', async () => {
+      const uplink = await createUplink([reply(502), reply(200, '{"name":"jquery"}')]);
+      const proxy = new ProxyStorage({ url: uplink.url, retry }, conf);
+
+      await expect(getMetadata(proxy)).resolves.toEqual({ name: 'jquery' });
+      expect(uplink.hits()).toEqual(2);
+      // the transient failure does not count toward max_fails
+      expect(proxy.failed_requests).toEqual(0);
+      await proxy.dispatcher.close();
+      await uplink.close();
+    });
+
+    test('should retry the metadata after a socket hang up', async () => {
+      const uplink = await createUplink([hangUp, reply(200, '{"name":"jquery"}')]);
+      const proxy = new ProxyStorage({ url: uplink.url, retry }, conf);
+
+      await expect(getMetadata(proxy)).resolves.toEqual({ name: 'jquery' });
+      expect(uplink.hits()).toEqual(2);
+      await proxy.dispatcher.close();
+      await uplink.close();
+    });
+
+    test('should give up after retry.count retries', async () => {
+      const uplink = await createUplink([reply(500)]);
+      const proxy = new ProxyStorage({ url: uplink.url, retry }, conf);
+
+      await expect(getMetadata(proxy)).rejects.toThrow(/bad status code: 500/);
+      expect(uplink.hits()).toEqual(3);
+      expect(proxy.failed_requests).toEqual(1);
+      await proxy.dispatcher.close();
+      await uplink.close();
+    });
+
+    test('should not retry without retry configuration', async () => {
+      const uplink = await createUplink([reply(503), reply(200, '{}')]);
+      const proxy = new ProxyStorage({ url: uplink.url }, conf);
+
+      await expect(getMetadata(proxy)).rejects.toThrow(/bad status code: 503/);
+      expect(uplink.hits()).toEqual(1);
+      await proxy.dispatcher.close();
+      await uplink.close();
+    });
+
+    test('should retry a tarball before streaming it', (done) => {
+      createUplink([reply(503), reply(200, 'tarball')]).then((uplink) => {
+        const proxy = new ProxyStorage({ url: uplink.url, retry }, conf);
+        const chunks: Buffer[] = [];
+        const stream = proxy.fetchTarball(`${uplink.url}/jquery/-/jquery-0.0.1.tgz`);
+        stream.on('data', (chunk) => chunks.push(chunk));
+        stream.on('end', () => {
+          expect(Buffer.concat(chunks).toString()).toEqual('tarball');
+          expect(uplink.hits()).toEqual(2);
+          proxy.dispatcher.close().then(uplink.close).then(done);
+        });
+      });
+    });
+
+    test('should not retry a tarball once the body is streamed', (done) => {
+      createUplink([
+        (_req, res) => {
+          res.writeHead(200, { [HEADER_TYPE.CONTENT_LENGTH]: 100 });
+          res.write('partial');
+          setTimeout(() => res.socket?.destroy(), 10);
+        },
+        reply(200, 'tarball'),
+      ]).then((uplink) => {
+        const proxy = new ProxyStorage({ url: uplink.url, retry }, conf);
+        const stream = proxy.fetchTarball(`${uplink.url}/jquery/-/jquery-0.0.1.tgz`);
+        stream.resume();
+        stream.on('error', () => {
+          expect(uplink.hits()).toEqual(1);
+          proxy.dispatcher.close().then(uplink.close).then(done);
+        });
+      });
+    });
+  });
+});
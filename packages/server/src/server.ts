@@ -29,12 +29,14 @@ export interface IPluginMiddleware<T> extends IPlugin<T> {
 const debug = buildDebug('verdaccio:server');
 
 const defineAPI = function (config: IConfig, storage: Storage): any {
-  const auth: Auth = new Auth(config);
+  const auth: Auth = new Auth(config, storage);
   const app: Application = express();
   const limiter = new RateLimit(config.serverSettings.rateLimit);
   // run in production mode by default, just in case
   // it shouldn't make any difference anyway
   app.set('env', process.env.NODE_ENV || 'production');
+  // called once the http server is closed, the downloads not saved yet are saved
+  app.locals.close = (): Promise<void> => storage.close();
   app.use(cors());
   app.use(limiter);
 
@@ -154,7 +156,8 @@ export default (async function (configHash: ConfigRuntime): Promise<any> {
   try {
     // waits until init calls have been initialized
     debug('storage init start');
-    await storage.init(config, filters);
+    // the writes interrupted by a crash are recovered before serving any request
+    await storage.init(config, filters, { recoverJournals: true });
     debug('storage init end');
   } catch (err: any) {
     logger.error({ error: err.msg }, 'storage has failed: @{error}');
@@ -93,21 +93,16 @@ describe('endpoint user profile', () => {
   });
 
   describe('change tfa', () => {
-    test('should report TFA is disabled', async () => {
+    test('should report invalid TFA parameters', async () => {
       const credentials = { name: 'userTest2002', password: 'secretPass002' };
       const body = {
         tfa: {},
       };
       const token = await getNewToken(request(app), credentials);
-      const [, resp] = await postProfile(
-        request(app),
-        body,
-        token,
-        HTTP_STATUS.SERVICE_UNAVAILABLE
-      );
+      const [, resp] = await postProfile(request(app), body, token, HTTP_STATUS.BAD_DATA);
 
       expect(resp.error).not.toBeNull();
-      expect(resp.error.text).toMatch(SUPPORT_ERRORS.TFA_DISABLED);
+      expect(resp.error.text).toMatch(SUPPORT_ERRORS.PARAMETERS_NOT_VALID);
     });
   });
 
@@ -0,0 +1,336 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { parseInterval } from '@verdaccio/proxy';
+import { CacheConf, IPackageStorageManager, Logger } from '@verdaccio/types';
+
+import { readManifest } from './migrate';
+import { Storage } from './storage';
+
+const debug = buildDebug('verdaccio:storage:cache');
+
+export const DEFAULT_CACHE_INTERVAL = '1h';
+const TARBALL_FILE = /\.tgz$/;
+const SIZE_UNITS: { [unit: string]: number } = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+export interface CachedTarball {
+  name: string;
+  filename: string;
+  // bytes
+  size: number;
+  // milliseconds
+  cached: number;
+  accessed: number;
+}
+
+export interface CacheRules {
+  // milliseconds
+  maxAge?: number;
+  maxIdle?: number;
+  // bytes
+  maxSize?: number;
+}
+
+export interface CacheEvictionResult {
+  packages: number;
+  tarballs: number;
+  // bytes
+  size: number;
+  errors: number;
+}
+
+/**
+ * Parse a size in bytes, eg: 512, 100kb, 1.5gb.
+ * @throws {Error} if the size is not valid
+ */
+export function parseSize(size: string | number): number {
+  if (typeof size === 'number') {
+    if (Number.isFinite(size) === false || size < 0) {
+      throw new Error(`invalid size: ${size}`);
+    }
+    return size;
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i.exec(String(size).trim());
+  if (match === null) {
+    throw new Error(`invalid size: ${size}`);
+  }
+
+  return Math.floor(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+function validateInterval(cache: CacheConf, key: 'max_age' | 'max_idle' | 'interval'): void {
+  if (_.isNil(cache[key])) {
+    return;
+  }
+
+  let interval = 0;
+  try {
+    interval = parseInterval(cache[key] as string);
+  } catch {
+    // reported below
+  }
+  if (interval <= 0) {
+    throw new Error(`CONFIG: invalid cache.${key} "${cache[key]}"`);
+  }
+}
+
+/**
+ * Validate the cache section of the configuration.
+ * @throws {Error} if the cache section is invalid
+ */
+export function validateCache(cache?: CacheConf): void {
+  if (_.isNil(cache)) {
+    return;
+  }
+
+  validateInterval(cache, 'max_age');
+  validateInterval(cache, 'max_idle');
+  validateInterval(cache, 'interval');
+
+  if (_.isNil(cache.max_size) === false) {
+    try {
+      parseSize(cache.max_size as string | number);
+    } catch {
+      throw new Error(`CONFIG: invalid cache.max_size "${cache.max_size}"`);
+    }
+  }
+
+  if (_.isNil(cache.max_age) && _.isNil(cache.max_idle) && _.isNil(cache.max_size)) {
+    throw new Error('CONFIG: cache requires max_age, max_idle or max_size');
+  }
+}
+
+export function getCacheRules(cache: CacheConf): CacheRules {
+  return {
+    maxAge: _.isNil(cache.max_age) ? undefined : parseInterval(cache.max_age),
+    maxIdle: _.isNil(cache.max_idle) ? undefined : parseInterval(cache.max_idle),
+    maxSize: _.isNil(cache.max_size) ? undefined : parseSize(cache.max_size),
+  };
+}
+
+/**
+ * The tarballs to evict: those cached for longer than `maxAge` or not downloaded for
+ * longer than `maxIdle`, then the least recently downloaded until the total size of
+ * the remaining ones fits in `maxSize`.
+ */
+export function selectEvictions(
+  tarballs: CachedTarball[],
+  rules: CacheRules,
+  now: number
+): CachedTarball[] {
+  const evicted = new Set<CachedTarball>();
+  for (const tarball of tarballs) {
+    if (
+      (_.isNil(rules.maxAge) === false && now - tarball.cached > rules.maxAge!) ||
+      (_.isNil(rules.maxIdle) === false && now - tarball.accessed > rules.maxIdle!)
+    ) {
+      evicted.add(tarball);
+    }
+  }
+
+  if (_.isNil(rules.maxSize) === false) {
+    const kept = tarballs
+      .filter((tarball) => evicted.has(tarball) === false)
+      .sort((a, b) => b.accessed - a.accessed);
+    let total = 0;
+    for (const tarball of kept) {
+      total += tarball.size;
+      if (total > rules.maxSize!) {
+        evicted.add(tarball);
+      }
+    }
+  }
+
+  return tarballs.filter((tarball) => evicted.has(tarball));
+}
+
+/**
+ * Remove the tarballs cached from the uplinks periodically according to the cache
+ * rules, the tarballs of the published packages are never evicted. An evicted tarball
+ * is fetched again from the uplinks on the next download.
+ */
+export class CacheEviction {
+  private storage: Storage;
+  private config: CacheConf;
+  private logger: Logger;
+  private timer: ReturnType<typeof setInterval> | null;
+  private running: Promise<CacheEvictionResult> | null;
+  // downloads not saved yet, time in milliseconds by tarball by package
+  private accesses: Map<string, Map<string, number>>;
+
+  public constructor(storage: Storage, config: CacheConf, logger: Logger) {
+    this.storage = storage;
+    this.config = config;
+    this.logger = logger;
+    this.timer = null;
+    this.running = null;
+    this.accesses = new Map();
+  }
+
+  /**
+   * Record the download of a tarball, saved on the next run.
+   */
+  public touch(name: string, filename: string, time = Date.now()): void {
+    let files = this.accesses.get(name);
+    if (_.isNil(files)) {
+      files = new Map();
+      this.accesses.set(name, files);
+    }
+    files.set(filename, time);
+  }
+
+  /**
+   * Run the job now and then on every interval.
+   */
+  public start(): void {
+    const interval = parseInterval(this.config.interval ?? DEFAULT_CACHE_INTERVAL);
+    debug('cache eviction scheduled every %o ms', interval);
+    this.stop();
+    this.timer = setInterval(() => this.runSafe(), interval);
+    // the job should not keep the process alive
+    this.timer.unref();
+    this.runSafe();
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public run(): Promise<CacheEvictionResult> {
+    if (this.running === null) {
+      this.running = this.evict().finally(() => {
+        this.running = null;
+      });
+    } else {
+      debug('cache eviction is already running');
+    }
+
+    return this.running;
+  }
+
+  private runSafe(): void {
+    this.run().catch((err) => {
+      this.logger.error({ err: err.message }, 'cache eviction failed: @{err}');
+    });
+  }
+
+  private async evict(): Promise<CacheEvictionResult> {
+    await this.saveAccesses();
+    const result: CacheEvictionResult = { packages: 0, tarballs: 0, size: 0, errors: 0 };
+    const tarballs = await this.getCachedTarballs(result);
+    const evictions = selectEvictions(tarballs, getCacheRules(this.config), Date.now());
+    const plugin = this.storage.localStorage.storagePlugin;
+
+    for (const { name, filename, size } of evictions) {
+      if (this.accesses.get(name)?.has(filename)) {
+        // downloaded meanwhile
+        continue;
+      }
+      try {
+        const storage = plugin.getPackageStorage(name) as IPackageStorageManager;
+        // the entry of _distfiles is kept to fetch the tarball again on demand
+        await storage.deletePackage(filename);
+        result.tarballs++;
+        result.size += size;
+        debug('tarball %o evicted', filename);
+      } catch (err: any) {
+        result.errors++;
+        this.logger.warn(
+          { filename, err: err.message },
+          'eviction of tarball @{filename} failed: @{err}'
+        );
+      }
+    }
+
+    this.logger.info(
+      { ...result },
+      'cache eviction finished: @{tarballs} tarballs evicted, @{size} bytes freed, @{errors} errors'
+    );
+    return result;
+  }
+
+  /**
+   * Save the downloads recorded since the last run on the manifests of the cached
+   * packages.
+   */
+  private async saveAccesses(): Promise<void> {
+    const accesses = this.accesses;
+    this.accesses = new Map();
+
+    for (const [name, files] of accesses) {
+      try {
+        const manifest = await this.storage.localStorage.getPackageMetadataNext(name);
+        // only the tarballs fetched from the uplinks have a dist file, the manifests of
+        // the published packages are not rewritten on every download
+        const cached = [...files.keys()].some(
+          (filename) => _.isNil(manifest._distfiles?.[filename]) === false
+        );
+        if (cached) {
+          await this.storage.localStorage.updateTarballAccess(name, files);
+        }
+      } catch (err: any) {
+        debug('downloads of %o not saved: %o', name, err.message);
+      }
+    }
+  }
+
+  /**
+   * The tarballs fetched from the uplinks stored for the cached packages.
+   */
+  private async getCachedTarballs(result: CacheEvictionResult): Promise<CachedTarball[]> {
+    const plugin = this.storage.localStorage.storagePlugin;
+    const stored = await plugin.search({ text: '', quality: 1, popularity: 1, maintenance: 1 });
+    const tarballs: CachedTarball[] = [];
+
+    for (const item of stored ?? []) {
+      if (item.verdaccioPkgCached !== true) {
+        continue;
+      }
+      const name = item.package.name;
+      const storage = plugin.getPackageStorage(name) as IPackageStorageManager;
+      if (_.isNil(storage)) {
+        continue;
+      }
+      if (typeof storage.listFiles !== 'function') {
+        throw new Error('the storage plugin cannot list the files of the packages');
+      }
+
+      try {
+        const manifest = await readManifest(storage, name);
+        if (manifest === null) {
+          continue;
+        }
+        for (const file of await storage.listFiles()) {
+          const distFile = manifest._distfiles?.[file.name];
+          // the tarballs cached are attached too, the published ones have no dist file
+          if (TARBALL_FILE.test(file.name) === false || _.isNil(distFile)) {
+            continue;
+          }
+          tarballs.push({
+            name,
+            filename: file.name,
+            size: file.size,
+            cached: file.modified,
+            accessed: distFile.accessed ?? file.modified,
+          });
+        }
+        result.packages++;
+      } catch (err: any) {
+        result.errors++;
+        this.logger.warn({ name, err: err.message }, 'cache of @{name} not listed: @{err}');
+      }
+    }
+
+    return tarballs;
+  }
+}
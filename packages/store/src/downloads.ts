@@ -0,0 +1,277 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { HTTP_STATUS } from '@verdaccio/core';
+import { Logger, Package, PackageDownloads } from '@verdaccio/types';
+
+import { Storage } from './storage';
+import { getVersionTarballFilename } from './storage-utils';
+
+const debug = buildDebug('verdaccio:storage:downloads');
+
+// milliseconds between the saves of the downloads
+export const DOWNLOADS_SAVE_INTERVAL = 60 * 1000;
+// days kept, the npm downloads API does not serve more than 18 months
+export const DOWNLOADS_MAX_DAYS = 549;
+const DAY = 24 * 60 * 60 * 1000;
+const DAY_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const LAST_PERIODS: { [period: string]: number } = {
+  'last-day': 1,
+  'last-week': 7,
+  'last-month': 30,
+  'last-year': 365,
+};
+
+// downloads by tarball by day
+export type DownloadCounts = Map<string, Map<string, number>>;
+
+export interface DownloadsPeriod {
+  // days, eg: 2022-01-31
+  start: string;
+  end: string;
+}
+
+export interface DownloadsPoint extends DownloadsPeriod {
+  downloads: number;
+  package: string;
+  // downloads by version
+  versions: { [version: string]: number };
+}
+
+export interface DownloadsRange extends DownloadsPeriod {
+  downloads: { downloads: number; day: string }[];
+  package: string;
+}
+
+/**
+ * The day of a time in UTC, eg: 2022-01-31.
+ */
+export function getDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function isDay(day: string): boolean {
+  return DAY_FORMAT.test(day) && getDay(Date.parse(day) || 0) === day;
+}
+
+/**
+ * Parse a period of the npm downloads API: last-day, last-week, last-month, last-year,
+ * a day or a range of days, eg: 2022-01-01:2022-01-31. The last periods end today.
+ * @return null if the period is not valid
+ */
+export function parseDownloadsPeriod(period: string, now = Date.now()): DownloadsPeriod | null {
+  if (Object.prototype.hasOwnProperty.call(LAST_PERIODS, period)) {
+    return { start: getDay(now - (LAST_PERIODS[period] - 1) * DAY), end: getDay(now) };
+  }
+
+  const [start, end = start, ...rest] = period.split(':');
+  if (rest.length > 0 || isDay(start) === false || isDay(end) === false || start > end) {
+    return null;
+  }
+  if ((Date.parse(end) - Date.parse(start)) / DAY >= DOWNLOADS_MAX_DAYS) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+function getDays({ start, end }: DownloadsPeriod): string[] {
+  const days: string[] = [];
+  for (let time = Date.parse(start); time <= Date.parse(end); time += DAY) {
+    days.push(getDay(time));
+  }
+
+  return days;
+}
+
+/**
+ * The total of downloads of a period, shaped as the npm downloads API point response.
+ */
+export function getDownloadsPoint(
+  name: string,
+  downloads: PackageDownloads,
+  period: DownloadsPeriod
+): DownloadsPoint {
+  const point: DownloadsPoint = { downloads: 0, ...period, package: name, versions: {} };
+  for (const day of getDays(period)) {
+    for (const [version, count] of Object.entries(downloads[day] ?? {})) {
+      point.versions[version] = (point.versions[version] ?? 0) + count;
+      point.downloads += count;
+    }
+  }
+
+  return point;
+}
+
+/**
+ * The downloads of every day of a period, shaped as the npm downloads API range response.
+ */
+export function getDownloadsRange(
+  name: string,
+  downloads: PackageDownloads,
+  period: DownloadsPeriod
+): DownloadsRange {
+  return {
+    downloads: getDays(period).map((day) => ({
+      downloads: _.sum(Object.values(downloads[day] ?? {})),
+      day,
+    })),
+    ...period,
+    package: name,
+  };
+}
+
+/**
+ * Add the downloads of the tarballs to the downloads of a package by version, the
+ * versions are the ones of its manifest, and drop the days older than
+ * `DOWNLOADS_MAX_DAYS`. The tarballs without version, eg: unpublished meanwhile, are
+ * not counted.
+ */
+export function addDownloads(
+  downloads: PackageDownloads,
+  manifest: Package,
+  counts: DownloadCounts,
+  now = Date.now()
+): void {
+  const versions = new Map<string, string>();
+  for (const [version, data] of Object.entries(manifest.versions ?? {})) {
+    const filename = getVersionTarballFilename(data);
+    if (filename !== null) {
+      versions.set(filename, version);
+    }
+  }
+
+  for (const [day, files] of counts) {
+    for (const [filename, count] of files) {
+      const version = versions.get(filename);
+      if (_.isNil(version)) {
+        continue;
+      }
+      downloads[day] = downloads[day] ?? {};
+      downloads[day][version] = (downloads[day][version] ?? 0) + count;
+    }
+  }
+
+  const oldest = getDay(now - (DOWNLOADS_MAX_DAYS - 1) * DAY);
+  for (const day of Object.keys(downloads)) {
+    if (day < oldest) {
+      delete downloads[day];
+    }
+  }
+}
+
+/**
+ * Count the downloads of the tarballs in memory and save them periodically apart from
+ * the manifests, the downloads of a package are written at most once per interval.
+ */
+export class DownloadCounter {
+  private storage: Storage;
+  private logger: Logger;
+  private timer: ReturnType<typeof setInterval> | null;
+  // downloads not saved yet by package
+  private counts: Map<string, DownloadCounts>;
+  // the saves are serialized, the saved downloads are read and written back
+  private saving: Promise<void>;
+
+  public constructor(storage: Storage, logger: Logger) {
+    this.storage = storage;
+    this.logger = logger;
+    this.timer = null;
+    this.counts = new Map();
+    this.saving = Promise.resolve();
+  }
+
+  public count(name: string, filename: string, time = Date.now()): void {
+    this.addCount(name, getDay(time), filename, 1);
+  }
+
+  /**
+   * Save the downloads on every interval.
+   */
+  public start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.save(), DOWNLOADS_SAVE_INTERVAL);
+    // the job should not keep the process alive
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Save the downloads counted of a package, or of all the packages. The downloads
+   * not saved are kept for the next time, unless the package does not exist anymore.
+   */
+  public save(name?: string): Promise<void> {
+    this.saving = this.saving.then(() => this.saveCounts(name));
+
+    return this.saving;
+  }
+
+  /**
+   * The downloads saved of a package with the ones counted since, nothing is written.
+   * The reads are serialized with the saves, the downloads being saved are read once.
+   */
+  public getDownloads(name: string): Promise<PackageDownloads> {
+    const reading = this.saving.then(async () => {
+      // fails for a package not stored
+      const manifest = await this.storage.localStorage.getPackageMetadataNext(name);
+      const downloads = await this.storage.localStorage.getDownloads(name);
+      const counts = this.counts.get(name);
+      if (counts !== undefined) {
+        addDownloads(downloads, manifest, counts);
+      }
+
+      return downloads;
+    });
+    // a failed read does not prevent the next saves
+    this.saving = reading.then(_.noop, _.noop);
+
+    return reading;
+  }
+
+  private async saveCounts(name?: string): Promise<void> {
+    const names = _.isNil(name) ? [...this.counts.keys()] : [name];
+    for (const name of names) {
+      const counts = this.counts.get(name);
+      if (_.isNil(counts)) {
+        continue;
+      }
+      this.counts.delete(name);
+
+      try {
+        await this.storage.localStorage.updateDownloads(name, counts);
+        debug('downloads of %o saved', name);
+      } catch (err: any) {
+        if (err.status === HTTP_STATUS.NOT_FOUND) {
+          debug('downloads of %o dropped, the package does not exist', name);
+          continue;
+        }
+        this.logger.warn({ name, err: err.message }, 'downloads of @{name} not saved: @{err}');
+        for (const [day, files] of counts) {
+          for (const [filename, count] of files) {
+            this.addCount(name, day, filename, count);
+          }
+        }
+      }
+    }
+  }
+
+  private addCount(name: string, day: string, filename: string, count: number): void {
+    let counts = this.counts.get(name);
+    if (_.isNil(counts)) {
+      counts = new Map();
+      this.counts.set(name, counts);
+    }
+    let files = counts.get(day);
+    if (_.isNil(files)) {
+      files = new Map();
+      counts.set(day, files);
+    }
+    files.set(filename, (files.get(filename) ?? 0) + count);
+  }
+}
@@ -0,0 +1,134 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { IPackageStorageManager, Logger } from '@verdaccio/types';
+
+import { GarbageReason, collectGarbage, getGarbageMinAge, getStoredPackages } from './gc';
+import { IPluginStorage } from './local-storage';
+import { readManifest } from './migrate';
+
+const debug = buildDebug('verdaccio:storage:fsck');
+
+/**
+ * - missing-manifest: a package of the database without manifest, repaired by removing it
+ *   from the database
+ * - invalid-manifest: a manifest that cannot be read, only reported
+ * - missing-tarball: a published tarball not in the storage, only reported
+ * - unreferenced and temporary: the garbage, repaired by removing it, see `collectGarbage`
+ * - interrupted-write: a write of the journal, interrupted by a crash or in progress,
+ *   repaired by the recovery of the storage plugin
+ */
+export type FsckIssueType =
+  | 'interrupted-write'
+  | 'missing-manifest'
+  | 'invalid-manifest'
+  | 'missing-tarball'
+  | GarbageReason;
+
+export interface FsckIssue {
+  name: string;
+  filename?: string;
+  type: FsckIssueType;
+  repaired: boolean;
+}
+
+export interface FsckOptions {
+  // repair the issues that can be repaired
+  repair?: boolean;
+  // milliseconds, the garbage modified more recently is kept
+  minAge?: number;
+}
+
+export interface FsckReport {
+  packages: number;
+  issues: FsckIssue[];
+  errors: { name: string; message: string }[];
+}
+
+/**
+ * Check the consistency of the database, the manifests and the files of the packages,
+ * and repair the issues when `repair`. The writes interrupted by a crash are recovered
+ * first, the server should be stopped since the writes in progress are undone as well.
+ */
+export async function checkStorage(
+  plugin: IPluginStorage,
+  options: FsckOptions,
+  logger: Logger
+): Promise<FsckReport> {
+  const report: FsckReport = { packages: 0, issues: [], errors: [] };
+  const repair = options.repair === true;
+  if (typeof plugin.getJournals === 'function') {
+    const recover = repair && typeof plugin.recoverJournals === 'function';
+    for (const { name, files } of await plugin.getJournals()) {
+      for (const filename of files) {
+        report.issues.push({ name, filename, type: 'interrupted-write', repaired: recover });
+      }
+    }
+    if (recover) {
+      await plugin.recoverJournals?.();
+    }
+  }
+  const listed: string[] = [...((await plugin.get()) ?? [])];
+  const names = await getStoredPackages(plugin);
+  const invalid = new Set<string>();
+  debug('check %o packages', names.length);
+
+  for (const name of names) {
+    const storage = plugin.getPackageStorage(name) as IPackageStorageManager;
+    if (_.isNil(storage)) {
+      continue;
+    }
+
+    let manifest;
+    try {
+      manifest = await readManifest(storage, name);
+    } catch (err: any) {
+      debug('manifest of %o not readable %o', name, err.message);
+      invalid.add(name);
+      report.issues.push({ name, type: 'invalid-manifest', repaired: false });
+      continue;
+    }
+
+    try {
+      if (manifest === null) {
+        if (listed.includes(name)) {
+          if (repair) {
+            await plugin.remove(name);
+            logger.info({ name }, 'package @{name} without manifest removed from the database');
+          }
+          report.issues.push({ name, type: 'missing-manifest', repaired: repair });
+        }
+        continue;
+      }
+
+      if (typeof storage.listFiles !== 'function') {
+        throw new Error('the storage plugin cannot list the files of the packages');
+      }
+      const files = new Set((await storage.listFiles()).map((file) => file.name));
+      for (const filename of Object.keys(manifest._attachments ?? {})) {
+        if (files.has(filename) === false) {
+          report.issues.push({ name, filename, type: 'missing-tarball', repaired: false });
+        }
+      }
+      report.packages++;
+    } catch (err: any) {
+      logger.error({ name, err }, 'package @{name} not checked: @{err.message}');
+      report.errors.push({ name, message: err.message });
+    }
+  }
+
+  const garbage = await collectGarbage(
+    plugin,
+    { dryRun: !repair, minAge: options.minAge ?? getGarbageMinAge() },
+    logger
+  );
+  // the invalid manifests are already reported
+  const errors = garbage.errors.filter(({ name }) => invalid.has(name) === false);
+  for (const { name, filename, reason } of garbage.files) {
+    const failed = errors.some((error) => error.name === name);
+    report.issues.push({ name, filename, type: reason, repaired: repair && !failed });
+  }
+  report.errors = _.uniqBy([...report.errors, ...errors], 'name');
+
+  return report;
+}
@@ -0,0 +1,189 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { parseInterval } from '@verdaccio/proxy';
+import {
+  GarbageCollectionConf,
+  IPackageStorageManager,
+  Logger,
+  Package,
+  PackageFile,
+} from '@verdaccio/types';
+
+import { IPluginStorage } from './local-storage';
+import { readManifest } from './migrate';
+import { STORAGE, getVersionTarballFilename } from './storage-utils';
+
+const debug = buildDebug('verdaccio:storage:gc');
+
+export const DEFAULT_GC_MIN_AGE = '1h';
+// leftovers of local-storage writes, eg: react-1.0.0.tgz.tmp-123 or package.json.tmp123
+const TEMPORARY_FILE = /\.tmp-?\d+$/;
+const TARBALL_FILE = /\.tgz$/;
+
+export type GarbageReason = 'unreferenced' | 'temporary';
+
+export interface GarbageFile {
+  name: string;
+  filename: string;
+  reason: GarbageReason;
+}
+
+export interface GarbageCollectOptions {
+  // report the garbage without removing it
+  dryRun?: boolean;
+  // milliseconds, the files modified more recently are kept
+  minAge?: number;
+}
+
+export interface GarbageReport {
+  packages: number;
+  files: GarbageFile[];
+  removed: number;
+  errors: { name: string; message: string }[];
+}
+
+/**
+ * Validate the gc section of the configuration.
+ * @throws {Error} if the gc section is invalid
+ */
+export function validateGarbageCollection(gc?: GarbageCollectionConf): void {
+  if (_.isNil(gc)) {
+    return;
+  }
+
+  if (_.isNil(gc.min_age) === false) {
+    let minAge = -1;
+    try {
+      minAge = parseInterval(gc.min_age as string);
+    } catch {
+      // reported below
+    }
+    if (minAge < 0) {
+      throw new Error(`CONFIG: invalid gc.min_age "${gc.min_age}"`);
+    }
+  }
+
+  if (
+    _.isNil(gc.access) === false &&
+    _.isString(gc.access) === false &&
+    (_.isArray(gc.access) === false || (gc.access as string[]).every(_.isString) === false)
+  ) {
+    throw new Error('CONFIG: gc.access must be a list of users and groups');
+  }
+}
+
+/**
+ * The minimum age in milliseconds of the files to collect.
+ */
+export function getGarbageMinAge(gc?: GarbageCollectionConf): number {
+  return parseInterval(gc?.min_age ?? DEFAULT_GC_MIN_AGE);
+}
+
+/**
+ * The files of a package referenced by its manifest: the manifest, the published
+ * tarballs and the tarballs of the versions.
+ */
+export function getReferencedFiles(manifest: Package): Set<string> {
+  const referenced = new Set<string>([STORAGE.PACKAGE_FILE_NAME]);
+  for (const filename of Object.keys(manifest._attachments ?? {})) {
+    referenced.add(filename);
+  }
+  for (const filename of Object.keys(manifest._distfiles ?? {})) {
+    referenced.add(filename);
+  }
+  for (const version of Object.values(manifest.versions ?? {})) {
+    const filename = getVersionTarballFilename(version);
+    if (filename !== null) {
+      referenced.add(filename);
+    }
+  }
+
+  return referenced;
+}
+
+function getGarbageReason(file: PackageFile, referenced: Set<string>): GarbageReason | null {
+  if (TEMPORARY_FILE.test(file.name)) {
+    return 'temporary';
+  }
+  if (TARBALL_FILE.test(file.name) && referenced.has(file.name) === false) {
+    return 'unreferenced';
+  }
+
+  return null;
+}
+
+/**
+ * The published and the cached packages of a storage.
+ */
+export async function getStoredPackages(plugin: IPluginStorage): Promise<string[]> {
+  // a copy, some storages return their own list
+  const names: string[] = [...((await plugin.get()) ?? [])];
+  try {
+    // only the search of some storages lists the packages cached from the uplinks
+    const stored = await plugin.search({ text: '', quality: 1, popularity: 1, maintenance: 1 });
+    names.push(...(stored ?? []).map((item) => item.package.name));
+  } catch (err: any) {
+    debug('search not available %o', err.message);
+  }
+
+  return _.uniq(names);
+}
+
+/**
+ * Find the tarballs not referenced by the manifest of their package and the leftovers
+ * of interrupted writes, and remove them unless `dryRun`. A failed package does not
+ * stop the collection, it is reported in the result.
+ */
+export async function collectGarbage(
+  plugin: IPluginStorage,
+  options: GarbageCollectOptions,
+  logger: Logger
+): Promise<GarbageReport> {
+  const report: GarbageReport = { packages: 0, files: [], removed: 0, errors: [] };
+  const minAge = options.minAge ?? getGarbageMinAge();
+  const names = await getStoredPackages(plugin);
+  debug('collect the garbage of %o packages', names.length);
+
+  for (const name of names) {
+    const storage = plugin.getPackageStorage(name) as IPackageStorageManager;
+    if (_.isNil(storage)) {
+      continue;
+    }
+    if (typeof storage.listFiles !== 'function') {
+      throw new Error('the storage plugin cannot list the files of the packages');
+    }
+
+    try {
+      const files = await storage.listFiles();
+      const manifest = await readManifest(storage, name);
+      // the tarballs of a package without manifest are not referenced at all
+      const referenced = manifest === null ? new Set<string>() : getReferencedFiles(manifest);
+      const now = Date.now();
+      for (const file of files) {
+        const reason = getGarbageReason(file, referenced);
+        if (reason === null) {
+          continue;
+        }
+        if (now - file.modified < minAge) {
+          // eg: the tarball of a publish in progress
+          debug('keep the recent file %o of %o', file.name, name);
+          continue;
+        }
+
+        report.files.push({ name, filename: file.name, reason });
+        if (!options.dryRun) {
+          await storage.deletePackage(file.name);
+          report.removed++;
+          logger.info({ name, filename: file.name, reason }, '@{reason} file @{filename} removed');
+        }
+      }
+      report.packages++;
+    } catch (err: any) {
+      logger.error({ name, err }, 'garbage of @{name} not collected: @{err.message}');
+      report.errors.push({ name, message: err.message });
+    }
+  }
+
+  return report;
+}
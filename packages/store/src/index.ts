@@ -2,4 +2,10 @@ export * from './storage';
 export * from './storage-utils';
 export * from './star-utils';
 export * from './search';
+export * from './mirror';
 export * from './type';
+export * from './migrate';
+export * from './cache';
+export * from './downloads';
+export * from './gc';
+export * from './fsck';
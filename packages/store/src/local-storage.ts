@@ -17,11 +17,13 @@ import {
   Config,
   DistFile,
   IPackageStorage,
+  IPackageStorageManager,
   IReadTarball,
   IUploadTarball,
   Logger,
   MergeTags,
   Package,
+  PackageDownloads,
   StorageUpdateCallback,
   StringValue,
   Token,
@@ -29,15 +31,23 @@ import {
   Version,
 } from '@verdaccio/types';
 import { getLatestVersion, isObject } from '@verdaccio/utils';
-import { createTarballHash, normalizeContributors } from '@verdaccio/utils';
+import {
+  createIntegrityHash,
+  createTarballHash,
+  defaultIntegrityAlgorithm,
+  normalizeContributors,
+} from '@verdaccio/utils';
 
+import { DownloadCounts, addDownloads } from './downloads';
 import {
   STORAGE,
   cleanUpReadme,
   generatePackageTemplate,
   generateRevision,
   getLatestReadme,
+  getTarballsMissingIntegrity,
   normalizePackage,
+  setTarballIntegrity,
   tagVersion,
 } from './storage-utils';
 
@@ -111,6 +121,19 @@ class LocalStorage {
     return;
   }
 
+  /**
+   * Complete or undo the writes interrupted by a crash, when the storage plugin
+   * supports it.
+   */
+  public async recoverJournals(): Promise<void> {
+    if (typeof this.storagePlugin.recoverJournals !== 'function') {
+      debug('the storage plugin has no journals');
+      return;
+    }
+    const recoveries = await this.storagePlugin.recoverJournals();
+    debug('interrupted writes of %o packages recovered', recoveries.length);
+  }
+
   public addPackage(name: string, pkg: Package, callback: Callback): void {
     debug(`creating a package for`, name);
     const storage: any = this._getLocalStorage(name);
@@ -257,7 +280,8 @@ class LocalStorage {
           const need_change =
             !isObject(packageLocalJson._uplinks[up]) ||
             packageInfo._uplinks[up].etag !== packageLocalJson._uplinks[up].etag ||
-            packageInfo._uplinks[up].fetched !== packageLocalJson._uplinks[up].fetched;
+            packageInfo._uplinks[up].fetched !== packageLocalJson._uplinks[up].fetched ||
+            packageInfo._uplinks[up].last_modified !== packageLocalJson._uplinks[up].last_modified;
 
           if (need_change) {
             change = true;
@@ -349,6 +373,13 @@ class LocalStorage {
 
             data.time[version] = currentDate;
             data._attachments[tarball].version = version;
+            // the integrity calculated on upload is kept if the client did not provide one
+            if (
+              _.isNil(metadata.dist.integrity) &&
+              _.isString(data._attachments[tarball].integrity)
+            ) {
+              metadata.dist.integrity = data._attachments[tarball].integrity;
+            }
           }
         }
 
@@ -422,6 +453,13 @@ class LocalStorage {
 
           data.time[version] = currentDate;
           data._attachments[tarball].version = version;
+          // the integrity calculated on upload is kept if the client did not provide one
+          if (
+            _.isNil(metadata.dist.integrity) &&
+            _.isString(data._attachments[tarball].integrity)
+          ) {
+            metadata.dist.integrity = data._attachments[tarball].integrity;
+          }
         }
       }
 
@@ -739,6 +777,7 @@ class LocalStorage {
 
     let length = 0;
     const shaOneHash = createTarballHash();
+    const integrityHash = createIntegrityHash();
     const uploadStream: IUploadTarball = new UploadTarball({});
     const _transform = uploadStream._transform;
     const storage = this._getLocalStorage(name);
@@ -748,6 +787,7 @@ class LocalStorage {
 
     uploadStream._transform = function (data, ...args): void {
       shaOneHash.update(data);
+      integrityHash.update(data);
       // measure the length for validation reasons
       length += data.length;
       const appliedData = [data, ...args];
@@ -799,13 +839,16 @@ class LocalStorage {
     });
 
     writeStream.on('success', (): void => {
+      const integrity = `${defaultIntegrityAlgorithm}-${integrityHash.digest('base64')}`;
       this._updatePackage(
         name,
         function updater(data, cb): void {
           // FUTURE: move this to tarballUtils
           data._attachments[filename] = {
             shasum: shaOneHash.digest('hex'),
+            integrity,
           };
+          setTarballIntegrity(data, filename, integrity);
           cb(null);
         },
         function (err): void {
@@ -838,6 +881,132 @@ class LocalStorage {
     return uploadStream;
   }
 
+  /**
+   * Calculate the missing dist.integrity of the versions stored locally, the packages
+   * are processed one by one to keep the load low.
+   * @return the number of versions updated
+   */
+  public async backfillIntegrity(): Promise<number> {
+    const packages: string[] = (await this.storagePlugin.get()) ?? [];
+    debug('backfill integrity of %o packages', packages.length);
+    let updated = 0;
+    for (const name of packages) {
+      try {
+        updated += await this._backfillPackageIntegrity(name);
+      } catch (err: any) {
+        this.logger.warn(
+          { name, err: err.message },
+          'integrity backfill failed for @{name}: @{err}'
+        );
+      }
+    }
+
+    debug('integrity backfill updated %o versions', updated);
+    return updated;
+  }
+
+  /**
+   * Save the last download of the cached tarballs of a package.
+   * @param accesses time in milliseconds by tarball
+   */
+  public updateTarballAccess(name: string, accesses: Map<string, number>): Promise<void> {
+    return new Promise((resolve, reject): void => {
+      this._updatePackage(
+        name,
+        (data, cb): void => {
+          for (const [filename, accessed] of accesses) {
+            const distFile = data._distfiles?.[filename];
+            if (_.isNil(distFile) === false && (distFile.accessed ?? 0) < accessed) {
+              distFile.accessed = accessed;
+            }
+          }
+          cb(null);
+        },
+        (err): void => (err ? reject(err) : resolve())
+      );
+    });
+  }
+
+  /**
+   * Add the downloads of the tarballs of a package to the downloads saved, they are
+   * stored apart from the manifest.
+   */
+  public async updateDownloads(name: string, counts: DownloadCounts): Promise<void> {
+    const storage = this._getLocalStorage(name) as IPackageStorageManager;
+    if (_.isNil(storage)) {
+      throw errorUtils.getNotFound();
+    }
+    const manifest = await this.getPackageMetadataNext(name);
+    if (typeof storage.saveDownloads !== 'function') {
+      debug('downloads of %o dropped, the storage plugin cannot save them', name);
+      return;
+    }
+
+    const downloads = await this.getDownloads(name);
+    addDownloads(downloads, manifest, counts);
+    await storage.saveDownloads(downloads);
+  }
+
+  /**
+   * The daily downloads by version saved of a package.
+   */
+  public async getDownloads(name: string): Promise<PackageDownloads> {
+    const storage = this._getLocalStorage(name) as IPackageStorageManager;
+    if (_.isNil(storage)) {
+      throw errorUtils.getNotFound();
+    }
+
+    return typeof storage.readDownloads === 'function' ? await storage.readDownloads() : {};
+  }
+
+  private async _backfillPackageIntegrity(name: string): Promise<number> {
+    const manifest = await this.getPackageMetadataNext(name);
+    const filenames = getTarballsMissingIntegrity(manifest);
+    if (filenames.length === 0) {
+      return 0;
+    }
+
+    const storage: IPackageStorage = this._getLocalStorage(name);
+    const integrities: { [filename: string]: string } = {};
+    for (const filename of filenames) {
+      try {
+        integrities[filename] = await this._calculateTarballIntegrity(storage, filename);
+      } catch (err: any) {
+        debug('tarball %o of %o cannot be read: %o', filename, name, err.message);
+      }
+    }
+
+    let updated = 0;
+    await new Promise((resolve, reject): void => {
+      this._updatePackage(
+        name,
+        (data, cb): void => {
+          for (const filename of Object.keys(integrities)) {
+            updated += setTarballIntegrity(data, filename, integrities[filename]);
+          }
+          cb(null);
+        },
+        (err): void => (err ? reject(err) : resolve(true))
+      );
+    });
+    debug('%o versions of %o updated with integrity', updated, name);
+    return updated;
+  }
+
+  private _calculateTarballIntegrity(storage: any, filename: string): Promise<string> {
+    return new Promise((resolve, reject): void => {
+      const integrityHash = createIntegrityHash();
+      const readStream = storage.readTarball(filename);
+      readStream.on('data', (data: Buffer): void => {
+        integrityHash.update(data);
+      });
+      readStream.on('end', (): void => {
+        resolve(`${defaultIntegrityAlgorithm}-${integrityHash.digest('base64')}`);
+      });
+      readStream.on('error', reject);
+    });
+  }
+
   /**
    * Get a tarball.
    * @param {*} name
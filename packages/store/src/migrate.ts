@@ -0,0 +1,280 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { HTTP_STATUS } from '@verdaccio/core';
+import { Config, IPackageStorageManager, Logger, Package } from '@verdaccio/types';
+import { createTarballHash } from '@verdaccio/utils';
+
+import { IPluginStorage, LocalStorage } from './local-storage';
+import { STORAGE, getVersionTarballFilename } from './storage-utils';
+
+const debug = buildDebug('verdaccio:storage:migrate');
+
+export interface MigrateOptions {
+  // report what would be copied without writing to the destination
+  dryRun?: boolean;
+  // keep the tarballs already in the destination, eg: after an interrupted migration
+  resume?: boolean;
+  // read back every tarball from the destination and compare the checksums
+  verify?: boolean;
+  // users whose tokens are copied, the storages cannot list the users
+  users?: string[];
+}
+
+export interface MigrateResult {
+  packages: number;
+  tarballs: number;
+  // tarballs already in the destination with `resume`
+  skipped: number;
+  tokens: number;
+  errors: { name: string; message: string }[];
+}
+
+type TarballCopy = 'copied' | 'skipped' | 'missing';
+
+const isNotFound = (err: any): boolean =>
+  err?.code === STORAGE.NO_SUCH_FILE_ERROR || err?.code === HTTP_STATUS.NOT_FOUND;
+
+const isConflict = (err: any): boolean =>
+  err?.code === STORAGE.FILE_EXIST_ERROR || err?.code === HTTP_STATUS.CONFLICT;
+
+/**
+ * Load the storage plugin of a configuration, `local-storage` if the `store`
+ * section is not defined.
+ */
+export async function loadStoragePlugin(config: Config, logger: Logger): Promise<IPluginStorage> {
+  const localStorage = new LocalStorage(config, logger);
+  await localStorage.init();
+
+  return localStorage.storagePlugin;
+}
+
+/**
+ * The manifest of a package, null if it does not exist.
+ */
+export function readManifest(
+  storage: IPackageStorageManager,
+  name: string
+): Promise<Package | null> {
+  return new Promise((resolve, reject) => {
+    storage.readPackage(name, (err, manifest): void => {
+      if (err) {
+        return isNotFound(err) ? resolve(null) : reject(err);
+      }
+      resolve(manifest as Package);
+    });
+  });
+}
+
+function saveManifest(
+  storage: IPackageStorageManager,
+  name: string,
+  manifest: Package
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // savePackageNext is not implemented yet by every storage plugin
+    storage.savePackage(name, manifest, (err): void => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * The sha1 of a stored tarball, null if the tarball does not exist.
+ */
+export function hashTarball(
+  storage: IPackageStorageManager,
+  filename: string
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const hash = createTarballHash();
+    const stream = storage.readTarball(filename);
+    stream.on('error', (err): void => (isNotFound(err) ? resolve(null) : reject(err)));
+    stream.on('data', (chunk): void => {
+      hash.update(chunk);
+    });
+    stream.on('end', (): void => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * The tarballs a manifest may have in the storage and their expected sha1: the
+ * published tarballs and the tarballs cached from the uplinks.
+ */
+export function getManifestTarballs(manifest: Package): Map<string, string | null> {
+  const tarballs = new Map<string, string | null>();
+  for (const filename of Object.keys(manifest._attachments ?? {})) {
+    tarballs.set(filename, manifest._attachments[filename].shasum ?? null);
+  }
+  for (const filename of Object.keys(manifest._distfiles ?? {})) {
+    tarballs.set(filename, tarballs.get(filename) ?? manifest._distfiles[filename].sha ?? null);
+  }
+  for (const version of Object.values(manifest.versions ?? {})) {
+    const filename = getVersionTarballFilename(version);
+    if (filename !== null && tarballs.has(filename) && tarballs.get(filename) === null) {
+      tarballs.set(filename, version.dist.shasum ?? null);
+    }
+  }
+
+  return tarballs;
+}
+
+function copyTarball(
+  source: IPackageStorageManager,
+  target: IPackageStorageManager,
+  filename: string,
+  options: MigrateOptions
+): Promise<{ result: TarballCopy; shasum: string | null }> {
+  return new Promise((resolve, reject) => {
+    const hash = createTarballHash();
+    const readStream = source.readTarball(filename);
+    readStream.on('error', (err): void => {
+      if (isNotFound(err)) {
+        // only the tarballs requested by the clients are cached from the uplinks
+        return resolve({ result: 'missing', shasum: null });
+      }
+      reject(err);
+    });
+
+    readStream.once('open', (): void => {
+      if (options.dryRun) {
+        readStream.abort();
+        return resolve({ result: 'copied', shasum: null });
+      }
+
+      const writeStream = target.writeTarball(filename);
+      writeStream.on('error', (err): void => {
+        readStream.abort();
+        if (isConflict(err) && options.resume) {
+          return resolve({ result: 'skipped', shasum: null });
+        }
+        reject(isConflict(err) ? new Error(`${filename} already exists, see --resume`) : err);
+      });
+      writeStream.once('open', (): void => {
+        readStream.on('data', (chunk): void => {
+          hash.update(chunk);
+        });
+        readStream.on('end', (): void => writeStream.done());
+        readStream.pipe(writeStream);
+      });
+      writeStream.on('success', (): void =>
+        resolve({ result: 'copied', shasum: hash.digest('hex') })
+      );
+    });
+  });
+}
+
+async function verifyTarball(
+  source: IPackageStorageManager,
+  target: IPackageStorageManager,
+  filename: string,
+  expected: string | null,
+  copied: string | null
+): Promise<void> {
+  const shasum = copied ?? (await hashTarball(source, filename));
+  if (expected !== null && shasum !== expected) {
+    throw new Error(`${filename} does not match its shasum in the source`);
+  }
+  if ((await hashTarball(target, filename)) !== shasum) {
+    throw new Error(`${filename} does not match its copy in the destination`);
+  }
+}
+
+async function migrateTokens(
+  from: IPluginStorage,
+  to: IPluginStorage,
+  options: MigrateOptions,
+  result: MigrateResult,
+  logger: Logger
+): Promise<void> {
+  for (const user of options.users ?? []) {
+    try {
+      const tokens = await from.readTokens({ user });
+      const existing = options.resume ? await to.readTokens({ user }) : [];
+      for (const token of tokens) {
+        if (existing.some(({ key }) => key === token.key)) {
+          continue;
+        }
+        if (!options.dryRun) {
+          await to.saveToken(token);
+        }
+        result.tokens++;
+      }
+    } catch (err: any) {
+      logger.warn({ user, err }, 'tokens of @{user} not migrated: @{err.message}');
+      result.errors.push({ name: `tokens of ${user}`, message: err.message });
+    }
+  }
+}
+
+/**
+ * Copy the secret, the tokens, the manifests and the tarballs of the packages listed
+ * by a storage to another one. A failed package does not stop the migration, it is
+ * reported in the result.
+ */
+export async function migrateStorage(
+  from: IPluginStorage,
+  to: IPluginStorage,
+  options: MigrateOptions,
+  logger: Logger
+): Promise<MigrateResult> {
+  const result: MigrateResult = { packages: 0, tarballs: 0, skipped: 0, tokens: 0, errors: [] };
+
+  const secret = await from.getSecret();
+  if (!options.dryRun && _.isEmpty(secret) === false) {
+    await to.setSecret(secret);
+  }
+  await migrateTokens(from, to, options, result, logger);
+
+  const names: string[] = (await from.get()) ?? [];
+  debug('migrate %o packages', names.length);
+  for (const name of names) {
+    try {
+      const source = from.getPackageStorage(name) as IPackageStorageManager;
+      const target = to.getPackageStorage(name) as IPackageStorageManager;
+      if (_.isNil(source) || _.isNil(target)) {
+        throw new Error('no storage defined for this package');
+      }
+
+      const manifest = await readManifest(source, name);
+      if (manifest === null) {
+        throw new Error('manifest not found');
+      }
+      // the manifest goes first, some storages create the folder of the package with it
+      if (!options.dryRun) {
+        await saveManifest(target, name, manifest);
+      }
+
+      for (const [filename, expected] of getManifestTarballs(manifest)) {
+        const { result: copy, shasum } = await copyTarball(source, target, filename, options);
+        if (copy === 'missing') {
+          continue;
+        }
+        if (options.verify && !options.dryRun) {
+          await verifyTarball(source, target, filename, expected, shasum);
+        }
+        result[copy === 'copied' ? 'tarballs' : 'skipped']++;
+      }
+      // the downloads are stored apart from the manifest by the storages supporting them
+      if (
+        !options.dryRun &&
+        typeof source.readDownloads === 'function' &&
+        typeof target.saveDownloads === 'function'
+      ) {
+        const downloads = await source.readDownloads();
+        if (_.isEmpty(downloads) === false) {
+          await target.saveDownloads(downloads);
+        }
+      }
+
+      if (!options.dryRun) {
+        await to.add(name);
+      }
+      result.packages++;
+      logger.info({ name }, 'package @{name} migrated');
+    } catch (err: any) {
+      logger.error({ name, err }, 'package @{name} not migrated: @{err.message}');
+      result.errors.push({ name, message: err.message });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,280 @@
+import buildDebug from 'debug';
+import _ from 'lodash';
+import semver from 'semver';
+
+import { DIST_TAGS } from '@verdaccio/core';
+import { parseInterval } from '@verdaccio/proxy';
+import { Logger, MirrorConf, MirrorVersions, Package, Version } from '@verdaccio/types';
+import { matchPackagePattern } from '@verdaccio/utils';
+
+import { Storage } from './storage';
+import { getVersionTarballFilename } from './storage-utils';
+
+const debug = buildDebug('verdaccio:storage:mirror');
+
+export const DEFAULT_MIRROR_INTERVAL = '1d';
+const MIRROR_VERSIONS: MirrorVersions[] = ['dist-tags', 'all'];
+// a package name without these characters is mirrored even if it is not stored yet
+const PATTERN_CHARACTERS = /[*?[\]{}!]/;
+
+export interface MirrorResult {
+  packages: number;
+  tarballs: number;
+  errors: number;
+}
+
+interface MirrorEntry {
+  name: string;
+  depth: number;
+  // semver range required by a dependant, null for the packages listed on the config
+  range: string | null;
+}
+
+/**
+ * Validate the mirror section of the configuration.
+ * @throws {Error} if the mirror section is invalid
+ */
+export function validateMirror(mirror?: MirrorConf): void {
+  if (_.isNil(mirror)) {
+    return;
+  }
+
+  if (_.isArray(mirror.packages) === false || mirror.packages.every(_.isString) === false) {
+    throw new Error('CONFIG: mirror.packages must be a list of package names or patterns');
+  }
+
+  if (_.isNil(mirror.interval) === false) {
+    let interval = 0;
+    try {
+      interval = parseInterval(mirror.interval as string);
+    } catch {
+      // reported below
+    }
+    if (interval <= 0) {
+      throw new Error(`CONFIG: invalid mirror.interval "${mirror.interval}"`);
+    }
+  }
+
+  if (
+    _.isNil(mirror.dependencies) === false &&
+    (Number.isInteger(mirror.dependencies) === false || (mirror.dependencies as number) < 0)
+  ) {
+    throw new Error(`CONFIG: invalid mirror.dependencies "${mirror.dependencies}"`);
+  }
+
+  if (_.isNil(mirror.versions) === false && !MIRROR_VERSIONS.includes(mirror.versions!)) {
+    throw new Error(`CONFIG: invalid mirror.versions "${mirror.versions}"`);
+  }
+}
+
+/**
+ * Versions of the manifest whose tarballs are mirrored, a dependency only requires
+ * the highest version satisfying its range.
+ */
+export function getMirrorVersions(
+  manifest: Package,
+  versions: MirrorVersions,
+  range: string | null
+): string[] {
+  const available = Object.keys(manifest.versions ?? {});
+  if (range !== null) {
+    const version = semver.maxSatisfying(available, range);
+    return version === null ? [] : [version];
+  }
+
+  if (versions === 'all') {
+    return available;
+  }
+
+  return _.uniq(Object.values(manifest[DIST_TAGS] ?? {})).filter((version) =>
+    available.includes(version)
+  );
+}
+
+export function getMirrorDependencies(version: Version): { [name: string]: string } {
+  return { ...version.dependencies, ...version.optionalDependencies };
+}
+
+/**
+ * Refresh the metadata and download the tarballs of a list of upstream packages
+ * periodically, the job never runs twice at the same time.
+ */
+export class Mirror {
+  private storage: Storage;
+  private config: MirrorConf;
+  private logger: Logger;
+  private timer: ReturnType<typeof setInterval> | null;
+  private running: Promise<MirrorResult> | null;
+
+  public constructor(storage: Storage, config: MirrorConf, logger: Logger) {
+    this.storage = storage;
+    this.config = config;
+    this.logger = logger;
+    this.timer = null;
+    this.running = null;
+  }
+
+  /**
+   * Run the job now and then on every interval.
+   */
+  public start(): void {
+    const interval = parseInterval(this.config.interval ?? DEFAULT_MIRROR_INTERVAL);
+    debug('mirror scheduled every %o ms', interval);
+    this.stop();
+    this.timer = setInterval(() => this.runSafe(), interval);
+    // the job should not keep the process alive
+    this.timer.unref();
+    this.runSafe();
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public run(): Promise<MirrorResult> {
+    if (this.running === null) {
+      this.running = this.mirror().finally(() => {
+        this.running = null;
+      });
+    } else {
+      debug('mirror is already running');
+    }
+
+    return this.running;
+  }
+
+  private runSafe(): void {
+    this.run().catch((err) => {
+      this.logger.error({ err: err.message }, 'mirror failed: @{err}');
+    });
+  }
+
+  private async mirror(): Promise<MirrorResult> {
+    const result: MirrorResult = { packages: 0, tarballs: 0, errors: 0 };
+    const maxDepth = this.config.dependencies ?? 0;
+    const versions = this.config.versions ?? 'dist-tags';
+    const manifests = new Map<string, Package | null>();
+    const visited = new Set<string>();
+    const queue: MirrorEntry[] = (await this.getPackageNames()).map((name) => ({
+      name,
+      depth: 0,
+      range: null,
+    }));
+    this.logger.info({ total: queue.length }, 'mirror started for @{total} packages');
+
+    while (queue.length > 0) {
+      const { name, depth, range } = queue.shift() as MirrorEntry;
+      if (manifests.has(name) === false) {
+        try {
+          manifests.set(name, await this.syncMetadata(name));
+          result.packages++;
+        } catch (err: any) {
+          manifests.set(name, null);
+          result.errors++;
+          this.logger.warn({ name, err: err.message }, 'mirror of @{name} failed: @{err}');
+        }
+      }
+
+      const manifest = manifests.get(name);
+      if (_.isNil(manifest)) {
+        continue;
+      }
+
+      for (const version of getMirrorVersions(manifest, versions, range)) {
+        if (visited.has(`${name}@${version}`)) {
+          continue;
+        }
+        visited.add(`${name}@${version}`);
+
+        const filename = getVersionTarballFilename(manifest.versions[version]);
+        if (filename !== null && _.isNil(manifest._attachments?.[filename])) {
+          try {
+            await this.fetchTarball(name, filename);
+            result.tarballs++;
+          } catch (err: any) {
+            result.errors++;
+            this.logger.warn(
+              { filename, err: err.message },
+              'mirror of tarball @{filename} failed: @{err}'
+            );
+          }
+        }
+
+        if (depth < maxDepth) {
+          const dependencies = getMirrorDependencies(manifest.versions[version]);
+          for (const dependency of Object.keys(dependencies)) {
+            queue.push({ name: dependency, depth: depth + 1, range: dependencies[dependency] });
+          }
+        }
+      }
+    }
+
+    this.logger.info(
+      { ...result },
+      'mirror finished: @{packages} packages, @{tarballs} tarballs, @{errors} errors'
+    );
+    return result;
+  }
+
+  /**
+   * Names listed on the configuration and the stored packages matching the patterns.
+   */
+  private async getPackageNames(): Promise<string[]> {
+    const names = this.config.packages.filter((name) => !PATTERN_CHARACTERS.test(name));
+    const patterns = this.config.packages.filter((name) => PATTERN_CHARACTERS.test(name));
+    if (patterns.length > 0) {
+      // published and cached packages
+      const stored = await this.storage.localStorage.storagePlugin.search({
+        text: '',
+        quality: 1,
+        popularity: 1,
+        maintenance: 1,
+      });
+      names.push(
+        ...stored
+          .map((item) => item.package.name)
+          .filter((name) => matchPackagePattern(name, patterns))
+      );
+    }
+
+    return _.uniq(names);
+  }
+
+  private syncMetadata(name: string): Promise<Package> {
+    return new Promise((resolve, reject): void => {
+      this.storage.localStorage.getPackageMetadata(name, (err, localManifest): void => {
+        // a package not stored yet is fetched from the uplinks
+        this.storage._syncUplinksMetadata(
+          name,
+          err ? null : localManifest,
+          {},
+          (err, manifest: Package): void => {
+            if (err) {
+              return reject(err);
+            }
+            debug('metadata of %o mirrored', name);
+            resolve(manifest);
+          }
+        );
+      });
+    });
+  }
+
+  /**
+   * Download the tarball through the storage, it is cached if the uplink allows it.
+   */
+  private fetchTarball(name: string, filename: string): Promise<void> {
+    return new Promise((resolve, reject): void => {
+      const stream = this.storage.getTarball(name, filename, { countDownload: false });
+      stream.on('error', reject);
+      stream.on('end', (): void => {
+        debug('tarball %o mirrored', filename);
+        resolve();
+      });
+      stream.resume();
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/* global AbortController */
+import buildDebug from 'debug';
+import _ from 'lodash';
+
+import { Callback } from '@verdaccio/types';
+
+const debug = buildDebug('verdaccio:storage:single-flight');
+
+interface Flight {
+  callbacks: Callback[];
+  abort: AbortController;
+  // callers not aborted yet
+  clients: number;
+}
+
+/**
+ * Coalesce concurrent calls with the same key, only the first one runs the task
+ * and the others wait for its result. The task is aborted once all the callers
+ * have been aborted, a caller without client request (`req`) is never aborted.
+ */
+export class SingleFlight {
+  private flights: Map<string, Flight>;
+
+  public constructor() {
+    this.flights = new Map();
+  }
+
+  /**
+   * @param task receives the abort signal of the flight and reports its result with `done`
+   */
+  public run(
+    key: string,
+    req: any,
+    task: (signal: AbortSignal, done: Callback) => void,
+    callback: Callback
+  ): void {
+    let flight = this.flights.get(key);
+    if (_.isNil(flight)) {
+      flight = { callbacks: [], abort: new AbortController(), clients: 0 };
+      this.flights.set(key, flight);
+      this.join(flight, req, callback);
+      task(flight.abort.signal, (err, result, ...args): void => {
+        this.flights.delete(key);
+        this.land(flight as Flight, err, result, args);
+      });
+      return;
+    }
+
+    debug('join the flight of %o, %o callers', key, flight.callbacks.length + 1);
+    this.join(flight, req, callback);
+  }
+
+  private join(flight: Flight, req: any, callback: Callback): void {
+    flight.callbacks.push(callback);
+    flight.clients++;
+    req?.once('aborted', (): void => {
+      flight.clients--;
+      if (flight.clients === 0) {
+        flight.abort.abort();
+      }
+    });
+  }
+
+  private land(flight: Flight, err: any, result: any, args: any[]): void {
+    flight.callbacks.forEach((callback, index): void => {
+      // every caller gets its own copy of the result, callers modify it
+      callback(err, index === 0 || _.isNil(result) ? result : _.cloneDeep(result), ...args);
+    });
+  }
+}
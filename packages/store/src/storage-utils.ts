@@ -15,6 +15,22 @@ export const STORAGE = {
   DEFAULT_REVISION: '0-0000000000000000',
 };
 
+export type StaleManifest = 'stale-while-revalidate' | 'stale-if-error';
+
+/**
+ * Hidden property of a manifest served from the cache instead of the uplinks,
+ * its value is a `StaleManifest`.
+ */
+export const STALE_MANIFEST = Symbol.for('__verdaccio_stale');
+
+export function copyStaleManifest<T>(source: Package, target: T): T {
+  if (_.isNil(source[STALE_MANIFEST]) === false) {
+    target[STALE_MANIFEST] = source[STALE_MANIFEST];
+  }
+
+  return target;
+}
+
 export function generatePackageTemplate(name: string): Package {
   return {
     // standard things
@@ -261,3 +277,63 @@ export function hasInvalidPublishBody(manifest: Pick<Package, '_attachments' | '
     isDifferentThanOne(versions);
   return res;
 }
+
+/**
+ * Filename of the tarball of a version, eg: foo-1.0.0.tgz
+ */
+export function getVersionTarballFilename(version: Version): string | null {
+  if (isObject(version.dist) === false || _.isString(version.dist.tarball) === false) {
+    return null;
+  }
+
+  return version.dist.tarball.replace(/.*\//, '');
+}
+
+/**
+ * Whether a tarball was published to verdaccio, the tarballs cached from the uplinks
+ * are attached too once stored but keep their dist file.
+ */
+export function isPublishedTarball(manifest: Package, filename: string): boolean {
+  return (
+    _.isNil(manifest._attachments?.[filename]) === false && _.isNil(manifest._distfiles?.[filename])
+  );
+}
+
+/**
+ * Local tarballs of the versions without dist.integrity.
+ */
+export function getTarballsMissingIntegrity(manifest: Package): string[] {
+  const filenames = Object.keys(manifest.versions ?? {})
+    .filter((version) => _.isNil(manifest.versions[version].dist?.integrity))
+    .map((version) => getVersionTarballFilename(manifest.versions[version]))
+    .filter((filename): filename is string =>
+      isObject(manifest._attachments?.[filename as string])
+    );
+
+  return _.uniq(filenames);
+}
+
+/**
+ * Persist the integrity of a local tarball on the attachment and on the versions
+ * that point to it without dist.integrity.
+ * @return the number of versions updated
+ */
+export function setTarballIntegrity(
+  manifest: Package,
+  filename: string,
+  integrity: string
+): number {
+  if (isObject(manifest._attachments?.[filename])) {
+    manifest._attachments[filename].integrity = integrity;
+  }
+
+  let updated = 0;
+  for (const version of Object.values(manifest.versions ?? {})) {
+    if (getVersionTarballFilename(version) === filename && _.isNil(version.dist.integrity)) {
+      version.dist.integrity = integrity;
+      updated++;
+    }
+  }
+
+  return updated;
+}
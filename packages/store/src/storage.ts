@@ -21,6 +21,7 @@ import {
   convertDistVersionToLocalTarballsUrl,
 } from '@verdaccio/tarball';
 import {
+  CacheConf,
   Callback,
   CallbackAction,
   Config,
@@ -30,7 +31,9 @@ import {
   IUploadTarball,
   Logger,
   MergeTags,
+  MirrorConf,
   Package,
+  PackageDownloads,
   StringValue,
   Token,
   TokenFilter,
@@ -39,22 +42,60 @@ import {
 } from '@verdaccio/types';
 import { getVersion, normalizeDistTags } from '@verdaccio/utils';
 
+import { CacheEviction, validateCache } from './cache';
+import { DownloadCounter } from './downloads';
+import { GarbageReport, collectGarbage, getGarbageMinAge, validateGarbageCollection } from './gc';
 import { LocalStorage } from './local-storage';
+import { Mirror, validateMirror } from './mirror';
 import { SearchManager } from './search';
+import { SingleFlight } from './single-flight';
 // import { isPublishablePackage, validateInputs } from './star-utils';
 import {
+  STALE_MANIFEST,
+  StaleManifest,
   checkPackageLocal,
   checkPackageRemote,
   cleanUpLinksRef,
+  copyStaleManifest,
   generatePackageTemplate,
+  getVersionTarballFilename,
   mergeUplinkTimeIntoLocal,
   publishPackage,
 } from './storage-utils';
-import { IGetPackageOptions, IGetPackageOptionsNext, IPluginFilters, ISyncUplinks } from './type';
+import {
+  IGetPackageOptions,
+  IGetPackageOptionsNext,
+  IGetTarballOptions,
+  IPluginFilters,
+  IStorageInitOptions,
+  ISyncUplinks,
+} from './type';
 // import { StarBody, Users } from './type';
-import { setupUpLinks, updateVersionsHiddenUpLink } from './uplink-util';
+import {
+  getMinimumAge,
+  getProxyStrategy,
+  getProxyUpLinks,
+  getQuarantinedVersions,
+  getUpLinkTarballUrl,
+  quarantineUpLinkVersions,
+  setupUpLinks,
+  updateVersionsHiddenUpLink,
+  validateMinimumAge,
+  validateProxyStrategy,
+} from './uplink-util';
 
 const debug = buildDebug('verdaccio:storage');
+// connection errors of the uplinks, node.js and undici codes
+const UPLINK_TIMEOUT_ERROR_CODES = [
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'ECONNRESET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+];
+
 class Storage {
   public localStorage: LocalStorage;
   public searchManager: SearchManager | null;
@@ -62,34 +103,120 @@ class Storage {
   public readonly logger: Logger;
   public readonly uplinks: ProxyList;
   public filters: IPluginFilters;
+  public mirror: Mirror | null;
+  public cache: CacheEviction | null;
+  public downloads: DownloadCounter | null;
+  private syncFlights: SingleFlight;
+  // packages being refreshed in the background
+  private revalidations: Set<string>;
 
   public constructor(config: Config) {
     this.config = config;
     this.uplinks = setupUpLinks(config);
     debug('uplinks available %o', Object.keys(this.uplinks));
+    validateMinimumAge(config.packages);
+    validateProxyStrategy(config.packages);
+    validateMirror(config.mirror);
+    validateGarbageCollection(config.gc);
+    validateCache(config.cache);
     this.logger = logger.child({ module: 'storage' });
     this.filters = [];
+    this.mirror = null;
+    this.cache = null;
+    this.downloads = null;
+    this.syncFlights = new SingleFlight();
+    this.revalidations = new Set();
     // @ts-ignore
     this.localStorage = null;
     this.searchManager = null;
   }
 
-  public async init(config: Config, filters: IPluginFilters = []): Promise<void> {
+  public async init(
+    config: Config,
+    filters: IPluginFilters = [],
+    options: IStorageInitOptions = {}
+  ): Promise<void> {
     if (this.localStorage === null) {
       this.filters = filters || [];
       debug('filters available %o', filters);
       this.localStorage = new LocalStorage(this.config, logger);
       await this.localStorage.init();
       debug('local init storage initialized');
+      if (options.recoverJournals === true) {
+        await this.localStorage.recoverJournals();
+      }
       await this.localStorage.getSecret(config);
       debug('local storage secret initialized');
       this.searchManager = new SearchManager(this.uplinks, this.localStorage);
+      this.downloads = new DownloadCounter(this, this.logger);
+      this.downloads.start();
+      if (this.config.flags?.integrityBackfill === true) {
+        this._backfillIntegrity();
+      }
+      if (_.isNil(this.config.mirror) === false) {
+        this.mirror = new Mirror(this, this.config.mirror as MirrorConf, this.logger);
+        this.mirror.start();
+      }
+      if (_.isNil(this.config.cache) === false) {
+        this.cache = new CacheEviction(this, this.config.cache as CacheConf, this.logger);
+        this.cache.start();
+      }
     } else {
       debug('storage has been already initialized');
     }
     return;
   }
 
+  /**
+   * Fill in the missing dist.integrity of the local packages in background.
+   */
+  private _backfillIntegrity(): void {
+    logger.info('integrity backfill started');
+    this.localStorage
+      .backfillIntegrity()
+      .then((updated): void => {
+        logger.info({ updated }, 'integrity backfill finished, @{updated} versions updated');
+      })
+      .catch((err): void => {
+        logger.error({ err: err.message }, 'integrity backfill failed: @{err}');
+      });
+  }
+
+  /**
+   * Find the orphaned tarballs and the leftovers of interrupted writes of the storage,
+   * and remove them unless `dryRun`.
+   */
+  public collectGarbage(dryRun: boolean): Promise<GarbageReport> {
+    return collectGarbage(
+      this.localStorage.storagePlugin,
+      { dryRun, minAge: getGarbageMinAge(this.config.gc) },
+      this.logger
+    );
+  }
+
+  /**
+   * The daily downloads by version of a stored package, including the ones not saved yet.
+   */
+  public async getDownloads(name: string): Promise<PackageDownloads> {
+    if (this.downloads !== null) {
+      return this.downloads.getDownloads(name);
+    }
+    // fails for a package not stored
+    await this.localStorage.getPackageMetadataNext(name);
+
+    return this.localStorage.getDownloads(name);
+  }
+
+  /**
+   * Stop the jobs and save the downloads not saved yet, eg: once the server is closed.
+   */
+  public async close(): Promise<void> {
+    this.mirror?.stop();
+    this.cache?.stop();
+    this.downloads?.stop();
+    await this.downloads?.save();
+  }
+
   /**
    *  Add a {name} package to a system
    Function checks if package with the same name is available from uplinks.
@@ -265,56 +392,89 @@ class Storage {
    information in order to figure out where we can get this tarball from
    Used storages: local || uplink (just one)
    */
-  public getTarball(name: string, filename: string): IReadTarball {
+  public getTarball(
+    name: string,
+    filename: string,
+    options: IGetTarballOptions = {}
+  ): IReadTarball {
     debug('get tarball for package %o filename %o', name, filename);
     const readStream = new ReadTarball({});
     readStream.abort = function () {};
 
     const self = this;
+    if (options.countDownload !== false) {
+      // a download is counted once the whole tarball has been served, the clients may
+      // close the connection before the end of the stream is read
+      readStream.once('finish', (): void => {
+        self.downloads?.count(name, filename);
+      });
+    }
 
-    // if someone requesting tarball, it means that we should already have some
-    // information about it, so fetching package info is unnecessary
+    // filters might forbid the download of a tarball, eg: a version with known vulnerabilities
+    const tarballFilters = this.filters.filter((filter) => _.isFunction(filter.filter_tarball));
+    const minimumAge = getMinimumAge(name, this.config.packages);
+    if (tarballFilters.length === 0 && minimumAge === 0) {
+      readTarball();
+    } else {
+      (async (): Promise<void> => {
+        if (minimumAge > 0) {
+          await self._checkQuarantine(name, filename, minimumAge);
+        }
+        for (const filter of tarballFilters) {
+          await filter.filter_tarball!(name, filename);
+        }
+      })().then(readTarball, (err): void => {
+        debug('tarball %o forbidden by a filter', filename);
+        readStream.emit('error', err);
+      });
+    }
+    return readStream;
 
-    // trying local first
-    // flow: should be IReadTarball
-    let localStream: any = self.localStorage.getTarball(name, filename);
-    let isOpen = false;
-    localStream.on('error', (err): any => {
-      if (isOpen || err.status !== HTTP_STATUS.NOT_FOUND) {
-        return readStream.emit('error', err);
-      }
+    function readTarball(): void {
+      // if someone requesting tarball, it means that we should already have some
+      // information about it, so fetching package info is unnecessary
+
+      // trying local first
+      // flow: should be IReadTarball
+      let localStream: any = self.localStorage.getTarball(name, filename);
+      let isOpen = false;
+      localStream.on('error', (err): any => {
+        if (isOpen || err.status !== HTTP_STATUS.NOT_FOUND) {
+          return readStream.emit('error', err);
+        }
 
-      // local reported 404
-      const err404 = err;
-      localStream.abort();
-      localStream = null; // we force for garbage collector
-      self.localStorage.getPackageMetadata(name, (err, info: Package): void => {
-        if (_.isNil(err) && info._distfiles && _.isNil(info._distfiles[filename]) === false) {
-          // information about this file exists locally
-          serveFile(info._distfiles[filename]);
-        } else {
-          // we know nothing about this file, trying to get information elsewhere
-          self._syncUplinksMetadata(name, info, {}, (err, info: Package): any => {
-            if (_.isNil(err) === false) {
-              return readStream.emit('error', err);
-            }
-            if (_.isNil(info._distfiles) || _.isNil(info._distfiles[filename])) {
-              return readStream.emit('error', err404);
-            }
+        // local reported 404
+        const err404 = err;
+        localStream.abort();
+        localStream = null; // we force for garbage collector
+        self.localStorage.getPackageMetadata(name, (err, info: Package): void => {
+          if (_.isNil(err) && info._distfiles && _.isNil(info._distfiles[filename]) === false) {
+            // information about this file exists locally
             serveFile(info._distfiles[filename]);
-          });
-        }
+          } else {
+            // we know nothing about this file, trying to get information elsewhere
+            self._syncUplinksMetadata(name, info, {}, (err, info: Package): any => {
+              if (_.isNil(err) === false) {
+                return readStream.emit('error', err);
+              }
+              if (_.isNil(info._distfiles) || _.isNil(info._distfiles[filename])) {
+                return readStream.emit('error', err404);
+              }
+              serveFile(info._distfiles[filename]);
+            });
+          }
+        });
+      });
+      localStream.on('content-length', function (v): void {
+        readStream.emit('content-length', v);
       });
-    });
-    localStream.on('content-length', function (v): void {
-      readStream.emit('content-length', v);
-    });
 
-    localStream.on('open', function (): void {
-      isOpen = true;
-      localStream.pipe(readStream);
-    });
-    return readStream;
+      localStream.on('open', function (): void {
+        isOpen = true;
+        self.cache?.touch(name, filename);
+        localStream.pipe(readStream);
+      });
+    }
 
     /**
      * Fetch and cache local/remote packages.
@@ -322,12 +482,21 @@ class Storage {
      */
     function serveFile(file: DistFile): void {
       let uplink: any = null;
-
-      for (const uplinkId in self.uplinks) {
-        // https://github.com/verdaccio/verdaccio/issues/1642
-        if (hasProxyTo(name, uplinkId, self.config.packages)) {
-          uplink = self.uplinks[uplinkId];
+      // the uplinks to fail over to when the tarball cannot be fetched
+      let fallbacks: IProxy[] = [];
+
+      if (getProxyStrategy(name, self.config.packages) === 'merge') {
+        for (const uplinkId in self.uplinks) {
+          // https://github.com/verdaccio/verdaccio/issues/1642
+          if (hasProxyTo(name, uplinkId, self.config.packages)) {
+            uplink = self.uplinks[uplinkId];
+          }
         }
+      } else {
+        const upLinks = getProxyUpLinks(name, self.uplinks, self.config.packages);
+        // the uplink the metadata comes from serves the tarball first
+        uplink = upLinks.find((upLink) => upLink.upname === file.registry) ?? upLinks[0] ?? null;
+        fallbacks = upLinks.filter((upLink) => upLink !== uplink);
       }
 
       if (uplink == null) {
@@ -346,11 +515,23 @@ class Storage {
         savestream = self.localStorage.addTarball(name, filename);
       }
 
-      let on_open = function (): void {
-        // prevent it from being called twice
-        on_open = function () {};
-        const rstream2 = uplink.fetchTarball(file.url);
-        rstream2.on('error', function (err): void {
+      const fetchTarball = function (upLink: IProxy, url: string): void {
+        const rstream2 = upLink.fetchTarball(url);
+        let started = false;
+        rstream2.once('data', function (): void {
+          started = true;
+        });
+        rstream2.on('error', function (err: any): void {
+          // fail over while nothing has been sent, a missing tarball is not retried
+          if (started === false && err.status !== HTTP_STATUS.NOT_FOUND && fallbacks.length > 0) {
+            const next = fallbacks.shift() as IProxy;
+            self.logger.warn(
+              { fileName: filename, upLink: upLink.upname, next: next.upname, err },
+              'tarball @{fileName} failed on @{upLink}, failing over to @{next}: @{err.message}'
+            );
+            rstream2.unpipe();
+            return fetchTarball(next, getUpLinkTarballUrl(next, name, filename));
+          }
           if (savestream) {
             savestream.abort();
           }
@@ -375,6 +556,12 @@ class Storage {
         }
       };
 
+      let on_open = function (): void {
+        // prevent it from being called twice
+        on_open = function () {};
+        fetchTarball(uplink, file.url);
+      };
+
       if (savestream) {
         savestream.on('open', function (): void {
           on_open();
@@ -456,11 +643,14 @@ class Storage {
     debug('query by latest version %o and result %o', queryVersion, version);
     if (typeof version !== 'undefined') {
       debug('latest version found %o', version);
-      return convertDistVersionToLocalTarballsUrl(
-        convertedManifest.name,
-        version,
-        options.requestOptions,
-        this.config.url_prefix
+      return copyStaleManifest(
+        convertedManifest,
+        convertDistVersionToLocalTarballsUrl(
+          convertedManifest.name,
+          version,
+          options.requestOptions,
+          this.config.url_prefix
+        )
       );
     }
 
@@ -477,11 +667,14 @@ class Storage {
         );
         if (typeof disTagVersion !== 'undefined') {
           debug('dist-tag found %o', disTagVersion);
-          return convertDistVersionToLocalTarballsUrl(
-            convertedManifest.name,
-            disTagVersion,
-            options.requestOptions,
-            this.config.url_prefix
+          return copyStaleManifest(
+            convertedManifest,
+            convertDistVersionToLocalTarballsUrl(
+              convertedManifest.name,
+              disTagVersion,
+              options.requestOptions,
+              this.config.url_prefix
+            )
           );
         }
       }
@@ -692,12 +885,32 @@ class Storage {
    * Function fetches package metadata from uplinks and synchronizes it with local data
    if package is available locally, it MUST be provided in pkginfo
    returns callback(err, result, uplink_errors)
+   Concurrent calls for the same package share the requests to the uplinks and the write.
    */
   public _syncUplinksMetadata(
     name: string,
     packageInfo: Package,
     options: ISyncUplinks,
     callback: Callback
+  ): void {
+    if (options.uplinksLook === false) {
+      return this._fetchUplinksMetadata(name, packageInfo, options, callback);
+    }
+
+    this.syncFlights.run(
+      name,
+      options.req,
+      (signal, done): void =>
+        this._fetchUplinksMetadata(name, packageInfo, { ...options, signal }, done),
+      callback
+    );
+  }
+
+  private _fetchUplinksMetadata(
+    name: string,
+    packageInfo: Package,
+    options: ISyncUplinks,
+    callback: Callback
   ): void {
     let found = true;
     const self = this;
@@ -710,80 +923,164 @@ class Storage {
       packageInfo = generatePackageTemplate(name);
     }
 
-    for (const uplink in this.uplinks) {
-      if (hasProxyTo(name, uplink, this.config.packages) && hasToLookIntoUplinks) {
-        upLinks.push(this.uplinks[uplink]);
+    const strategy = getProxyStrategy(name, this.config.packages);
+    if (hasToLookIntoUplinks && strategy !== 'merge') {
+      upLinks.push(...getProxyUpLinks(name, this.uplinks, this.config.packages));
+    } else {
+      for (const uplink in this.uplinks) {
+        if (hasProxyTo(name, uplink, this.config.packages) && hasToLookIntoUplinks) {
+          upLinks.push(this.uplinks[uplink]);
+        }
       }
     }
 
-    debug('uplink list %o', upLinks.length);
-
-    async.map(
-      upLinks,
-      (upLink, cb): void => {
-        const _options = Object.assign({}, options);
-        const upLinkMeta = packageInfo._uplinks[upLink.upname];
+    debug('uplink list %o with strategy %o', upLinks.length, strategy);
 
-        if (validatioUtils.isObject(upLinkMeta)) {
-          const fetched = upLinkMeta.fetched;
+    // whether the manifest is served from the cache, see stale_while_revalidate and stale_if_error
+    let stale: StaleManifest | null = null;
+    // an uplink failed after its stale_if_error window
+    let expired = false;
+    let freshUpLinks = 0;
 
-          if (fetched && Date.now() - fetched < upLink.maxage) {
-            return cb();
-          }
+    const minimumAge = getMinimumAge(name, self.config.packages);
+    const syncUpLink = (upLink: IProxy, cb): void => {
+      const _options = Object.assign({}, options);
+      // the abbreviated manifests have no publish dates, minimum_age needs them
+      if (minimumAge > 0) {
+        _options.abbreviated = false;
+      }
+      const upLinkMeta = packageInfo._uplinks[upLink.upname];
+      const age =
+        validatioUtils.isObject(upLinkMeta) && upLinkMeta.fetched
+          ? Date.now() - upLinkMeta.fetched
+          : Infinity;
+
+      if (validatioUtils.isObject(upLinkMeta)) {
+        if (age < upLink.maxage) {
+          freshUpLinks++;
+          return cb();
+        }
 
-          _options.etag = upLinkMeta.etag;
+        // the cached manifest is served right away and refreshed in the background
+        if (options.revalidate !== true && age < upLink.maxage + upLink.stale_while_revalidate) {
+          debug('serve stale %o from %o while revalidating', name, upLink.upname);
+          stale = stale ?? 'stale-while-revalidate';
+          return cb();
         }
 
-        upLink.getRemoteMetadata(name, _options, (err, upLinkResponse, eTag): void => {
-          if (err && err.remoteStatus === 304) {
-            upLinkMeta.fetched = Date.now();
-          }
+        _options.etag = upLinkMeta.etag;
+        _options.lastModified = upLinkMeta.last_modified;
+      }
 
-          if (err || !upLinkResponse) {
-            return cb(null, [err || errorUtils.getInternalError('no data')]);
-          }
+      upLink.getRemoteMetadata(name, _options, (err, upLinkResponse, eTag, lastModified): void => {
+        // the cached manifest is still valid
+        if (err && err.remoteStatus === HTTP_STATUS.NOT_MODIFIED) {
+          debug('%o not modified on %o', name, upLink.upname);
+          upLinkMeta.fetched = Date.now();
+          freshUpLinks++;
+          return cb();
+        }
 
-          try {
-            validatioUtils.validateMetadata(upLinkResponse, name);
-          } catch (err: any) {
-            self.logger.error(
-              {
-                sub: 'out',
-                err: err,
-              },
-              'package.json validating error @{!err?.message}\n@{err.stack}'
+        // the uplink is unavailable, the cached manifest is served within stale_if_error
+        if (
+          err &&
+          err.status !== HTTP_STATUS.NOT_FOUND &&
+          Number.isFinite(age) &&
+          upLink.stale_if_error > 0
+        ) {
+          if (age < upLink.maxage + upLink.stale_if_error) {
+            self.logger.warn(
+              { name, upLink: upLink.upname, err },
+              'serving stale @{name}, uplink @{upLink} failed: @{err.message}'
             );
-            return cb(null, [err]);
+            stale = 'stale-if-error';
+            return cb();
           }
+          expired = true;
+        }
 
-          packageInfo._uplinks[upLink.upname] = {
-            etag: eTag,
-            fetched: Date.now(),
-          };
+        if (err || !upLinkResponse) {
+          return cb(null, [err || errorUtils.getInternalError('no data')]);
+        }
+
+        // the abbreviated manifests only have the date of the last change
+        if (_.isNil(upLinkResponse.time) && _.isString(upLinkResponse.modified)) {
+          upLinkResponse.time = { modified: upLinkResponse.modified };
+          delete upLinkResponse.modified;
+        }
 
-          packageInfo.time = mergeUplinkTimeIntoLocal(packageInfo, upLinkResponse);
+        try {
+          validatioUtils.validateMetadata(upLinkResponse, name);
+        } catch (err: any) {
+          self.logger.error(
+            {
+              sub: 'out',
+              err: err,
+            },
+            'package.json validating error @{!err?.message}\n@{err.stack}'
+          );
+          return cb(null, [err]);
+        }
 
-          updateVersionsHiddenUpLink(upLinkResponse.versions, upLink);
+        packageInfo._uplinks[upLink.upname] = {
+          etag: eTag,
+          fetched: Date.now(),
+          last_modified: lastModified,
+        };
+
+        packageInfo.time = mergeUplinkTimeIntoLocal(packageInfo, upLinkResponse);
+
+        updateVersionsHiddenUpLink(upLinkResponse.versions, upLink);
+
+        try {
+          pkgUtils.mergeVersions(packageInfo, upLinkResponse);
+        } catch (err: any) {
+          self.logger.error(
+            {
+              sub: 'out',
+              err: err,
+            },
+            'package.json parsing error @{!err?.message}\n@{err.stack}'
+          );
+          return cb(null, [err]);
+        }
 
-          try {
-            pkgUtils.mergeVersions(packageInfo, upLinkResponse);
-          } catch (err: any) {
-            self.logger.error(
-              {
-                sub: 'out',
-                err: err,
-              },
-              'package.json parsing error @{!err?.message}\n@{err.stack}'
-            );
-            return cb(null, [err]);
-          }
+        // if we got to this point, assume that the correct package exists
+        // on the uplink
+        found = true;
+        freshUpLinks++;
+        cb();
+      });
+    };
 
-          // if we got to this point, assume that the correct package exists
-          // on the uplink
-          found = true;
-          cb();
-        });
-      },
+    const quarantine = (manifest: Package): void => {
+      if (minimumAge === 0) {
+        return;
+      }
+      const hidden = quarantineUpLinkVersions(manifest, minimumAge);
+      if (hidden.length > 0) {
+        debug('versions %o of %o quarantined by minimum_age', hidden, name);
+      }
+    };
+
+    // the uplinks are queried in order until one has the package or is not modified
+    let synced = false;
+    const syncUpLinkInOrder = (upLink: IProxy, cb): void => {
+      if (synced) {
+        return cb();
+      }
+      syncUpLink(upLink, (err, upLinkErrors): void => {
+        synced = _.isNil(upLinkErrors);
+        if (synced === false) {
+          debug('uplink %o failed for %o, trying the next one', upLink.upname, name);
+        }
+        cb(err, upLinkErrors);
+      });
+    };
+
+    (strategy === 'merge' ? async.map : async.mapSeries)(
+      upLinks,
+      strategy === 'merge' ? syncUpLink : syncUpLinkInOrder,
       // @ts-ignore
       (err: Error, upLinksErrors: any): AsyncResultArrayCallback<unknown, Error> => {
         assert(!err && Array.isArray(upLinksErrors));
@@ -797,7 +1094,7 @@ class Storage {
               for (let j = 0; j < upLinksErrors[i].length; j++) {
                 if (upLinksErrors[i][j]) {
                   const code = upLinksErrors[i][j].code;
-                  if (code === 'ETIMEDOUT' || code === 'ESOCKETTIMEDOUT' || code === 'ECONNRESET') {
+                  if (UPLINK_TIMEOUT_ERROR_CODES.includes(code)) {
                     uplinkTimeoutError = true;
                     break;
                   }
@@ -812,7 +1109,13 @@ class Storage {
           return callback(errorUtils.getNotFound(API_ERROR.NO_PACKAGE), null, upLinksErrors);
         }
 
+        // the cached manifest is too old to be served without the uplinks
+        if (expired && freshUpLinks === 0 && stale === null) {
+          return callback(errorUtils.getServiceUnavailable(), null, upLinksErrors);
+        }
+
         if (upLinks.length === 0) {
+          quarantine(packageInfo);
           return callback(null, packageInfo);
         }
 
@@ -823,6 +1126,8 @@ class Storage {
             if (err) {
               return callback(err);
             }
+            // the versions quarantined are cached, they are served once old enough
+            quarantine(packageJsonLocal);
             // Any error here will cause a 404, like an uplink error. This is likely
             // the right thing to do
             // as a broken filter is a security risk.
@@ -838,13 +1143,80 @@ class Storage {
                 filterErrors.push(err);
               }
             }
+            if (stale !== null) {
+              packageJsonLocal[STALE_MANIFEST] = stale;
+            }
             callback(null, packageJsonLocal, _.concat(upLinksErrors, filterErrors));
+            if (stale === 'stale-while-revalidate') {
+              self._revalidateUplinksMetadata(name);
+            }
           }
         );
       }
     );
   }
 
+  /**
+   * Fail with a 404 if the tarball belongs to a version quarantined by `minimum_age`,
+   * the manifest is fetched from the uplinks if it is not cached yet.
+   */
+  private async _checkQuarantine(
+    name: string,
+    filename: string,
+    minimumAge: number
+  ): Promise<void> {
+    let manifest: Package | null = await this.localStorage
+      .getPackageMetadataNext(name)
+      .catch(() => null);
+    if (manifest === null) {
+      // the sync with the uplinks caches the manifest
+      await new Promise<void>((resolve): void => {
+        this._syncUplinksMetadata(name, undefined as unknown as Package, {}, (): void => resolve());
+      });
+      manifest = await this.localStorage.getPackageMetadataNext(name).catch(() => null);
+    }
+    if (manifest === null) {
+      return;
+    }
+
+    const quarantined = getQuarantinedVersions(manifest, minimumAge).some(
+      (version) => getVersionTarballFilename(manifest!.versions[version]) === filename
+    );
+    if (quarantined) {
+      debug('tarball %o of %o quarantined by minimum_age', filename, name);
+      throw errorUtils.getNotFound(API_ERROR.VERSION_NOT_EXIST);
+    }
+  }
+
+  /**
+   * Refresh in the background the metadata served with stale_while_revalidate.
+   */
+  private _revalidateUplinksMetadata(name: string): void {
+    if (this.revalidations.has(name)) {
+      return;
+    }
+
+    this.revalidations.add(name);
+    this.localStorage.getPackageMetadata(name, (err, packageInfo: Package): void => {
+      if (err) {
+        this.revalidations.delete(name);
+        return;
+      }
+
+      this._fetchUplinksMetadata(name, packageInfo, { revalidate: true }, (err): void => {
+        this.revalidations.delete(name);
+        if (err) {
+          this.logger.warn(
+            { name, err: err.message },
+            'revalidation of @{name} failed with error @{err}'
+          );
+        } else {
+          debug('%o revalidated', name);
+        }
+      });
+    });
+  }
+
   /**
    * Set a hidden value for each version.
    * @param {Array} versions list of version
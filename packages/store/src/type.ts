@@ -28,7 +28,23 @@ export type IGetPackageOptionsNext = {
 export interface ISyncUplinks {
   uplinksLook?: boolean;
   etag?: string;
+  lastModified?: string;
+  // override the `abbreviated` option of the uplinks
+  abbreviated?: boolean;
   req?: Request;
+  signal?: AbortSignal;
+  // ignore stale_while_revalidate, used by the background refresh
+  revalidate?: boolean;
+}
+
+export interface IStorageInitOptions {
+  // complete or undo the writes interrupted by a crash, only on the start of the server
+  recoverJournals?: boolean;
+}
+
+export interface IGetTarballOptions {
+  // false for the internal fetches, eg: the mirror, not counted as downloads
+  countDownload?: boolean;
 }
 
 export type Users = {
@@ -1,5 +1,12 @@
-import { IProxy, ProxyList, ProxyStorage } from '@verdaccio/proxy';
-import { Config, Versions } from '@verdaccio/types';
+import _ from 'lodash';
+import semver from 'semver';
+
+import { DIST_TAGS } from '@verdaccio/core';
+import { IProxy, ProxyList, ProxyStorage, parseInterval } from '@verdaccio/proxy';
+import { Config, Package, PackageList, ProxyStrategy, Versions } from '@verdaccio/types';
+import { getMatchedPackagesSpec } from '@verdaccio/utils';
+
+import { getVersionTarballFilename, isPublishedTarball } from './storage-utils';
 
 /**
  * Set up the Up Storage for each link.
@@ -9,6 +16,10 @@ export function setupUpLinks(config: Config): ProxyList {
 
   for (const uplinkName in config.uplinks) {
     if (Object.prototype.hasOwnProperty.call(config.uplinks, uplinkName)) {
+      const weight = config.uplinks[uplinkName].weight;
+      if (_.isNil(weight) === false && !(_.isNumber(weight) && weight >= 0)) {
+        throw new Error(`CONFIG: invalid weight "${weight}" for uplink "${uplinkName}"`);
+      }
       // instance for each up-link definition
       const proxy: IProxy = new ProxyStorage(config.uplinks[uplinkName], config);
       proxy.upname = uplinkName;
@@ -30,3 +41,166 @@ export function updateVersionsHiddenUpLink(versions: Versions, upLink: IProxy):
     }
   }
 }
+
+/**
+ * Return the minimum age in milliseconds of the uplink versions for a package,
+ * 0 if the matched package spec does not define `minimum_age`.
+ */
+export function getMinimumAge(name: string, packages: PackageList): number {
+  const packageAccess = getMatchedPackagesSpec(name, packages);
+  if (!packageAccess?.minimum_age) {
+    return 0;
+  }
+
+  return parseInterval(packageAccess.minimum_age);
+}
+
+/**
+ * Fail early on invalid `minimum_age` intervals, the sync with the uplinks would fail otherwise.
+ */
+export function validateMinimumAge(packages: PackageList = {}): void {
+  for (const pattern of Object.keys(packages)) {
+    const minimumAge = packages[pattern].minimum_age;
+    if (minimumAge) {
+      try {
+        parseInterval(minimumAge);
+      } catch {
+        throw new Error(`CONFIG: invalid minimum_age "${minimumAge}" for packages "${pattern}"`);
+      }
+    }
+  }
+}
+
+const PROXY_STRATEGIES: ProxyStrategy[] = ['merge', 'first-success', 'weighted'];
+
+/**
+ * Return the `proxy_strategy` of the matched package spec, `merge` by default.
+ */
+export function getProxyStrategy(name: string, packages: PackageList): ProxyStrategy {
+  return getMatchedPackagesSpec(name, packages)?.proxy_strategy ?? 'merge';
+}
+
+export function validateProxyStrategy(packages: PackageList = {}): void {
+  for (const pattern of Object.keys(packages)) {
+    const strategy = packages[pattern].proxy_strategy;
+    if (
+      _.isNil(strategy) === false &&
+      PROXY_STRATEGIES.includes(strategy as ProxyStrategy) === false
+    ) {
+      throw new Error(`CONFIG: invalid proxy_strategy "${strategy}" for packages "${pattern}"`);
+    }
+  }
+}
+
+/**
+ * Return the uplinks a package is proxied to, in the order of its `proxy` list.
+ * With the `weighted` strategy the order is randomized, an uplink comes first
+ * with a probability proportional to its `weight`.
+ */
+export function getProxyUpLinks(
+  name: string,
+  uplinks: ProxyList,
+  packages: PackageList,
+  random = Math.random
+): IProxy[] {
+  const packageAccess = getMatchedPackagesSpec(name, packages);
+  const upLinks = (packageAccess?.proxy ?? [])
+    .filter((upname) => _.isNil(uplinks[upname]) === false)
+    .map((upname) => uplinks[upname]);
+
+  if (packageAccess?.proxy_strategy !== 'weighted') {
+    return upLinks;
+  }
+
+  const ordered: IProxy[] = [];
+  const remaining = [...upLinks];
+  const getWeight = (upLink: IProxy): number => upLink.config.weight ?? 1;
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, upLink) => sum + getWeight(upLink), 0);
+    // the uplinks with weight 0 are only used as a last resort
+    if (total === 0) {
+      return ordered.concat(remaining);
+    }
+    let pick = random() * total;
+    const index = remaining.findIndex((upLink) => {
+      pick -= getWeight(upLink);
+      return pick < 0;
+    });
+    ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1));
+  }
+
+  return ordered;
+}
+
+/**
+ * The url of a tarball on another uplink, the registries share the npm layout.
+ */
+export function getUpLinkTarballUrl(upLink: IProxy, name: string, filename: string): string {
+  return `${upLink.config.url.replace(/\/$/, '')}/${name}/-/${filename}`;
+}
+
+/**
+ * The versions of a manifest cached from the uplinks and published less than
+ * `minimumAge` milliseconds ago, the versions published to verdaccio are not
+ * quarantined.
+ */
+export function getQuarantinedVersions(
+  manifest: Package,
+  minimumAge: number,
+  now: number = Date.now()
+): string[] {
+  const time = manifest.time || {};
+
+  return Object.keys(manifest.versions).filter((version) => {
+    const filename = getVersionTarballFilename(manifest.versions[version]);
+    if (filename !== null && isPublishedTarball(manifest, filename)) {
+      return false;
+    }
+    const published = Date.parse(time[version]);
+    // without a publish date the age is unknown, the version is kept visible
+    return Number.isNaN(published) === false && now - published < minimumAge;
+  });
+}
+
+/**
+ * Remove from a manifest the versions quarantined by `minimumAge`, see
+ * `getQuarantinedVersions`. The latest dist-tag pointing to them is moved to the highest
+ * visible version lower than it, the other dist-tags are removed.
+ * @return the hidden versions
+ */
+export function quarantineUpLinkVersions(
+  manifest: Package,
+  minimumAge: number,
+  now: number = Date.now()
+): string[] {
+  const hidden = getQuarantinedVersions(manifest, minimumAge, now);
+  if (hidden.length === 0) {
+    return hidden;
+  }
+
+  for (const version of hidden) {
+    delete manifest.versions[version];
+    delete manifest.time?.[version];
+  }
+
+  const distTags = manifest[DIST_TAGS] || {};
+  for (const tag of Object.keys(distTags)) {
+    if (hidden.includes(distTags[tag]) === false) {
+      continue;
+    }
+
+    // neither a prerelease nor a higher major is promoted
+    const previous = tag === 'latest' ? semver.valid(distTags[tag]) : null;
+    const latest =
+      previous === null
+        ? null
+        : semver.maxSatisfying(Object.keys(manifest.versions), `<=${previous}`);
+    if (latest !== null) {
+      distTags[tag] = latest;
+    } else {
+      delete distTags[tag];
+    }
+  }
+
+  return hidden;
+}
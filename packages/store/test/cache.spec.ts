@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { MockAgent } from 'undici';
+
+import { Config } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { configExample, generateNewVersion, generateRamdonStorage } from '@verdaccio/mock';
+import { ProxyStorage } from '@verdaccio/proxy';
+import { generatePackageMetadata } from '@verdaccio/test-helper';
+import { IPackageStorageManager } from '@verdaccio/types';
+
+import {
+  CacheEviction,
+  CachedTarball,
+  Storage,
+  generatePackageTemplate,
+  parseSize,
+  selectEvictions,
+  validateCache,
+} from '../src';
+
+setup([]);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('cache', () => {
+  describe('parseSize', () => {
+    test('should parse the sizes', () => {
+      expect(parseSize(512)).toEqual(512);
+      expect(parseSize('512')).toEqual(512);
+      expect(parseSize('100kb')).toEqual(100 * 1024);
+      expect(parseSize('1.5GB')).toEqual(1.5 * 1024 ** 3);
+      expect(() => parseSize('big')).toThrow('invalid size: big');
+      expect(() => parseSize(-1)).toThrow('invalid size: -1');
+    });
+  });
+
+  describe('validateCache', () => {
+    test('should accept a valid cache', () => {
+      expect(() => validateCache(undefined)).not.toThrow();
+      expect(() =>
+        validateCache({ max_age: '90d', max_idle: '30d', max_size: '10gb', interval: '30m' })
+      ).not.toThrow();
+    });
+
+    test('should fail on invalid values', () => {
+      expect(() => validateCache({ max_age: 'soon' })).toThrow('CONFIG: invalid cache.max_age');
+      expect(() => validateCache({ max_idle: '1d', interval: '0' })).toThrow(
+        'CONFIG: invalid cache.interval'
+      );
+      expect(() => validateCache({ max_size: '10 floppies' })).toThrow(
+        'CONFIG: invalid cache.max_size'
+      );
+      expect(() => validateCache({ interval: '1h' })).toThrow(
+        'CONFIG: cache requires max_age, max_idle or max_size'
+      );
+    });
+  });
+
+  describe('selectEvictions', () => {
+    const now = 100 * DAY;
+    const tarball = (filename: string, size: number, cached: number, accessed: number) => ({
+      name: 'foo',
+      filename,
+      size,
+      cached: now - cached * DAY,
+      accessed: now - accessed * DAY,
+    });
+    const filenames = (tarballs: CachedTarball[]) => tarballs.map(({ filename }) => filename);
+    const tarballs = [
+      tarball('foo-1.0.0.tgz', 10, 60, 1),
+      tarball('foo-2.0.0.tgz', 10, 20, 15),
+      tarball('foo-3.0.0.tgz', 10, 10, 5),
+      tarball('foo-4.0.0.tgz', 10, 2, 2),
+    ];
+
+    test('should evict the tarballs cached for too long', () => {
+      expect(filenames(selectEvictions(tarballs, { maxAge: 30 * DAY }, now))).toEqual([
+        'foo-1.0.0.tgz',
+      ]);
+    });
+
+    test('should evict the tarballs not downloaded for too long', () => {
+      expect(filenames(selectEvictions(tarballs, { maxIdle: 10 * DAY }, now))).toEqual([
+        'foo-2.0.0.tgz',
+      ]);
+    });
+
+    test('should evict the least recently downloaded above the maximum size', () => {
+      expect(filenames(selectEvictions(tarballs, { maxSize: 25 }, now))).toEqual([
+        'foo-2.0.0.tgz',
+        'foo-3.0.0.tgz',
+      ]);
+      expect(filenames(selectEvictions(tarballs, { maxIdle: 10 * DAY, maxSize: 25 }, now))).toEqual(
+        ['foo-2.0.0.tgz', 'foo-3.0.0.tgz']
+      );
+      expect(selectEvictions(tarballs, { maxSize: 40 }, now)).toEqual([]);
+    });
+  });
+
+  describe('CacheEviction', () => {
+    const domain = 'http://localhost:4873';
+    // the tarballs of the manifests generated
+    const tarballDomain = 'http://localhost:5555';
+    let storage: Storage;
+    let storagePath: string;
+    let mockAgent: MockAgent;
+
+    const readTarball = (name: string, filename: string): Promise<string> =>
+      new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const stream = storage.getTarball(name, filename);
+        stream.on('data', (chunk) => chunks.push(chunk));
+        stream.on('error', reject);
+        stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+      });
+
+    // fetched from the uplink and stored as any cached tarball
+    const cacheTarball = async (name: string): Promise<void> => {
+      const filename = `${name}-1.0.0.tgz`;
+      mockAgent
+        .get(domain)
+        .intercept({ path: `/${name}`, method: 'GET' })
+        .reply(200, generatePackageMetadata(name, '1.0.0'));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: `/${name}/-/${filename}`, method: 'GET' })
+        .reply(200, 'data');
+      const addTarball = storage.localStorage.addTarball.bind(storage.localStorage);
+      let saved: Promise<void> = Promise.resolve();
+      jest.spyOn(storage.localStorage, 'addTarball').mockImplementationOnce((...args) => {
+        const stream = addTarball(...args);
+        saved = new Promise((resolve) => stream.on('success', resolve));
+        return stream;
+      });
+
+      await readTarball(name, filename);
+      await saved;
+    };
+
+    const publishTarball = async (name: string): Promise<void> => {
+      const manifest = generatePackageTemplate(name);
+      manifest.versions['1.0.0'] = generateNewVersion(name, '1.0.0');
+      await storage.localStorage.storagePlugin.add(name);
+      const packageStorage = storage.localStorage.storagePlugin.getPackageStorage(
+        name
+      ) as IPackageStorageManager;
+      await packageStorage.savePackageNext(name, manifest);
+      await new Promise<void>((resolve, reject) => {
+        const stream = storage.localStorage.addTarball(name, `${name}-1.0.0.tgz`);
+        stream.on('error', reject);
+        stream.on('success', () => resolve());
+        stream.on('open', () => stream.done());
+        stream.end('data');
+      });
+    };
+
+    // stored long ago
+    const setModified = (name: string, days: number): void => {
+      const time = new Date(Date.now() - days * DAY);
+      fs.utimesSync(path.join(storagePath, name, `${name}-1.0.0.tgz`), time, time);
+    };
+
+    beforeEach(async () => {
+      mockAgent = new MockAgent({ connections: 1 });
+      mockAgent.disableNetConnect();
+      storagePath = generateRamdonStorage();
+      const config = new Config(configExample({ storage: storagePath }));
+      storage = new Storage(config);
+      for (const uplink of Object.values(storage.uplinks)) {
+        (uplink as ProxyStorage).dispatcher = mockAgent;
+      }
+      await storage.init(config);
+      storage.cache = new CacheEviction(storage, { max_idle: '1d' }, logger);
+      await cacheTarball('cached');
+      await publishTarball('published');
+      setModified('cached', 10);
+      setModified('published', 10);
+    });
+
+    afterEach(async () => {
+      await storage.close();
+    });
+
+    test('should attach the tarballs cached from the uplinks', async () => {
+      const manifest = await storage.localStorage.getPackageMetadataNext('cached');
+      expect(manifest._attachments['cached-1.0.0.tgz']).toBeDefined();
+      expect(manifest._distfiles['cached-1.0.0.tgz']).toBeDefined();
+    });
+
+    test('should evict only the cached tarballs', async () => {
+      const result = await storage.cache!.run();
+
+      expect(result).toEqual({ packages: 1, tarballs: 1, size: 4, errors: 0 });
+      expect(fs.existsSync(path.join(storagePath, 'cached', 'cached-1.0.0.tgz'))).toBe(false);
+      expect(fs.existsSync(path.join(storagePath, 'published', 'published-1.0.0.tgz'))).toBe(true);
+      // fetched again from the uplinks on demand
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/cached/-/cached-1.0.0.tgz', method: 'GET' })
+        .reply(200, 'data');
+      await expect(readTarball('cached', 'cached-1.0.0.tgz')).resolves.toEqual('data');
+    });
+
+    test('should keep the tarballs downloaded recently', async () => {
+      const before = Date.now();
+      // served from the storage
+      await expect(readTarball('cached', 'cached-1.0.0.tgz')).resolves.toEqual('data');
+
+      const result = await storage.cache!.run();
+
+      expect(result.tarballs).toEqual(0);
+      expect(fs.existsSync(path.join(storagePath, 'cached', 'cached-1.0.0.tgz'))).toBe(true);
+      const manifest = await storage.localStorage.getPackageMetadataNext('cached');
+      expect(manifest._distfiles['cached-1.0.0.tgz'].accessed).toBeGreaterThanOrEqual(before);
+    });
+
+    test('should not save the downloads of the published tarballs', async () => {
+      await expect(readTarball('published', 'published-1.0.0.tgz')).resolves.toEqual('data');
+
+      await storage.cache!.run();
+
+      const manifest = await storage.localStorage.getPackageMetadataNext('published');
+      expect(manifest._distfiles).toEqual({});
+    });
+  });
+});
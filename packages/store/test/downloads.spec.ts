@@ -0,0 +1,196 @@
+import fs from 'fs';
+import path from 'path';
+
+import { Config } from '@verdaccio/config';
+import { setup } from '@verdaccio/logger';
+import { configExample, generateNewVersion, generateRamdonStorage } from '@verdaccio/mock';
+import { IPackageStorageManager } from '@verdaccio/types';
+
+import {
+  DOWNLOADS_MAX_DAYS,
+  Storage,
+  addDownloads,
+  generatePackageTemplate,
+  getDownloadsPoint,
+  getDownloadsRange,
+  parseDownloadsPeriod,
+} from '../src';
+
+setup([]);
+
+const now = Date.parse('2022-03-10T12:00:00.000Z');
+
+describe('downloads', () => {
+  describe('parseDownloadsPeriod', () => {
+    test('should parse the last periods', () => {
+      expect(parseDownloadsPeriod('last-day', now)).toEqual({
+        start: '2022-03-10',
+        end: '2022-03-10',
+      });
+      expect(parseDownloadsPeriod('last-week', now)).toEqual({
+        start: '2022-03-04',
+        end: '2022-03-10',
+      });
+      expect(parseDownloadsPeriod('last-month', now)).toEqual({
+        start: '2022-02-09',
+        end: '2022-03-10',
+      });
+    });
+
+    test('should parse the days', () => {
+      expect(parseDownloadsPeriod('2022-01-31')).toEqual({
+        start: '2022-01-31',
+        end: '2022-01-31',
+      });
+      expect(parseDownloadsPeriod('2022-01-01:2022-01-31')).toEqual({
+        start: '2022-01-01',
+        end: '2022-01-31',
+      });
+    });
+
+    test('should reject the invalid periods', () => {
+      expect(parseDownloadsPeriod('last-century')).toBeNull();
+      expect(parseDownloadsPeriod('2022-02-30')).toBeNull();
+      expect(parseDownloadsPeriod('2022-01-31:2022-01-01')).toBeNull();
+      expect(parseDownloadsPeriod('2020-01-01:2022-01-01')).toBeNull();
+      expect(parseDownloadsPeriod('toString')).toBeNull();
+    });
+  });
+
+  describe('getDownloadsPoint and getDownloadsRange', () => {
+    const downloads = {
+      '2022-03-08': { '1.0.0': 2, '2.0.0': 1 },
+      '2022-03-10': { '2.0.0': 4 },
+      '2022-01-01': { '1.0.0': 10 },
+    };
+    const period = { start: '2022-03-08', end: '2022-03-10' };
+
+    test('should add up the downloads of the period', () => {
+      expect(getDownloadsPoint('foo', downloads, period)).toEqual({
+        downloads: 7,
+        start: '2022-03-08',
+        end: '2022-03-10',
+        package: 'foo',
+        versions: { '1.0.0': 2, '2.0.0': 5 },
+      });
+    });
+
+    test('should list every day of the period', () => {
+      expect(getDownloadsRange('foo', downloads, period)).toEqual({
+        downloads: [
+          { downloads: 3, day: '2022-03-08' },
+          { downloads: 0, day: '2022-03-09' },
+          { downloads: 4, day: '2022-03-10' },
+        ],
+        start: '2022-03-08',
+        end: '2022-03-10',
+        package: 'foo',
+      });
+    });
+  });
+
+  describe('addDownloads', () => {
+    test('should count the downloads by version and drop the old days', () => {
+      const manifest = generatePackageTemplate('foo');
+      manifest.versions['1.0.0'] = generateNewVersion('foo', '1.0.0');
+      const downloads = { '2020-01-01': { '1.0.0': 3 }, '2022-03-10': { '1.0.0': 1 } };
+      const counts = new Map([
+        [
+          '2022-03-10',
+          new Map([
+            ['foo-1.0.0.tgz', 2],
+            ['foo-0.0.1.tgz', 5],
+          ]),
+        ],
+      ]);
+
+      addDownloads(downloads, manifest, counts, now);
+
+      expect(downloads).toEqual({ '2022-03-10': { '1.0.0': 3 } });
+      expect(DOWNLOADS_MAX_DAYS).toBeGreaterThan(365);
+    });
+  });
+
+  describe('Storage', () => {
+    const pkgName = 'download-me';
+    const filename = `${pkgName}-1.0.0.tgz`;
+    let storage: Storage;
+    let storagePath: string;
+    let revision: string;
+
+    const download = (options?: { countDownload: boolean }) =>
+      new Promise<void>((resolve, reject) => {
+        const stream = storage.getTarball(pkgName, filename, options);
+        stream.on('error', reject);
+        stream.on('end', () => resolve());
+        stream.resume();
+      });
+
+    beforeEach(async () => {
+      storagePath = generateRamdonStorage();
+      const config = new Config(configExample({ storage: storagePath }));
+      storage = new Storage(config);
+      await storage.init(config);
+      const manifest = generatePackageTemplate(pkgName);
+      manifest.versions['1.0.0'] = generateNewVersion(pkgName, '1.0.0');
+      manifest._attachments = { [filename]: { shasum: 'sha' } };
+      const plugin = storage.localStorage.storagePlugin;
+      await plugin.add(pkgName);
+      const packageStorage = plugin.getPackageStorage(pkgName) as IPackageStorageManager;
+      await packageStorage.savePackageNext(pkgName, manifest);
+      revision = manifest._rev;
+      fs.writeFileSync(path.join(storagePath, pkgName, filename), 'data');
+    });
+
+    afterEach(() => {
+      storage.downloads?.stop();
+    });
+
+    test('should count the downloads of the tarballs', async () => {
+      await download();
+      await download();
+      await download({ countDownload: false });
+
+      const downloads = await storage.getDownloads(pkgName);
+
+      expect(Object.values(downloads)).toEqual([{ '1.0.0': 2 }]);
+      // saved apart from the manifest, its revision does not change
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(storagePath, pkgName, 'package.json'), 'utf8')
+      );
+      expect(manifest._rev).toEqual(revision);
+      expect(manifest).not.toHaveProperty('_downloads');
+      // the reads do not save the downloads counted
+      expect(fs.existsSync(path.join(storagePath, pkgName, '.downloads.json'))).toBe(false);
+    });
+
+    test('should add the downloads counted to the ones saved', async () => {
+      await download();
+      await storage.downloads?.save();
+      await download();
+
+      const downloads = await storage.getDownloads(pkgName);
+
+      expect(Object.values(downloads)).toEqual([{ '1.0.0': 2 }]);
+      const saved = JSON.parse(
+        fs.readFileSync(path.join(storagePath, pkgName, '.downloads.json'), 'utf8')
+      );
+      expect(Object.values(saved)).toEqual([{ '1.0.0': 1 }]);
+    });
+
+    test('should save the downloads counted on close', async () => {
+      await download();
+
+      await storage.close();
+
+      const saved = JSON.parse(
+        fs.readFileSync(path.join(storagePath, pkgName, '.downloads.json'), 'utf8')
+      );
+      expect(Object.values(saved)).toEqual([{ '1.0.0': 1 }]);
+    });
+
+    test('should fail for a package not stored', async () => {
+      await expect(storage.getDownloads('not-stored')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { dirSync } from 'tmp-promise';
+
+import { Config as AppConfig } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { configExample, generateNewVersion } from '@verdaccio/mock';
+import { IPackageStorageManager } from '@verdaccio/types';
+
+import { checkStorage } from '../src/fsck';
+import { IPluginStorage } from '../src/local-storage';
+import { loadStoragePlugin } from '../src/migrate';
+import { generatePackageTemplate } from '../src/storage-utils';
+
+setup([]);
+
+describe('fsck', () => {
+  const pkgName = 'check-me';
+  let storagePath: string;
+  let plugin: IPluginStorage;
+
+  const pkgPath = (name = pkgName) => path.join(storagePath, name);
+
+  beforeEach(async () => {
+    const tmpFolder = dirSync({ unsafeCleanup: true });
+    storagePath = path.join(tmpFolder.name, 'storage');
+    const config = new AppConfig(
+      configExample({
+        config_path: path.join(tmpFolder.name, 'config.yaml'),
+        storage: storagePath,
+      })
+    );
+    plugin = await loadStoragePlugin(config, logger);
+
+    const manifest = generatePackageTemplate(pkgName);
+    manifest.versions['1.0.0'] = generateNewVersion(pkgName, '1.0.0');
+    manifest.versions['2.0.0'] = generateNewVersion(pkgName, '2.0.0');
+    manifest._attachments = {
+      [`${pkgName}-1.0.0.tgz`]: { shasum: 'sha' },
+      [`${pkgName}-2.0.0.tgz`]: { shasum: 'sha' },
+    };
+    const storage = plugin.getPackageStorage(pkgName) as IPackageStorageManager;
+    await storage.savePackageNext(pkgName, manifest);
+    await plugin.add(pkgName);
+    fs.writeFileSync(path.join(pkgPath(), `${pkgName}-1.0.0.tgz`), 'data');
+    // left by a publish interrupted before the manifest update
+    fs.writeFileSync(path.join(pkgPath(), `${pkgName}-3.0.0.tgz`), 'data');
+    // listed without manifest
+    await plugin.add('lost');
+    fs.mkdirSync(pkgPath('broken'));
+    fs.writeFileSync(path.join(pkgPath('broken'), 'package.json'), '{');
+    // a publish interrupted while the tarball was written
+    fs.writeFileSync(
+      path.join(pkgPath(), '.journal.json'),
+      JSON.stringify({
+        entries: [
+          { file: `${pkgName}-4.0.0.tgz`, temp: `${pkgName}-4.0.0.tgz.tmp-1`, state: 'pending' },
+        ],
+      })
+    );
+    fs.writeFileSync(path.join(pkgPath(), `${pkgName}-4.0.0.tgz.tmp-1`), 'partial');
+  });
+
+  test('should report the issues without repairing them', async () => {
+    const report = await checkStorage(plugin, { minAge: 0 }, logger);
+
+    expect(report.packages).toEqual(1);
+    expect(report.errors).toEqual([]);
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        { name: 'lost', type: 'missing-manifest', repaired: false },
+        { name: 'broken', type: 'invalid-manifest', repaired: false },
+        {
+          name: pkgName,
+          filename: `${pkgName}-2.0.0.tgz`,
+          type: 'missing-tarball',
+          repaired: false,
+        },
+        { name: pkgName, filename: `${pkgName}-3.0.0.tgz`, type: 'unreferenced', repaired: false },
+        {
+          name: pkgName,
+          filename: `${pkgName}-4.0.0.tgz`,
+          type: 'interrupted-write',
+          repaired: false,
+        },
+        {
+          name: pkgName,
+          filename: `${pkgName}-4.0.0.tgz.tmp-1`,
+          type: 'temporary',
+          repaired: false,
+        },
+      ])
+    );
+    expect(report.issues).toHaveLength(6);
+    expect(await plugin.get()).toContain('lost');
+    expect(fs.existsSync(path.join(pkgPath(), '.journal.json'))).toBe(true);
+  });
+
+  test('should repair the issues', async () => {
+    const report = await checkStorage(plugin, { repair: true, minAge: 0 }, logger);
+
+    expect(report.issues.filter(({ repaired }) => repaired).map(({ type }) => type)).toEqual([
+      'interrupted-write',
+      'missing-manifest',
+      'unreferenced',
+    ]);
+    expect(await plugin.get()).toEqual([pkgName]);
+    expect(fs.existsSync(path.join(pkgPath(), `${pkgName}-3.0.0.tgz`))).toBe(false);
+    expect(fs.existsSync(path.join(pkgPath(), `${pkgName}-4.0.0.tgz.tmp-1`))).toBe(false);
+    expect(fs.existsSync(path.join(pkgPath(), '.journal.json'))).toBe(false);
+  });
+});
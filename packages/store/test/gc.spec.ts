@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { dirSync } from 'tmp-promise';
+
+import { Config as AppConfig } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { configExample, generateNewVersion } from '@verdaccio/mock';
+import { IPackageStorageManager } from '@verdaccio/types';
+
+import { collectGarbage, validateGarbageCollection } from '../src/gc';
+import { IPluginStorage } from '../src/local-storage';
+import { loadStoragePlugin } from '../src/migrate';
+import { generatePackageTemplate } from '../src/storage-utils';
+
+setup([]);
+
+describe('garbage collection', () => {
+  const pkgName = 'gc-me';
+  let storagePath: string;
+  let plugin: IPluginStorage;
+
+  const writeFile = (filename: string, name = pkgName) =>
+    fs.writeFileSync(path.join(storagePath, name, filename), 'data');
+
+  beforeEach(async () => {
+    const tmpFolder = dirSync({ unsafeCleanup: true });
+    storagePath = path.join(tmpFolder.name, 'storage');
+    const config = new AppConfig(
+      configExample({
+        config_path: path.join(tmpFolder.name, 'config.yaml'),
+        storage: storagePath,
+      })
+    );
+    plugin = await loadStoragePlugin(config, logger);
+
+    const manifest = generatePackageTemplate(pkgName);
+    const version = generateNewVersion(pkgName, '1.0.0');
+    version.dist.tarball = `http://localhost:4873/${pkgName}/-/${pkgName}-1.0.0.tgz`;
+    manifest.versions['1.0.0'] = version;
+    manifest._attachments = { [`${pkgName}-2.0.0.tgz`]: { shasum: 'sha' } };
+    const storage = plugin.getPackageStorage(pkgName) as IPackageStorageManager;
+    await storage.savePackageNext(pkgName, manifest);
+    await plugin.add(pkgName);
+    writeFile(`${pkgName}-1.0.0.tgz`);
+    writeFile(`${pkgName}-2.0.0.tgz`);
+  });
+
+  test('should report the garbage without removing it', async () => {
+    writeFile(`${pkgName}-0.0.1.tgz`);
+    writeFile(`${pkgName}-3.0.0.tgz.tmp-1234`);
+
+    const report = await collectGarbage(plugin, { dryRun: true, minAge: 0 }, logger);
+
+    expect(report.packages).toEqual(1);
+    expect(report.removed).toEqual(0);
+    expect(report.errors).toEqual([]);
+    expect(report.files).toEqual(
+      expect.arrayContaining([
+        { name: pkgName, filename: `${pkgName}-0.0.1.tgz`, reason: 'unreferenced' },
+        { name: pkgName, filename: `${pkgName}-3.0.0.tgz.tmp-1234`, reason: 'temporary' },
+      ])
+    );
+    expect(report.files).toHaveLength(2);
+    expect(fs.existsSync(path.join(storagePath, pkgName, `${pkgName}-0.0.1.tgz`))).toBe(true);
+  });
+
+  test('should remove the garbage', async () => {
+    writeFile(`${pkgName}-0.0.1.tgz`);
+    writeFile('package.json.tmp5678');
+
+    const report = await collectGarbage(plugin, { minAge: 0 }, logger);
+
+    expect(report.removed).toEqual(2);
+    expect(fs.readdirSync(path.join(storagePath, pkgName)).sort()).toEqual([
+      `${pkgName}-1.0.0.tgz`,
+      `${pkgName}-2.0.0.tgz`,
+      'package.json',
+    ]);
+  });
+
+  test('should keep the files modified recently', async () => {
+    writeFile(`${pkgName}-0.0.1.tgz`);
+
+    const report = await collectGarbage(plugin, { minAge: 60 * 1000 }, logger);
+
+    expect(report.files).toEqual([]);
+    expect(fs.existsSync(path.join(storagePath, pkgName, `${pkgName}-0.0.1.tgz`))).toBe(true);
+  });
+
+  test('should collect the tarballs of the cached packages', async () => {
+    // a package cached from an uplink is not listed by the database
+    fs.mkdirSync(path.join(storagePath, 'cached'));
+    writeFile('cached-1.0.0.tgz', 'cached');
+
+    const report = await collectGarbage(plugin, { dryRun: true, minAge: 0 }, logger);
+
+    expect(report.files).toEqual([
+      { name: 'cached', filename: 'cached-1.0.0.tgz', reason: 'unreferenced' },
+    ]);
+  });
+
+  test('should validate the configuration', () => {
+    expect(() => validateGarbageCollection({ min_age: '2h', access: 'admin' })).not.toThrow();
+    expect(() => validateGarbageCollection({ min_age: 'soon' })).toThrow(
+      'CONFIG: invalid gc.min_age "soon"'
+    );
+    expect(() => validateGarbageCollection({ access: 42 as any })).toThrow(
+      'CONFIG: gc.access must be a list of users and groups'
+    );
+  });
+});
@@ -7,7 +7,8 @@ import { API_ERROR, DIST_TAGS, HTTP_STATUS } from '@verdaccio/core';
 import { VerdaccioError } from '@verdaccio/core';
 import { logger, setup } from '@verdaccio/logger';
 import { configExample, generateNewVersion } from '@verdaccio/mock';
-import { Config, MergeTags, Package } from '@verdaccio/types';
+import { Config, MergeTags, Package, Version } from '@verdaccio/types';
+import { calculateIntegrity } from '@verdaccio/utils';
 
 import { LocalStorage, PROTO_NAME } from '../src/local-storage';
 import { generatePackageTemplate } from '../src/storage-utils';
@@ -58,6 +59,16 @@ describe('LocalStorage', () => {
       );
     });
   };
+  const addVersionToStore = (pkgName: string, version: string, metadata: Version) => {
+    return new Promise((resolve, reject) => {
+      storage.addVersion(pkgName, version, metadata, '', (err, data) => {
+        if (err) {
+          return reject(err);
+        }
+        resolve(data);
+      });
+    });
+  };
   const addTarballToStore = (pkgName: string, tarballName: string) => {
     return new Promise((resolve, reject) => {
       const tarballData = JSON.parse(readMetadata('addTarball').toString());
@@ -471,6 +482,48 @@ describe('LocalStorage', () => {
           });
         });
 
+        test('should set the integrity on the version without integrity', async () => {
+          const pkgName = 'integrity-package';
+          const version = generateNewVersion(pkgName, '9.0.0');
+          delete version.dist.integrity;
+          await addPackageToStore(pkgName, generatePackageTemplate(pkgName));
+          await addVersionToStore(pkgName, '9.0.0', version);
+          await addTarballToStore(pkgName, `${pkgName}-9.0.0.tgz`);
+          const data = await getPackageMetadataFromStore(pkgName);
+          const tarballData = JSON.parse(readMetadata('addTarball'));
+          const integrity = calculateIntegrity(Buffer.from(tarballData.data, 'base64'));
+
+          expect(data._attachments[`${pkgName}-9.0.0.tgz`].integrity).toEqual(integrity);
+          expect(data.versions['9.0.0'].dist.integrity).toEqual(integrity);
+        });
+
+        test('should keep the integrity of the uploaded tarball on add version', async () => {
+          const pkgName = 'integrity-package';
+          const version = generateNewVersion(pkgName, '9.0.0');
+          delete version.dist.integrity;
+          delete version.dist.shasum;
+          await addPackageToStore(pkgName, generatePackageTemplate(pkgName));
+          await addTarballToStore(pkgName, `${pkgName}-9.0.0.tgz`);
+          await addVersionToStore(pkgName, '9.0.0', version);
+          const data = await getPackageMetadataFromStore(pkgName);
+
+          expect(data.versions['9.0.0'].dist.integrity).toMatch(/^sha512-/);
+          expect(data.versions['9.0.0'].dist.integrity).toEqual(
+            data._attachments[`${pkgName}-9.0.0.tgz`].integrity
+          );
+        });
+
+        test('should not override the integrity of the version', async () => {
+          const pkgName = 'integrity-package';
+          const version = generateNewVersion(pkgName, '9.0.0');
+          await addPackageToStore(pkgName, generatePackageTemplate(pkgName));
+          await addVersionToStore(pkgName, '9.0.0', version);
+          await addTarballToStore(pkgName, `${pkgName}-9.0.0.tgz`);
+          const data = await getPackageMetadataFromStore(pkgName);
+
+          expect(data.versions['9.0.0'].dist.integrity).toEqual(version.dist.integrity);
+        });
+
         test.todo('should fails on update data afer add version');
 
         // TODO: restore when abort signal is being handled correctly
@@ -518,6 +571,42 @@ describe('LocalStorage', () => {
         });
       });
 
+      describe('LocalStorage::backfillIntegrity', () => {
+        test('should fill in the missing integrity of local tarballs', async () => {
+          const pkgName = 'backfill-package';
+          await addPackageToStore(pkgName, generatePackageTemplate(pkgName));
+          await addNewVersion(pkgName, '9.0.0');
+          await addNewVersion(pkgName, '9.0.1');
+          await addTarballToStore(pkgName, `${pkgName}-9.0.0.tgz`);
+          // simulate a package stored before the integrity was calculated on upload
+          await new Promise((resolve) => {
+            // @ts-ignore
+            storage._updatePackage(
+              pkgName,
+              (data: Package, cb) => {
+                delete data.versions['9.0.0'].dist.integrity;
+                delete data.versions['9.0.1'].dist.integrity;
+                delete data._attachments[`${pkgName}-9.0.0.tgz`].integrity;
+                cb(null);
+              },
+              resolve
+            );
+          });
+
+          const updated = await storage.backfillIntegrity();
+          const data = await getPackageMetadataFromStore(pkgName);
+          const tarballData = JSON.parse(readMetadata('addTarball'));
+
+          expect(updated).toEqual(1);
+          expect(data.versions['9.0.0'].dist.integrity).toEqual(
+            calculateIntegrity(Buffer.from(tarballData.data, 'base64'))
+          );
+          // the tarball is not available locally
+          expect(data.versions['9.0.1'].dist.integrity).toBeUndefined();
+          await expect(storage.backfillIntegrity()).resolves.toEqual(0);
+        });
+      });
+
       describe('LocalStorage::getTarball', () => {
         test('should get a existing tarball', async () => {
           const pkgName = `existing-package`;
@@ -0,0 +1,138 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { dirSync } from 'tmp-promise';
+
+import { Config as AppConfig } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { configExample, generateNewVersion } from '@verdaccio/mock';
+import { IPackageStorageManager, Package } from '@verdaccio/types';
+import { createTarballHash } from '@verdaccio/utils';
+
+import { IPluginStorage } from '../src/local-storage';
+import { hashTarball, loadStoragePlugin, migrateStorage } from '../src/migrate';
+import { generatePackageTemplate } from '../src/storage-utils';
+
+setup([]);
+
+describe('migrateStorage', () => {
+  const pkgName = 'migrate-me';
+  const tarballName = `${pkgName}-1.0.0.tgz`;
+  const tarballData = Buffer.from('the tarball of migrate-me');
+  const tarballSha = createTarballHash().update(tarballData).digest('hex');
+
+  const getPlugin = (): Promise<IPluginStorage> => {
+    const tmpFolder = dirSync({ unsafeCleanup: true });
+    const config = new AppConfig(
+      configExample({
+        config_path: path.join(tmpFolder.name, 'config.yaml'),
+        storage: path.join(tmpFolder.name, 'storage'),
+      })
+    );
+    return loadStoragePlugin(config, logger);
+  };
+
+  const savePackage = (storage: IPackageStorageManager, manifest: Package): Promise<void> =>
+    storage.savePackageNext(manifest.name, manifest);
+
+  const writeTarball = (storage: IPackageStorageManager, name: string, data: Buffer) =>
+    new Promise<void>((resolve, reject) => {
+      const stream = storage.writeTarball(name);
+      stream.on('error', reject);
+      stream.on('success', () => resolve());
+      stream.on('open', () => {
+        const source = Readable.from([data]);
+        source.on('end', () => stream.done());
+        source.pipe(stream);
+      });
+    });
+
+  const readManifest = (storage: IPackageStorageManager, name: string): Promise<Package | null> =>
+    new Promise((resolve) => {
+      storage.readPackage(name, (err, manifest) => resolve(err ? null : manifest));
+    });
+
+  const publish = async (plugin: IPluginStorage, data = tarballData) => {
+    const manifest = generatePackageTemplate(pkgName);
+    manifest.versions['1.0.0'] = generateNewVersion(pkgName, '1.0.0', tarballSha);
+    manifest._attachments = { [tarballName]: { shasum: tarballSha } };
+    const storage = plugin.getPackageStorage(pkgName) as IPackageStorageManager;
+    await savePackage(storage, manifest);
+    await writeTarball(storage, tarballName, data);
+    await plugin.add(pkgName);
+  };
+
+  test('should copy the secret, the manifests and the tarballs', async () => {
+    const from = await getPlugin();
+    const to = await getPlugin();
+    await from.setSecret('the-secret');
+    await publish(from);
+
+    const result = await migrateStorage(from, to, { verify: true }, logger);
+
+    expect(result).toEqual({ packages: 1, tarballs: 1, skipped: 0, tokens: 0, errors: [] });
+    expect(await to.getSecret()).toEqual('the-secret');
+    expect(await to.get()).toEqual([pkgName]);
+    const storage = to.getPackageStorage(pkgName) as IPackageStorageManager;
+    expect((await readManifest(storage, pkgName))?.name).toEqual(pkgName);
+    expect(await hashTarball(storage, tarballName)).toEqual(tarballSha);
+  });
+
+  test('should not write anything on dry run', async () => {
+    const from = await getPlugin();
+    const to = await getPlugin();
+    await publish(from);
+
+    const result = await migrateStorage(from, to, { dryRun: true }, logger);
+
+    expect(result).toEqual({ packages: 1, tarballs: 1, skipped: 0, tokens: 0, errors: [] });
+    expect(await to.get()).toEqual([]);
+    const storage = to.getPackageStorage(pkgName) as IPackageStorageManager;
+    expect(await readManifest(storage, pkgName)).toBeNull();
+  });
+
+  test('should skip the tarballs already copied on resume', async () => {
+    const from = await getPlugin();
+    const to = await getPlugin();
+    await publish(from);
+    await migrateStorage(from, to, {}, logger);
+
+    const failed = await migrateStorage(from, to, {}, logger);
+    expect(failed.errors).toEqual([
+      { name: pkgName, message: `${tarballName} already exists, see --resume` },
+    ]);
+
+    const result = await migrateStorage(from, to, { resume: true }, logger);
+    expect(result).toEqual({ packages: 1, tarballs: 0, skipped: 1, tokens: 0, errors: [] });
+  });
+
+  test('should report a tarball not matching its shasum', async () => {
+    const from = await getPlugin();
+    const to = await getPlugin();
+    await publish(from, Buffer.from('a corrupted tarball'));
+
+    const result = await migrateStorage(from, to, { verify: true }, logger);
+
+    expect(result.packages).toEqual(0);
+    expect(result.errors).toEqual([
+      { name: pkgName, message: `${tarballName} does not match its shasum in the source` },
+    ]);
+  });
+
+  test('should copy the tokens of the given users', async () => {
+    const from = await getPlugin();
+    const to = await getPlugin();
+    const token = {
+      user: 'jota',
+      key: 'token-key',
+      token: 'token',
+      readonly: false,
+      created: Date.now(),
+    };
+    await from.saveToken(token);
+
+    const result = await migrateStorage(from, to, { users: ['jota'] }, logger);
+
+    expect(result.tokens).toEqual(1);
+    expect(await to.readTokens({ user: 'jota' })).toEqual([token]);
+  });
+});
@@ -0,0 +1,173 @@
+import { MockAgent } from 'undici';
+
+import { Config } from '@verdaccio/config';
+import { logger, setup } from '@verdaccio/logger';
+import { configExample, generateRamdonStorage } from '@verdaccio/mock';
+import { ProxyStorage } from '@verdaccio/proxy';
+import { generatePackageMetadata } from '@verdaccio/test-helper';
+
+import { Mirror, Storage, getMirrorVersions, validateMirror } from '../src';
+
+setup([]);
+
+const domain = 'http://localhost:4873';
+const tarballDomain = 'http://localhost:5555';
+
+describe('mirror', () => {
+  describe('validateMirror', () => {
+    test('should accept a valid mirror', () => {
+      expect(() => validateMirror(undefined)).not.toThrow();
+      expect(() =>
+        validateMirror({ packages: ['react', '@babel/*'], interval: '12h', dependencies: 2 })
+      ).not.toThrow();
+    });
+
+    test('should fail on invalid values', () => {
+      // @ts-expect-error
+      expect(() => validateMirror({})).toThrow(/mirror.packages/);
+      expect(() => validateMirror({ packages: ['foo'], interval: 'soon' })).toThrow(
+        /invalid mirror.interval/
+      );
+      expect(() => validateMirror({ packages: ['foo'], dependencies: -1 })).toThrow(
+        /invalid mirror.dependencies/
+      );
+      // @ts-expect-error
+      expect(() => validateMirror({ packages: ['foo'], versions: 'latest' })).toThrow(
+        /invalid mirror.versions/
+      );
+    });
+  });
+
+  describe('getMirrorVersions', () => {
+    const manifest: any = {
+      'dist-tags': { latest: '2.0.0', next: '3.0.0-beta.1' },
+      versions: { '1.0.0': {}, '1.1.0': {}, '2.0.0': {}, '3.0.0-beta.1': {} },
+    };
+
+    test('should get the dist-tags versions', () => {
+      expect(getMirrorVersions(manifest, 'dist-tags', null)).toEqual(['2.0.0', '3.0.0-beta.1']);
+    });
+
+    test('should get all versions', () => {
+      expect(getMirrorVersions(manifest, 'all', null)).toHaveLength(4);
+    });
+
+    test('should get the highest version of a range', () => {
+      expect(getMirrorVersions(manifest, 'all', '^1.0.0')).toEqual(['1.1.0']);
+      expect(getMirrorVersions(manifest, 'all', 'github:foo/bar')).toEqual([]);
+    });
+  });
+
+  describe('Mirror', () => {
+    let mockAgent: MockAgent;
+    const mockUplinks = (storage: Storage): void => {
+      for (const uplink of Object.values(storage.uplinks)) {
+        (uplink as ProxyStorage).dispatcher = mockAgent;
+      }
+    };
+    beforeEach(() => {
+      mockAgent = new MockAgent({ connections: 1 });
+      mockAgent.disableNetConnect();
+    });
+
+    const getStorage = async (): Promise<Storage> => {
+      const config = new Config(configExample({ storage: generateRamdonStorage() }));
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      return storage;
+    };
+
+    test('should mirror metadata and tarballs', async () => {
+      const storage = await getStorage();
+      const metadata = jest.fn(() => ({ statusCode: 200, data: generatePackageMetadata('foo') }));
+      const tarball = jest.fn(() => ({ statusCode: 200, data: 'tarball' }));
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(metadata);
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(tarball);
+      const mirror = new Mirror(storage, { packages: ['foo'] }, logger);
+
+      await expect(mirror.run()).resolves.toEqual({ packages: 1, tarballs: 1, errors: 0 });
+      expect(metadata).toHaveBeenCalledTimes(1);
+      expect(tarball).toHaveBeenCalledTimes(1);
+    });
+
+    test('should mirror the dependencies', async () => {
+      const storage = await getStorage();
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, generatePackageMetadata('foo'));
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/verdaccio', method: 'GET' })
+        .reply(200, generatePackageMetadata('verdaccio', '2.7.3'));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(200, 'tarball');
+      const dependency = jest.fn(() => ({ statusCode: 200, data: 'tarball' }));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/verdaccio/-/verdaccio-2.7.3.tgz', method: 'GET' })
+        .reply(dependency);
+      const mirror = new Mirror(storage, { packages: ['foo'], dependencies: 1 }, logger);
+
+      await expect(mirror.run()).resolves.toEqual({ packages: 2, tarballs: 2, errors: 0 });
+      expect(dependency).toHaveBeenCalledTimes(1);
+    });
+
+    test('should count the errors and continue', async () => {
+      const storage = await getStorage();
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(404, '');
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/bar', method: 'GET' })
+        .reply(200, generatePackageMetadata('bar'));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/bar/-/bar-1.0.0.tgz', method: 'GET' })
+        .reply(500, '');
+      const mirror = new Mirror(storage, { packages: ['foo', 'bar'] }, logger);
+
+      await expect(mirror.run()).resolves.toEqual({ packages: 1, tarballs: 0, errors: 2 });
+    });
+
+    test('should mirror the stored packages matching a pattern', async () => {
+      const storage = await getStorage();
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, generatePackageMetadata('foo'));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(200, 'tarball');
+      await new Mirror(storage, { packages: ['foo'] }, logger).run();
+
+      const mirror = new Mirror(storage, { packages: ['f*', 'bar*'] }, logger);
+      // the metadata is still fresh (maxage) and the tarball is already stored
+      await expect(mirror.run()).resolves.toEqual(
+        expect.objectContaining({ packages: 1, errors: 0 })
+      );
+    });
+
+    test('should not run twice at the same time', async () => {
+      const storage = await getStorage();
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, generatePackageMetadata('foo'));
+      mockAgent
+        .get(tarballDomain)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(200, 'tarball');
+      const mirror = new Mirror(storage, { packages: ['foo'] }, logger);
+
+      const [first, second] = await Promise.all([mirror.run(), mirror.run()]);
+      expect(first).toBe(second);
+    });
+  });
+});
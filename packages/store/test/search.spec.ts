@@ -1,9 +1,8 @@
-import { setGlobalDispatcher } from 'undici';
-
 import { Config } from '@verdaccio/config';
 import { searchUtils } from '@verdaccio/core';
 import { setup } from '@verdaccio/logger';
 import { configExample } from '@verdaccio/mock';
+import { ProxyStorage } from '@verdaccio/proxy';
 
 import { Storage, removeDuplicates } from '../src';
 
@@ -40,11 +39,11 @@ describe('search', () => {
       };
       const mockAgent = new MockAgent({ connections: 1 });
       mockAgent.disableNetConnect();
-      setGlobalDispatcher(mockAgent);
       const mockClient = mockAgent.get(domain);
       mockClient.intercept(options).reply(200, JSON.stringify(response));
       const config = new Config(configExample());
       const storage = new Storage(config);
+      (storage.uplinks.npmjs as ProxyStorage).dispatcher = mockAgent;
       await storage.init(config);
 
       // @ts-expect-error
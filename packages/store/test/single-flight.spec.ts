@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+
+import { SingleFlight } from '../src/single-flight';
+
+describe('SingleFlight', () => {
+  test('should share the result of concurrent calls', () => {
+    const flights = new SingleFlight();
+    const done: any[] = [];
+    const task = jest.fn((_signal, cb) => done.push(cb));
+    const first = jest.fn();
+    const second = jest.fn();
+
+    flights.run('react', null, task, first);
+    flights.run('react', null, task, second);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    const manifest = { name: 'react', versions: {} };
+    done[0](null, manifest, ['uplink error']);
+    expect(first).toHaveBeenCalledWith(null, manifest, ['uplink error']);
+    // the other callers get a copy
+    expect(second).toHaveBeenCalledWith(null, manifest, ['uplink error']);
+    expect(second.mock.calls[0][1]).not.toBe(manifest);
+  });
+
+  test('should run the task again once the flight landed', () => {
+    const flights = new SingleFlight();
+    const task = jest.fn((_signal, cb) => cb(null, {}));
+
+    flights.run('react', null, task, jest.fn());
+    flights.run('react', null, task, jest.fn());
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not share flights of different keys', () => {
+    const flights = new SingleFlight();
+    const task = jest.fn();
+
+    flights.run('react', null, task, jest.fn());
+    flights.run('vue', null, task, jest.fn());
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('should abort once every client request is aborted', () => {
+    const flights = new SingleFlight();
+    let signal: AbortSignal | undefined;
+    const task = jest.fn((flightSignal) => {
+      signal = flightSignal;
+    });
+    const req1 = new EventEmitter();
+    const req2 = new EventEmitter();
+
+    flights.run('react', req1, task, jest.fn());
+    flights.run('react', req2, task, jest.fn());
+    req1.emit('aborted');
+    expect(signal?.aborted).toBe(false);
+    req2.emit('aborted');
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -5,10 +5,12 @@ import { Package } from '@verdaccio/types';
 
 import {
   STORAGE,
+  getTarballsMissingIntegrity,
   hasInvalidPublishBody,
   isDifferentThanOne,
   mergeUplinkTimeIntoLocal,
   normalizePackage,
+  setTarballIntegrity,
 } from '../src/storage-utils';
 import { tagVersion } from '../src/storage-utils';
 import { readFile } from './fixtures/test.utils';
@@ -266,4 +268,36 @@ describe('Storage Utils', () => {
       ).toBeTruthy();
     });
   });
+
+  describe('tarball integrity', () => {
+    const buildManifest = (): any => ({
+      name: 'foo',
+      versions: {
+        '1.0.0': { dist: { tarball: 'http://localhost/foo/-/foo-1.0.0.tgz' } },
+        '1.0.1': { dist: { tarball: 'http://localhost/foo/-/foo-1.0.1.tgz', integrity: 'sha1-a' } },
+        '1.0.2': { dist: { tarball: 'http://localhost/foo/-/foo-1.0.2.tgz' } },
+      },
+      _attachments: {
+        'foo-1.0.0.tgz': { shasum: 'a' },
+        'foo-1.0.1.tgz': { shasum: 'b' },
+      },
+    });
+
+    test('should list only the local tarballs without integrity', () => {
+      expect(getTarballsMissingIntegrity(buildManifest())).toEqual(['foo-1.0.0.tgz']);
+    });
+
+    test('should set the integrity on the attachment and the version', () => {
+      const manifest = buildManifest();
+      expect(setTarballIntegrity(manifest, 'foo-1.0.0.tgz', 'sha512-a')).toEqual(1);
+      expect(manifest._attachments['foo-1.0.0.tgz'].integrity).toEqual('sha512-a');
+      expect(manifest.versions['1.0.0'].dist.integrity).toEqual('sha512-a');
+    });
+
+    test('should not override an existing integrity', () => {
+      const manifest = buildManifest();
+      expect(setTarballIntegrity(manifest, 'foo-1.0.1.tgz', 'sha512-b')).toEqual(0);
+      expect(manifest.versions['1.0.1'].dist.integrity).toEqual('sha1-a');
+    });
+  });
 });
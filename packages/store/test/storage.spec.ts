@@ -1,13 +1,17 @@
-import nock from 'nock';
+import fs from 'fs';
+import _ from 'lodash';
 import * as httpMocks from 'node-mocks-http';
+import path from 'path';
+import { MockAgent } from 'undici';
 
 import { Config } from '@verdaccio/config';
-import { HEADERS, errorUtils } from '@verdaccio/core';
+import { HEADERS, errorUtils, pkgUtils } from '@verdaccio/core';
 import { setup } from '@verdaccio/logger';
 import { configExample, generateRamdonStorage } from '@verdaccio/mock';
+import { ProxyStorage } from '@verdaccio/proxy';
 import { generatePackageMetadata } from '@verdaccio/test-helper';
 
-import { Storage } from '../src';
+import { STALE_MANIFEST, Storage } from '../src';
 
 setup([]);
 
@@ -16,20 +20,65 @@ const fakeHost = 'localhost:4873';
 const fooManifest = generatePackageMetadata('foo', '1.0.0');
 
 describe('storage', () => {
+  let mockAgent: MockAgent;
+  const mockUplinks = (storage: Storage): void => {
+    for (const uplink of Object.values(storage.uplinks)) {
+      (uplink as ProxyStorage).dispatcher = mockAgent;
+    }
+  };
   beforeEach(() => {
-    nock.cleanAll();
-    nock.abortPendingRequests();
+    mockAgent = new MockAgent({ connections: 1 });
+    mockAgent.disableNetConnect();
     jest.clearAllMocks();
   });
+  describe('init', () => {
+    const interruptWrite = (storagePath: string): string => {
+      fs.mkdirSync(path.join(storagePath, 'foo'), { recursive: true });
+      fs.writeFileSync(
+        path.join(storagePath, 'foo', '.journal.json'),
+        JSON.stringify({
+          entries: [{ file: 'foo-1.0.0.tgz', temp: 'foo-1.0.0.tgz.tmp-1', state: 'pending' }],
+        })
+      );
+      const temp = path.join(storagePath, 'foo', 'foo-1.0.0.tgz.tmp-1');
+      fs.writeFileSync(temp, 'partial');
+
+      return temp;
+    };
+
+    test('should not recover the journals by default', async () => {
+      const storagePath = generateRamdonStorage();
+      const temp = interruptWrite(storagePath);
+      const config = new Config(configExample({ storage: storagePath }));
+      const storage = new Storage(config);
+
+      await storage.init(config);
+
+      expect(fs.existsSync(temp)).toBe(true);
+    });
+
+    test('should recover the journals on the start of the server', async () => {
+      const storagePath = generateRamdonStorage();
+      const temp = interruptWrite(storagePath);
+      const config = new Config(configExample({ storage: storagePath }));
+      const storage = new Storage(config);
+
+      await storage.init(config, [], { recoverJournals: true });
+
+      expect(fs.existsSync(temp)).toBe(false);
+    });
+  });
+
   describe('add packages', () => {
     test('add package item', async () => {
-      nock(domain).get('/foo').reply(404);
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(404, '');
       const config = new Config(
         configExample({
           storage: generateRamdonStorage(),
         })
       );
       const storage = new Storage(config);
+      mockUplinks(storage);
       await storage.init(config);
 
       await storage.addPackage('foo', fooManifest, (err) => {
@@ -42,7 +91,7 @@ describe('storage', () => {
   describe('get packages getPackageNext()', () => {
     describe('with uplinks', () => {
       test('should get 201 and merge from uplink', async () => {
-        nock(domain).get('/foo').reply(201, fooManifest);
+        mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(201, fooManifest);
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -58,6 +107,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -74,7 +124,7 @@ describe('storage', () => {
       });
 
       test('should get 201 and merge from uplink with version', async () => {
-        nock(domain).get('/foo').reply(201, fooManifest);
+        mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(201, fooManifest);
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -90,6 +140,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -107,7 +158,7 @@ describe('storage', () => {
       });
 
       test('should get 201 and merge from uplink with dist-tag', async () => {
-        nock(domain).get('/foo').reply(201, fooManifest);
+        mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(201, fooManifest);
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -123,6 +174,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -140,7 +192,7 @@ describe('storage', () => {
       });
 
       test('should get 404 for version does not exist', async () => {
-        nock(domain).get('/foo').reply(201, fooManifest);
+        mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(201, fooManifest);
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -156,6 +208,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -175,7 +228,7 @@ describe('storage', () => {
       });
 
       test('should get 404', async () => {
-        nock(domain).get('/foo2').reply(404);
+        mockAgent.get(domain).intercept({ path: '/foo2', method: 'GET' }).reply(404, '');
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -191,6 +244,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -207,10 +261,10 @@ describe('storage', () => {
       });
 
       test('should get ETIMEDOUT with uplink', async () => {
-        nock(domain).get('/foo2').replyWithError({
-          code: 'ETIMEDOUT',
-          errno: 'ETIMEDOUT',
-        });
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/foo2', method: 'GET' })
+          .replyWithError(Object.assign(new Error('ETIMEDOUT'), { code: 'ETIMEDOUT' }));
         const config = new Config(
           configExample({
             storage: generateRamdonStorage(),
@@ -226,6 +280,7 @@ describe('storage', () => {
           url: '/',
         });
         const storage = new Storage(config);
+        mockUplinks(storage);
         await storage.init(config);
         await expect(
           storage.getPackageByOptions({
@@ -242,4 +297,416 @@ describe('storage', () => {
       });
     });
   });
+
+  describe('request coalescing', () => {
+    test('should share one uplink request between concurrent calls', async () => {
+      const upstream = jest.fn(() => ({ statusCode: 200, data: fooManifest }));
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(upstream);
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+        })
+      );
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      const updateVersions = jest.spyOn(storage.localStorage, 'updateVersions');
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => storage.getPackageNext({ name: 'foo', uplinksLook: true }))
+      );
+      expect(results.map(([manifest]) => manifest.name)).toEqual(Array(10).fill('foo'));
+      expect(upstream).toHaveBeenCalledTimes(1);
+      expect(updateVersions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stale metadata', () => {
+    const getStorage = async (uplink: object): Promise<Storage> => {
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          uplinks: { npmjs: { url: domain, maxage: '0', ...uplink } },
+        })
+      );
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      return storage;
+    };
+    const getFoo = (storage: Storage) =>
+      storage.getPackageNext({ name: 'foo', uplinksLook: true } as any);
+
+    test('should serve stale metadata while revalidating', async () => {
+      const storage = await getStorage({ stale_while_revalidate: '1h' });
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      const [manifest] = await getFoo(storage);
+      expect(manifest[STALE_MANIFEST]).toBeUndefined();
+
+      const revalidated = new Promise((resolve) => {
+        mockAgent
+          .get(domain)
+          .intercept({ path: '/foo', method: 'GET' })
+          .reply(() => {
+            resolve(true);
+            return { statusCode: 200, data: fooManifest };
+          });
+      });
+      const [staleManifest] = await getFoo(storage);
+      expect(staleManifest[STALE_MANIFEST]).toEqual('stale-while-revalidate');
+      await expect(revalidated).resolves.toBe(true);
+    });
+
+    test('should serve stale metadata if the uplink fails', async () => {
+      const storage = await getStorage({ stale_if_error: '1h' });
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      await getFoo(storage);
+
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(500, '');
+      const [manifest] = await getFoo(storage);
+      expect(manifest.name).toEqual('foo');
+      expect(manifest[STALE_MANIFEST]).toEqual('stale-if-error');
+    });
+
+    test('should fail once stale_if_error is over', async () => {
+      const storage = await getStorage({ stale_if_error: '10ms' });
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      await getFoo(storage);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(500, '');
+      await expect(getFoo(storage)).rejects.toThrow(errorUtils.getServiceUnavailable());
+    });
+  });
+
+  describe('conditional requests', () => {
+    const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+    const getStorage = async (): Promise<Storage> => {
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          uplinks: { npmjs: { url: domain, maxage: '0' } },
+        })
+      );
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      return storage;
+    };
+    const getFoo = (storage: Storage) =>
+      storage.getPackageNext({ name: 'foo', uplinksLook: true } as any);
+
+    test('should revalidate the metadata with the uplink validators', async () => {
+      const storage = await getStorage();
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, fooManifest, {
+          headers: { etag: '"foo-1"', 'last-modified': lastModified },
+        });
+      await getFoo(storage);
+
+      const notModified = jest.fn(() => ({ statusCode: 304, data: '' }));
+      mockAgent
+        .get(domain)
+        .intercept({
+          path: '/foo',
+          method: 'GET',
+          headers: { 'If-None-Match': '"foo-1"', 'If-Modified-Since': lastModified },
+        })
+        .reply(notModified);
+      const [manifest, errors] = await getFoo(storage);
+      expect(notModified).toHaveBeenCalledTimes(1);
+      expect(manifest.name).toEqual('foo');
+      // a 304 is not an uplink error
+      expect(_.compact(_.flatten(errors))).toEqual([]);
+    });
+  });
+
+  describe('abbreviated manifests', () => {
+    test('should cache the abbreviated manifest of an uplink', async () => {
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          uplinks: { npmjs: { url: domain, abbreviated: true } },
+        })
+      );
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      const modified = '2022-01-01T00:00:00.000Z';
+      mockAgent
+        .get(domain)
+        .intercept({
+          path: '/foo',
+          method: 'GET',
+          headers: {
+            [HEADERS.ACCEPT]: (accept) => accept.startsWith(HEADERS.ABBREVIATED_JSON),
+          },
+        })
+        .reply(200, { ...pkgUtils.abbreviateManifest(fooManifest), modified });
+
+      const [manifest] = await storage.getPackageNext({ name: 'foo', uplinksLook: true } as any);
+      expect(manifest.versions['1.0.0'].name).toEqual('foo');
+      expect(manifest.modified).toBeUndefined();
+      expect(manifest.time.modified).toEqual(modified);
+    });
+  });
+
+  describe('minimum_age', () => {
+    const getConfig = () =>
+      new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          packages: {
+            '**': { access: '$all', publish: '$all', proxy: 'npmjs', minimum_age: '72h' },
+          },
+        })
+      );
+    const getQuarantinedManifest = () => {
+      const manifest = generatePackageMetadata('foo', '1.0.0');
+      manifest.versions['1.1.0'] = {
+        ...manifest.versions['1.0.0'],
+        version: '1.1.0',
+        dist: {
+          ...manifest.versions['1.0.0'].dist,
+          tarball: `${domain}/foo/-/foo-1.1.0.tgz`,
+        },
+      };
+      manifest['dist-tags'].latest = '1.1.0';
+      manifest.time = {
+        '1.0.0': new Date(Date.now() - 30 * 86400000).toISOString(),
+        '1.1.0': new Date().toISOString(),
+      };
+      return manifest;
+    };
+
+    test('should hide uplink versions younger than minimum_age', async () => {
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, getQuarantinedManifest());
+      const config = getConfig();
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+
+      const [manifest] = await storage.getPackageNext({ name: 'foo', uplinksLook: true });
+      expect(Object.keys(manifest.versions)).toEqual(['1.0.0']);
+      expect(manifest['dist-tags'].latest).toEqual('1.0.0');
+    });
+
+    test('should not find the tarball of a quarantined version', (done) => {
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, getQuarantinedManifest());
+      const config = getConfig();
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      storage.init(config).then(() => {
+        const stream = storage.getTarball('foo', 'foo-1.1.0.tgz');
+        stream.on('error', (err) => {
+          expect(err.status).toEqual(404);
+          done();
+        });
+      });
+    });
+
+    test('should hide the young versions of a cached manifest', async () => {
+      const config = getConfig();
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      // cached before the quarantine, fresh enough not to be fetched again
+      const cached = { ...getQuarantinedManifest(), _uplinks: { npmjs: { fetched: Date.now() } } };
+      await storage.localStorage.storagePlugin
+        .getPackageStorage('foo')
+        .savePackageNext('foo', cached);
+
+      const [manifest] = await storage.getPackageNext({ name: 'foo', uplinksLook: true });
+      expect(Object.keys(manifest.versions)).toEqual(['1.0.0']);
+      expect(manifest['dist-tags'].latest).toEqual('1.0.0');
+    });
+
+    test('should not serve the cached tarball of a quarantined version', async () => {
+      const config = getConfig();
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      const cached = { ...getQuarantinedManifest(), _uplinks: { npmjs: { fetched: Date.now() } } };
+      const packageStorage = storage.localStorage.storagePlugin.getPackageStorage('foo');
+      await packageStorage.savePackageNext('foo', cached);
+      await new Promise<void>((resolve, reject) => {
+        const stream = packageStorage.writeTarball('foo-1.1.0.tgz');
+        stream.on('error', reject);
+        stream.on('success', () => resolve());
+        stream.on('open', () => stream.done());
+        stream.end('data');
+      });
+
+      const err: any = await new Promise((resolve) => {
+        const stream = storage.getTarball('foo', 'foo-1.1.0.tgz');
+        stream.on('error', resolve);
+        stream.on('open', () => resolve(null));
+      });
+      expect(err?.status).toEqual(404);
+    });
+
+    test('should not serve the tarball of a quarantined version cached from the uplink', async () => {
+      const storagePath = generateRamdonStorage();
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo', method: 'GET' })
+        .reply(200, getQuarantinedManifest());
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo/-/foo-1.1.0.tgz', method: 'GET' })
+        .reply(200, 'data');
+      // cached before the quarantine was configured
+      const config = new Config(configExample({ storage: storagePath }));
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+      const addTarball = storage.localStorage.addTarball.bind(storage.localStorage);
+      let saved: Promise<void> = Promise.resolve();
+      jest.spyOn(storage.localStorage, 'addTarball').mockImplementationOnce((...args) => {
+        const stream = addTarball(...args);
+        saved = new Promise((resolve) => stream.on('success', resolve));
+        return stream;
+      });
+      await new Promise((resolve, reject) => {
+        const stream = storage.getTarball('foo', 'foo-1.1.0.tgz');
+        stream.on('error', reject);
+        stream.on('end', resolve);
+        stream.resume();
+      });
+      await saved;
+      await storage.close();
+
+      const quarantineConfig = new Config(
+        configExample({
+          storage: storagePath,
+          packages: {
+            '**': { access: '$all', publish: '$all', proxy: 'npmjs', minimum_age: '72h' },
+          },
+        })
+      );
+      const quarantineStorage = new Storage(quarantineConfig);
+      mockUplinks(quarantineStorage);
+      await quarantineStorage.init(quarantineConfig);
+
+      const err: any = await new Promise((resolve) => {
+        const stream = quarantineStorage.getTarball('foo', 'foo-1.1.0.tgz');
+        stream.on('error', resolve);
+        stream.on('open', () => resolve(null));
+      });
+      expect(err?.status).toEqual(404);
+    });
+
+    test('should fail with an invalid minimum_age', () => {
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          packages: { '**': { access: '$all', minimum_age: 'soon' } },
+        })
+      );
+      expect(() => new Storage(config)).toThrow('CONFIG: invalid minimum_age');
+    });
+  });
+
+  describe('proxy_strategy', () => {
+    const primary = 'http://localhost:5555';
+    const getConfig = (proxy_strategy: string) =>
+      new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+          uplinks: { primary: { url: primary }, npmjs: { url: domain } },
+          packages: {
+            '**': { access: '$all', publish: '$all', proxy: 'primary npmjs', proxy_strategy },
+          },
+        })
+      );
+
+    test('should stop at the first uplink with the package', async () => {
+      const secondary = jest.fn(() => ({ statusCode: 200, data: fooManifest }));
+      mockAgent.get(primary).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(secondary);
+      const config = getConfig('first-success');
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+
+      const [manifest] = await storage.getPackageNext({ name: 'foo', uplinksLook: true });
+      expect(manifest.name).toEqual('foo');
+      expect(secondary).not.toHaveBeenCalled();
+    });
+
+    test('should try the next uplink if the first fails', async () => {
+      mockAgent.get(primary).intercept({ path: '/foo', method: 'GET' }).reply(500, '');
+      mockAgent.get(domain).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      const config = getConfig('first-success');
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      await storage.init(config);
+
+      const [manifest] = await storage.getPackageNext({ name: 'foo', uplinksLook: true });
+      expect(manifest.name).toEqual('foo');
+    });
+
+    test('should fail over the tarball to the next uplink', (done) => {
+      mockAgent.get(primary).intercept({ path: '/foo', method: 'GET' }).reply(200, fooManifest);
+      mockAgent
+        .get(primary)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(503, '');
+      mockAgent
+        .get(domain)
+        .intercept({ path: '/foo/-/foo-1.0.0.tgz', method: 'GET' })
+        .reply(200, 'tarball');
+      const config = getConfig('weighted');
+      const storage = new Storage(config);
+      mockUplinks(storage);
+      // the primary uplink always comes first
+      storage.uplinks.npmjs.config.weight = 0;
+      storage.init(config).then(() => {
+        const chunks: Buffer[] = [];
+        const stream = storage.getTarball('foo', 'foo-1.0.0.tgz');
+        stream.on('data', (chunk) => chunks.push(chunk));
+        stream.on('end', () => {
+          expect(Buffer.concat(chunks).toString()).toEqual('tarball');
+          done();
+        });
+      });
+    });
+
+    test('should fail with an invalid proxy_strategy', () => {
+      expect(() => new Storage(getConfig('random'))).toThrow(
+        'CONFIG: invalid proxy_strategy "random" for packages "**"'
+      );
+    });
+  });
+
+  describe('getTarball', () => {
+    test('should forbid a tarball rejected by a filter', (done) => {
+      const config = new Config(
+        configExample({
+          storage: generateRamdonStorage(),
+        })
+      );
+      const storage = new Storage(config);
+      const filter = {
+        filter_metadata: jest.fn((pkg) => Promise.resolve(pkg)),
+        filter_tarball: jest.fn(() => Promise.reject(errorUtils.getForbidden('vulnerable'))),
+      };
+      storage.init(config, [filter]).then(() => {
+        const stream = storage.getTarball('foo', 'foo-1.0.0.tgz');
+        stream.on('error', (err) => {
+          expect(err).toEqual(errorUtils.getForbidden('vulnerable'));
+          expect(filter.filter_tarball).toHaveBeenCalledWith('foo', 'foo-1.0.0.tgz');
+          done();
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,176 @@
+import { IProxy, ProxyList } from '@verdaccio/proxy';
+import { Package } from '@verdaccio/types';
+
+import {
+  getMinimumAge,
+  getProxyUpLinks,
+  getUpLinkTarballUrl,
+  quarantineUpLinkVersions,
+  validateMinimumAge,
+  validateProxyStrategy,
+} from '../src/uplink-util';
+
+const now = Date.parse('2021-06-10T00:00:00.000Z');
+const hour = 60 * 60 * 1000;
+
+function buildManifest(times: Record<string, number>, distTags: Record<string, string>): Package {
+  const versions = Object.keys(times);
+  return {
+    name: 'foo',
+    versions: Object.fromEntries(versions.map((version) => [version, { version }])),
+    time: {
+      modified: new Date(now).toISOString(),
+      ...Object.fromEntries(
+        versions.map((version) => [version, new Date(now - times[version] * hour).toISOString()])
+      ),
+    },
+    'dist-tags': distTags,
+  } as unknown as Package;
+}
+
+describe('uplink-util', () => {
+  describe('getMinimumAge', () => {
+    const packages = {
+      foo: { access: [], publish: [], unpublish: [], minimum_age: '72h' },
+      '**': { access: [], publish: [], unpublish: [] },
+    };
+
+    test('should parse the minimum age of the matched package', () => {
+      expect(getMinimumAge('foo', packages)).toEqual(72 * hour);
+    });
+
+    test('should return 0 without minimum age', () => {
+      expect(getMinimumAge('bar', packages)).toEqual(0);
+    });
+  });
+
+  describe('validateMinimumAge', () => {
+    test('should throw on an invalid interval', () => {
+      expect(() =>
+        validateMinimumAge({ '**': { unpublish: [], minimum_age: 'three days' } })
+      ).toThrow('CONFIG: invalid minimum_age "three days" for packages "**"');
+    });
+
+    test('should accept valid intervals', () => {
+      expect(() =>
+        validateMinimumAge({ '**': { unpublish: [], minimum_age: '3d 12h' } })
+      ).not.toThrow();
+    });
+  });
+
+  describe('getProxyUpLinks', () => {
+    const buildUpLink = (upname: string, weight?: number): IProxy =>
+      ({ upname, config: { url: `https://${upname}.local/`, weight } } as IProxy);
+    const uplinks: ProxyList = {
+      npmjs: buildUpLink('npmjs', 1),
+      mirror: buildUpLink('mirror', 3),
+      backup: buildUpLink('backup', 0),
+    };
+    const getNames = (upLinks: IProxy[]): string[] => upLinks.map((upLink) => upLink.upname);
+
+    test('should follow the order of the proxy list', () => {
+      const packages = {
+        '**': { unpublish: [], proxy: ['mirror', 'unknown', 'npmjs'] },
+      };
+
+      expect(getNames(getProxyUpLinks('foo', uplinks, packages))).toEqual(['mirror', 'npmjs']);
+    });
+
+    test('should order by weight with the weighted strategy', () => {
+      const packages: any = {
+        '**': { unpublish: [], proxy: ['backup', 'npmjs', 'mirror'], proxy_strategy: 'weighted' },
+      };
+
+      // npmjs takes the first quarter of the total weight
+      expect(getNames(getProxyUpLinks('foo', uplinks, packages, () => 0.2))).toEqual([
+        'npmjs',
+        'mirror',
+        'backup',
+      ]);
+      expect(getNames(getProxyUpLinks('foo', uplinks, packages, () => 0.3))).toEqual([
+        'mirror',
+        'npmjs',
+        'backup',
+      ]);
+    });
+  });
+
+  test('getUpLinkTarballUrl should build the tarball url of an uplink', () => {
+    expect(
+      getUpLinkTarballUrl(
+        { config: { url: 'https://registry.npmjs.org/' } } as IProxy,
+        '@scope/foo',
+        'foo-1.0.0.tgz'
+      )
+    ).toEqual('https://registry.npmjs.org/@scope/foo/-/foo-1.0.0.tgz');
+  });
+
+  test('validateProxyStrategy should throw on an unknown strategy', () => {
+    expect(() =>
+      validateProxyStrategy({ '**': { unpublish: [], proxy_strategy: 'all' as any } })
+    ).toThrow('CONFIG: invalid proxy_strategy "all" for packages "**"');
+  });
+
+  describe('quarantineUpLinkVersions', () => {
+    test('should hide young versions and recompute latest', () => {
+      const manifest = buildManifest(
+        { '1.0.0': 200, '1.1.0': 100, '1.2.0': 10 },
+        { latest: '1.2.0', stable: '1.1.0' }
+      );
+
+      expect(quarantineUpLinkVersions(manifest, 72 * hour, now)).toEqual(['1.2.0']);
+      expect(Object.keys(manifest.versions)).toEqual(['1.0.0', '1.1.0']);
+      expect(manifest.time?.['1.2.0']).toBeUndefined();
+      expect(manifest['dist-tags']).toEqual({ latest: '1.1.0', stable: '1.1.0' });
+    });
+
+    test('should remove the dist-tags of hidden versions', () => {
+      const manifest = buildManifest(
+        { '1.0.0': 200, '2.0.0-beta.1': 1 },
+        { latest: '1.0.0', beta: '2.0.0-beta.1' }
+      );
+
+      quarantineUpLinkVersions(manifest, 72 * hour, now);
+      expect(manifest['dist-tags']).toEqual({ latest: '1.0.0' });
+    });
+
+    test('should not promote a prerelease or a higher major to latest', () => {
+      const manifest = buildManifest(
+        { '1.0.0': 200, '1.1.0': 10, '1.2.0-beta.1': 200, '2.0.0': 200 },
+        { latest: '1.1.0' }
+      );
+
+      quarantineUpLinkVersions(manifest, 72 * hour, now);
+      expect(manifest['dist-tags']).toEqual({ latest: '1.0.0' });
+    });
+
+    test('should keep the versions published to verdaccio', () => {
+      const manifest = buildManifest({ '1.0.0': 200, '1.1.0': 1 }, { latest: '1.1.0' });
+      manifest.versions['1.1.0'].dist = { tarball: 'http://localhost/foo/-/foo-1.1.0.tgz' } as any;
+      manifest._attachments = { 'foo-1.1.0.tgz': { shasum: 'sha' } };
+
+      expect(quarantineUpLinkVersions(manifest, 72 * hour, now)).toEqual([]);
+      expect(manifest['dist-tags']).toEqual({ latest: '1.1.0' });
+    });
+
+    test('should hide the versions with a tarball cached from the uplinks', () => {
+      const manifest = buildManifest({ '1.0.0': 200, '1.1.0': 1 }, { latest: '1.1.0' });
+      manifest.versions['1.1.0'].dist = { tarball: 'http://localhost/foo/-/foo-1.1.0.tgz' } as any;
+      manifest._attachments = { 'foo-1.1.0.tgz': { shasum: 'sha' } };
+      manifest._distfiles = {
+        'foo-1.1.0.tgz': { url: 'http://localhost/foo/-/foo-1.1.0.tgz', sha: 'sha' },
+      };
+
+      expect(quarantineUpLinkVersions(manifest, 72 * hour, now)).toEqual(['1.1.0']);
+      expect(manifest['dist-tags']).toEqual({ latest: '1.0.0' });
+    });
+
+    test('should keep versions without publish date', () => {
+      const manifest = buildManifest({ '1.0.0': 1 }, { latest: '1.0.0' });
+      delete manifest.time?.['1.0.0'];
+
+      expect(quarantineUpLinkVersions(manifest, 72 * hour, now)).toEqual([]);
+      expect(Object.keys(manifest.versions)).toEqual(['1.0.0']);
+    });
+  });
+});
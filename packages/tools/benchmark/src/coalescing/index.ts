@@ -0,0 +1,29 @@
+/* eslint-disable no-console */
+import { Command, Option } from 'clipanion';
+
+import runCoalescing from './run';
+
+export class CoalescingCommand extends Command {
+  public static paths = [['coalescing']];
+
+  private concurrency = Option.String('-c', '200', {
+    description: 'concurrent requests of the same package',
+  });
+
+  private latency = Option.String('-l', '100', {
+    description: 'response time of the uplink in milliseconds',
+  });
+
+  private version = Option.String('-v', 'local', {
+    description: 'version is running',
+  });
+
+  public async execute() {
+    try {
+      await runCoalescing(Number(this.concurrency), Number(this.latency), this.version);
+    } catch (err: any) {
+      console.error(err);
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import tempDir from 'temp-dir';
+
+import { Config } from '@verdaccio/config';
+import { setup } from '@verdaccio/logger';
+import { Storage } from '@verdaccio/store';
+
+const path = require('path');
+const debug = require('debug')('metrics:coalescing');
+
+const PACKAGE_NAME = 'react';
+
+function buildManifest(url: string) {
+  return {
+    name: PACKAGE_NAME,
+    versions: {
+      '18.0.0': {
+        name: PACKAGE_NAME,
+        version: '18.0.0',
+        dist: {
+          tarball: `${url}/${PACKAGE_NAME}/-/${PACKAGE_NAME}-18.0.0.tgz`,
+          shasum: '0000000000000000000000000000000000000000',
+        },
+      },
+    },
+    'dist-tags': { latest: '18.0.0' },
+  };
+}
+
+/**
+ * Start a stand-in uplink that answers the metadata after `latency` milliseconds.
+ */
+async function startUplink(latency: number) {
+  let requests = 0;
+  const server = createServer((_req, res) => {
+    requests++;
+    setTimeout(() => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(buildManifest(url)));
+    }, latency);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    requests: () => requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+/**
+ * Request the same package concurrently and count the requests received by the uplink.
+ */
+export default async function run(concurrency: number, latency: number, version: string) {
+  setup({ type: 'stdout', format: 'pretty', level: 'fatal' });
+  const uplink = await startUplink(latency);
+  try {
+    const config = new Config({
+      storage: mkdtempSync(path.join(tempDir, 'verdaccio-benchmark-')),
+      uplinks: { upstream: { url: uplink.url } },
+      packages: { '**': { access: '$all', publish: '$all', proxy: 'upstream' } },
+    } as any);
+    const storage = new Storage(config);
+    await storage.init(config);
+
+    debug('coalescing start, %o concurrent requests', concurrency);
+    const start = Date.now();
+    await Promise.all(
+      Array.from({ length: concurrency }, () =>
+        storage.getPackageNext({ name: PACKAGE_NAME, uplinksLook: true } as any)
+      )
+    );
+    const result = {
+      concurrency,
+      latency,
+      upstreamRequests: uplink.requests(),
+      duration: Date.now() - start,
+    };
+    // eslint-disable-next-line no-console
+    console.log(
+      `${result.concurrency} concurrent requests of ${PACKAGE_NAME}: ` +
+        `${result.upstreamRequests} upstream requests in ${result.duration}ms`
+    );
+
+    const reportPath = path.join(process.cwd(), `./coalescing-results-${version}.json`);
+    debug('report path %o', reportPath);
+    writeFileSync(reportPath, JSON.stringify({ results: [result] }, null, 2), 'utf-8');
+  } finally {
+    await uplink.close();
+  }
+}
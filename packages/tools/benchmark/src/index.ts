@@ -1,6 +1,7 @@
 import { Cli } from 'clipanion';
 
 import { ApiCommand } from './api';
+import { CoalescingCommand } from './coalescing';
 
 const [node, app, ...args] = process.argv;
 
@@ -14,6 +15,7 @@ const cli = new Cli({
 });
 
 cli.register(ApiCommand);
+cli.register(CoalescingCommand);
 cli.runExit(args, Cli.defaultContext);
 
 process.on('uncaughtException', function (err) {
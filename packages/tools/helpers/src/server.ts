@@ -19,7 +19,7 @@ export async function initializeServer(
   config.storage = path.join(os.tmpdir(), '/storage', generateRandomHexString());
   const storage = new Storage(config);
   await storage.init(config, []);
-  const auth: IAuth = new Auth(config);
+  const auth: IAuth = new Auth(config, storage);
   // TODO: this might not be need it, used in apiEndpoints
   app.use(bodyParser.json({ strict: false, limit: '10mb' }));
   // @ts-ignore
@@ -1,11 +1,18 @@
-import { Hash, createHash, pseudoRandomBytes } from 'crypto';
+import { Hash, createHash, getHashes, pseudoRandomBytes } from 'crypto';
 
 export const defaultTarballHashAlgorithm = 'sha1';
+export const defaultIntegrityAlgorithm = 'sha512';
+// sorted from the weakest to the strongest
+const INTEGRITY_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
 
 export function createTarballHash(): Hash {
   return createHash(defaultTarballHashAlgorithm);
 }
 
+export function createIntegrityHash(): Hash {
+  return createHash(defaultIntegrityAlgorithm);
+}
+
 /**
  * Express doesn't do ETAGS with requests <= 1024b
  * we use md5 here, it works well on 1k+ bytes, but sucks with fewer data
@@ -20,3 +27,40 @@ export function stringToMD5(data: Buffer | string): string {
 export function generateRandomHexString(length = 8): string {
   return pseudoRandomBytes(length).toString('hex');
 }
+
+/**
+ * Generate a Subresource Integrity string of the data, eg: sha512-<base64>.
+ */
+export function calculateIntegrity(
+  data: Buffer | string,
+  algorithm: string = defaultIntegrityAlgorithm
+): string {
+  return `${algorithm}-${createHash(algorithm).update(data).digest('base64')}`;
+}
+
+/**
+ * Verify the data against a Subresource Integrity string, as npm does, only the
+ * hashes of the strongest algorithm are considered and any of them must match.
+ * @return false if the integrity does not contain any supported hash
+ */
+export function verifyIntegrity(data: Buffer | string, integrity: string): boolean {
+  const hashes = integrity
+    .trim()
+    .split(/\s+/)
+    .map((hash) => hash.match(/^([a-z0-9]+)-([A-Za-z0-9+/=]+)(\?.*)?$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .filter(([, algorithm]) => INTEGRITY_ALGORITHMS.includes(algorithm))
+    .filter(([, algorithm]) => getHashes().includes(algorithm));
+  if (hashes.length === 0) {
+    return false;
+  }
+
+  const strongest = hashes.reduce((current, hash) =>
+    INTEGRITY_ALGORITHMS.indexOf(hash[1]) > INTEGRITY_ALGORITHMS.indexOf(current[1])
+      ? hash
+      : current
+  )[1];
+  const digest = createHash(strongest).update(data).digest('base64');
+
+  return hashes.some(([, algorithm, expected]) => algorithm === strongest && expected === digest);
+}
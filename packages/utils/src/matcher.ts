@@ -13,3 +13,10 @@ export function getMatchedPackagesSpec(
   }
   return;
 }
+
+/**
+ * Whether the package name matches any of the patterns, eg: @babel/*
+ */
+export function matchPackagePattern(pkgName: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => minimatch.makeRe(pattern).exec(pkgName) !== null);
+}
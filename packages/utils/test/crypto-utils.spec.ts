@@ -0,0 +1,36 @@
+import { calculateIntegrity, verifyIntegrity } from '../src';
+
+describe('crypto-utils', () => {
+  const data = Buffer.from('verdaccio');
+
+  describe('calculateIntegrity', () => {
+    test('should calculate a sha512 integrity by default', () => {
+      expect(calculateIntegrity(data)).toMatch(/^sha512-[A-Za-z0-9+/]+={0,2}$/);
+    });
+
+    test('should calculate an integrity with another algorithm', () => {
+      expect(calculateIntegrity(data, 'sha1')).toEqual('sha1-sUpG4ewl49RO2K2gGdvawv/8S+k=');
+    });
+  });
+
+  describe('verifyIntegrity', () => {
+    test('should verify a matching integrity', () => {
+      expect(verifyIntegrity(data, calculateIntegrity(data))).toBe(true);
+    });
+
+    test('should fail a different data', () => {
+      expect(verifyIntegrity(Buffer.from('other'), calculateIntegrity(data))).toBe(false);
+    });
+
+    test('should only consider the strongest algorithm', () => {
+      const integrity = `${calculateIntegrity(data, 'sha1')} ${calculateIntegrity('other')}`;
+      expect(verifyIntegrity(data, integrity)).toBe(false);
+      expect(verifyIntegrity(data, `${integrity} ${calculateIntegrity(data)}`)).toBe(true);
+    });
+
+    test('should fail without supported hashes', () => {
+      expect(verifyIntegrity(data, 'md5-abc')).toBe(false);
+      expect(verifyIntegrity(data, '')).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { getMatchedPackagesSpec } from '../src/matcher';
+import { getMatchedPackagesSpec, matchPackagePattern } from '../src/matcher';
 
 describe('getMatchedPackagesSpec', () => {
   test('should test basic config', () => {
@@ -62,3 +62,13 @@ describe('getMatchedPackagesSpec', () => {
     expect(getMatchedPackagesSpec('@scope/vue', packages)).toBeUndefined();
   });
 });
+
+describe('matchPackagePattern', () => {
+  test('should match names and patterns', () => {
+    const patterns = ['react', '@babel/*'];
+    expect(matchPackagePattern('react', patterns)).toBe(true);
+    expect(matchPackagePattern('@babel/core', patterns)).toBe(true);
+    expect(matchPackagePattern('react-dom', patterns)).toBe(false);
+    expect(matchPackagePattern('@types/babel__core', patterns)).toBe(false);
+  });
+});
@@ -5,7 +5,12 @@ import _ from 'lodash';
 import { IAuth } from '@verdaccio/auth';
 import { DIST_TAGS, HTTP_STATUS } from '@verdaccio/core';
 import { $NextFunctionVer, $RequestExtend, $ResponseExtend, allow } from '@verdaccio/middleware';
-import { Storage } from '@verdaccio/store';
+import {
+  DownloadsPeriod,
+  Storage,
+  getDownloadsPoint,
+  parseDownloadsPeriod,
+} from '@verdaccio/store';
 import { convertDistRemoteToLocalTarballUrls } from '@verdaccio/tarball';
 import { Config, Package, Version } from '@verdaccio/types';
 import { addGravatarSupport, formatAuthor, isVersionValid } from '@verdaccio/utils';
@@ -16,9 +21,38 @@ export { $RequestExtend, $ResponseExtend, $NextFunctionVer }; // Was required by
 
 export type PackageExt = Package & { author: AuthorAvatar; dist?: { tarball: string } };
 
-export type $SidebarPackage = Package & { latest: Version };
+export interface SidebarDownloads {
+  lastWeek: number;
+  lastMonth: number;
+  // downloads of the version displayed on the last month
+  version: number;
+}
+
+export type $SidebarPackage = Package & { latest: Version; downloads?: SidebarDownloads };
 const debug = buildDebug('verdaccio:web:api:sidebar');
 
+async function getSidebarDownloads(
+  storage: Storage,
+  name: string,
+  version: string
+): Promise<SidebarDownloads | undefined> {
+  try {
+    const downloads = await storage.getDownloads(name);
+    const getPoint = (period: string) =>
+      getDownloadsPoint(name, downloads, parseDownloadsPeriod(period) as DownloadsPeriod);
+    const lastMonth = getPoint('last-month');
+    return {
+      lastWeek: getPoint('last-week').downloads,
+      lastMonth: lastMonth.downloads,
+      version: lastMonth.versions[version] ?? 0,
+    };
+  } catch (err: any) {
+    // eg: a package of the uplinks not stored yet
+    debug('no downloads for %o: %o', name, err.message);
+    return undefined;
+  }
+}
+
 function addSidebarWebApi(config: Config, storage: Storage, auth: IAuth): Router {
   debug('initialized sidebar web api');
   const router = Router(); /* eslint new-cap: 0 */
@@ -39,25 +73,38 @@ function addSidebarWebApi(config: Config, storage: Storage, auth: IAuth): Router
         req,
         callback: function (err: Error, info: $SidebarPackage): void {
           if (_.isNil(err)) {
-            const { v } = req.query;
-            let sideBarInfo = _.clone(info);
-            sideBarInfo.versions = convertDistRemoteToLocalTarballUrls(
-              info,
-              { protocol: req.protocol, headers: req.headers as any, host: req.hostname },
-              config.url_prefix
-            ).versions;
-            if (typeof v === 'string' && isVersionValid(info, v)) {
-              sideBarInfo.latest = sideBarInfo.versions[v];
-              sideBarInfo.latest.author = formatAuthor(sideBarInfo.latest.author);
-            } else {
-              sideBarInfo.latest = sideBarInfo.versions[info[DIST_TAGS].latest];
-              sideBarInfo.latest.author = formatAuthor(sideBarInfo.latest.author);
+            // eg: a dist-tag of a version that does not exist
+            try {
+              const { v } = req.query;
+              let sideBarInfo = _.clone(info);
+              sideBarInfo.versions = convertDistRemoteToLocalTarballUrls(
+                info,
+                { protocol: req.protocol, headers: req.headers as any, host: req.hostname },
+                config.url_prefix
+              ).versions;
+              if (typeof v === 'string' && isVersionValid(info, v)) {
+                sideBarInfo.latest = sideBarInfo.versions[v];
+                sideBarInfo.latest.author = formatAuthor(sideBarInfo.latest.author);
+              } else {
+                sideBarInfo.latest = sideBarInfo.versions[info[DIST_TAGS].latest];
+                sideBarInfo.latest.author = formatAuthor(sideBarInfo.latest.author);
+              }
+              getSidebarDownloads(storage, packageName, sideBarInfo.latest.version)
+                .then((downloads): void => {
+                  sideBarInfo.downloads = downloads;
+                  sideBarInfo = deleteProperties(
+                    ['readme', '_attachments', '_rev', 'name'],
+                    sideBarInfo
+                  );
+                  const authorAvatar = config.web
+                    ? addGravatarSupport(sideBarInfo, config.web.gravatar)
+                    : addGravatarSupport(sideBarInfo);
+                  next(authorAvatar);
+                })
+                .catch(next);
+            } catch (error: any) {
+              next(error);
             }
-            sideBarInfo = deleteProperties(['readme', '_attachments', '_rev', 'name'], sideBarInfo);
-            const authorAvatar = config.web
-              ? addGravatarSupport(sideBarInfo, config.web.gravatar)
-              : addGravatarSupport(sideBarInfo);
-            next(authorAvatar);
           } else {
             res.status(HTTP_STATUS.NOT_FOUND);
             res.end();
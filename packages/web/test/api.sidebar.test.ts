@@ -47,4 +47,14 @@ describe('sidebar api', () => {
       .expect(HTTP_STATUS.OK);
     expect(response.text).toMatch('pk2-test');
   });
+
+  test('should display the downloads of the package', async () => {
+    const app = await initializeServer('default-test.yaml');
+    await publishVersion(app, 'pk3-test', '1.0.0', { readme: 'my readme' });
+    await supertest(app).get('/pk3-test/-/pk3-test-1.0.0.tgz').expect(HTTP_STATUS.OK);
+    const response = await supertest(app)
+      .get('/-/verdaccio/data/sidebar/pk3-test')
+      .expect(HTTP_STATUS.OK);
+    expect(response.body.downloads).toEqual({ lastWeek: 1, lastMonth: 1, version: 1 });
+  });
 });